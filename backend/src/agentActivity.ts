@@ -0,0 +1,206 @@
+import type { AgentActivity, AgentContentBlock, AgentSdkMessage, DiffStats } from './protocol.js';
+
+// A tool call the agent started and hasn't got a result for yet
+interface PendingTool {
+  tool: string;
+  filePath?: string;
+  diffStats?: DiffStats;  // Estimated from the input, replaced by the result's patch if it has one
+}
+
+/**
+ * Create a normalizer for one agent session's SDK message stream
+ * Returns the activity events for each SDK message, tracking tool calls until their results arrive
+ */
+export function createActivityNormalizer(): (message: AgentSdkMessage) => AgentActivity[] {
+  const pendingTools = new Map<string, PendingTool>();
+
+  return (message) => {
+    const activities: AgentActivity[] = [];
+
+    switch (message.type) {
+      case 'assistant':
+        // Subagent messages belong to their Task tool call, which is reported on its own
+        if (message.parent_tool_use_id) break;
+
+        for (const block of getContentBlocks(message)) {
+          if (block.type === 'text' && block.text.trim()) {
+            activities.push({ type: 'assistant_text_delta', text: block.text });
+          } else if (block.type === 'thinking' && block.thinking.trim()) {
+            activities.push({ type: 'thinking', text: block.thinking });
+          } else if (block.type === 'tool_use') {
+            const { input } = block;
+            const filePath = getToolFilePath(input);
+            pendingTools.set(block.id, { tool: block.name, filePath, diffStats: estimateDiffStats(block.name, input) });
+            activities.push({
+              type: 'tool_started',
+              toolUseId: block.id,
+              tool: block.name,
+              summary: summarizeTool(block.name, input),
+              filePath,
+            });
+          }
+        }
+        break;
+
+      case 'user':
+        for (const block of getContentBlocks(message)) {
+          if (block.type !== 'tool_result') continue;
+          const pending = pendingTools.get(block.tool_use_id);
+          if (!pending) continue;
+
+          pendingTools.delete(block.tool_use_id);
+          const isError = block.is_error;
+          activities.push({
+            type: 'tool_finished',
+            toolUseId: block.tool_use_id,
+            tool: pending.tool,
+            filePath: pending.filePath,
+            isError,
+            diffStats: isError ? undefined : getPatchStats(message.tool_use_result) || pending.diffStats,
+          });
+        }
+        break;
+
+      case 'result': {
+        // Tools still running when the turn ends were interrupted
+        for (const [toolUseId, pending] of pendingTools) {
+          activities.push({ type: 'tool_finished', toolUseId, tool: pending.tool, filePath: pending.filePath, isError: true });
+        }
+        pendingTools.clear();
+
+        const usage = message.usage || {};
+        activities.push({
+          type: 'turn_result',
+          isError: message.is_error === true,
+          durationMs: message.duration_ms,
+          numTurns: message.num_turns,
+          costUsd: message.total_cost_usd,
+          // Cached prompt tokens are billed separately but are still input
+          inputTokens: (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0),
+          outputTokens: usage.output_tokens,
+        });
+        break;
+      }
+    }
+
+    return activities;
+  };
+}
+
+function getContentBlocks(message: AgentSdkMessage): AgentContentBlock[] {
+  const content: unknown = message.message?.content;
+  if (!Array.isArray(content)) return [];
+
+  return (content as unknown[]).flatMap((block) => {
+    const parsed = parseContentBlock(block);
+    return parsed ? [parsed] : [];
+  });
+}
+
+// The block's fields come from the SDK unchecked, so check the ones that are read
+// Blocks of other types (images, server tools) are skipped
+function parseContentBlock(block: unknown): AgentContentBlock | undefined {
+  if (!isRecord(block)) return undefined;
+
+  switch (block.type) {
+    case 'text':
+      return typeof block.text === 'string' ? { type: 'text', text: block.text } : undefined;
+    case 'thinking':
+      return typeof block.thinking === 'string' ? { type: 'thinking', thinking: block.thinking } : undefined;
+    case 'tool_use':
+      if (typeof block.id !== 'string' || typeof block.name !== 'string') return undefined;
+      return { type: 'tool_use', id: block.id, name: block.name, input: isRecord(block.input) ? block.input : {} };
+    case 'tool_result':
+      if (typeof block.tool_use_id !== 'string') return undefined;
+      return { type: 'tool_result', tool_use_id: block.tool_use_id, is_error: block.is_error === true };
+    default:
+      return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The first of the fields that holds a non-empty string
+function firstString(...values: unknown[]): string | undefined {
+  return values.find((value): value is string => typeof value === 'string' && value !== '');
+}
+
+function getToolFilePath(input: Record<string, unknown>): string | undefined {
+  return firstString(input.file_path, input.notebook_path, input.path);
+}
+
+// One-line description of a tool call for the activity log and commit messages
+function summarizeTool(tool: string, input: Record<string, unknown>): string {
+  const detail = firstString(input.description, input.command, getToolFilePath(input), input.pattern, input.url, input.query);
+  const summary = detail ? `${tool}: ${detail}` : tool;
+  return summary.length > 100 ? summary.substring(0, 97) + '...' : summary;
+}
+
+// Line counts from the tool's input, used when the result doesn't include a patch
+function estimateDiffStats(tool: string, input: Record<string, unknown>): DiffStats | undefined {
+  switch (tool) {
+    case 'Edit':
+      return diffLines(input.old_string, input.new_string);
+    case 'MultiEdit':
+      if (!Array.isArray(input.edits)) return undefined;
+      return (input.edits as unknown[]).filter(isRecord).reduce(
+        (total: DiffStats, edit) => {
+          const stats = diffLines(edit.old_string, edit.new_string);
+          return { added: total.added + stats.added, removed: total.removed + stats.removed };
+        },
+        { added: 0, removed: 0 }
+      );
+    case 'Write':
+      return typeof input.content === 'string' ? { added: splitLines(input.content).length, removed: 0 } : undefined;
+    default:
+      return undefined;
+  }
+}
+
+// Count changed lines between two strings, ignoring the lines they share at either end
+function diffLines(before: unknown, after: unknown): DiffStats {
+  const oldLines = splitLines(typeof before === 'string' ? before : '');
+  const newLines = splitLines(typeof after === 'string' ? after : '');
+
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < oldLines.length - start &&
+    end < newLines.length - start &&
+    oldLines[oldLines.length - 1 - end] === newLines[newLines.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return { added: newLines.length - start - end, removed: oldLines.length - start - end };
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\n$/, '').split('\n');
+}
+
+// Edit and Write results carry a structured patch with +/- prefixed lines
+// (empty when Write creates a file, which the input estimate covers)
+function getPatchStats(toolUseResult: unknown): DiffStats | undefined {
+  if (typeof toolUseResult !== 'object' || toolUseResult === null || !('structuredPatch' in toolUseResult)) {
+    return undefined;
+  }
+  const patch: unknown = toolUseResult.structuredPatch;
+  if (!Array.isArray(patch) || patch.length === 0) return undefined;
+
+  const stats = { added: 0, removed: 0 };
+  for (const hunk of patch as unknown[]) {
+    const lines: unknown = typeof hunk === 'object' && hunk !== null && 'lines' in hunk ? hunk.lines : undefined;
+    for (const line of Array.isArray(lines) ? (lines as unknown[]) : []) {
+      if (typeof line !== 'string') continue;
+      if (line.startsWith('+')) stats.added++;
+      else if (line.startsWith('-')) stats.removed++;
+    }
+  }
+  return stats;
+}
@@ -1,5 +1,8 @@
 import express, { Request, Response, Router } from 'express';
 import cors from 'cors';
+import multer from 'multer';
+import * as fs from 'fs/promises';
+import * as os from 'os';
 import { createProxyMiddleware } from 'http-proxy-middleware';
 import {
   createProject,
@@ -8,15 +11,62 @@ import {
   listProjects,
   updateProject,
   deleteProject,
+  duplicateProject,
+  exportProject,
+  importProject,
+  getProjectRole,
+  hasProjectRole,
+  isProjectRole,
+  addCollaborator,
+  removeCollaborator,
 } from './projects.js';
-import { getMessages } from './firestore.js';
+import { InvalidArchiveError } from './archive.js';
+import { requireAuth } from './auth.js';
+import type { Project, ProjectRole } from './types.js';
+import { getMessages } from './database.js';
+import { getAttachment } from './attachments.js';
+import {
+  listProjectAssets,
+  saveProjectAsset,
+  deleteProjectAsset,
+  toAssetName,
+  InvalidAssetError,
+  MAX_ASSET_BYTES,
+  MAX_ASSETS_PER_UPLOAD,
+} from './assets.js';
+import { searchSoundEffects, getSoundEffectUrl } from './sfx.js';
+import { generateVoiceover, InvalidVoiceoverError } from './voiceovers.js';
+import { getProjectCaptions, toSrt, toVtt, InvalidCaptionsError } from './captions.js';
+import {
+  parseCompositions,
+  setProjectCompositions,
+  getDefaultCompositionId,
+  hasComposition,
+  parseInputProps,
+  InvalidCompositionsError,
+  InvalidInputPropsError,
+} from './compositions.js';
+import { parseVideoSettings, setProjectVideoSettings, getVideoSettings, InvalidVideoSettingsError } from './videoSettings.js';
 import {
   createRenderJob,
   getRenderJob,
   getProjectRenders,
   cancelRenderJob,
   getRenderJobLogs,
+  RENDER_CAPTIONS_MODES,
 } from './render.js';
+import {
+  parseBatchDataset,
+  createRenderBatch,
+  getRenderBatch,
+  getProjectRenderBatches,
+  getBatchManifest,
+  retryRenderBatchRows,
+  cancelRenderBatch,
+  InvalidBatchDatasetError,
+} from './renderBatches.js';
+import { STORAGE_DRIVER } from './blobStore.js';
+import { listProjectVersions, getVersionDiff, restoreProjectVersion } from './versions.js';
 
 // Use Kubernetes when running in K8s, Docker when running locally
 const useKubernetes = process.env.RUNNING_IN_KUBERNETES === 'true';
@@ -25,7 +75,7 @@ const useKubernetes = process.env.RUNNING_IN_KUBERNETES === 'true';
 const containerModule = useKubernetes
   ? await import('./kubernetes.js')
   : await import('./container.js');
-const { getSession } = containerModule;
+const { getSession, getAllSessions, syncSession, reloadSessionSrc } = containerModule;
 
 // Get getSessionByShortId only in Kubernetes mode
 const getSessionByShortId = useKubernetes
@@ -186,14 +236,113 @@ interface ProjectParams {
   projectId: string;
 }
 
+/**
+ * Load a project the authenticated user has at least the given role on
+ * Sends 404/403 and returns null if it doesn't exist or the user's role is too low
+ */
+async function getProjectForRole(
+  req: Request<any>,
+  res: Response,
+  projectId: string,
+  required: ProjectRole
+): Promise<Project | null> {
+  const project = await getProject(projectId);
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return null;
+  }
+  if (!hasProjectRole(project, req.user!, required)) {
+    res.status(403).json({
+      error: getProjectRole(project, req.user!)
+        ? `This action requires the ${required} role`
+        : 'You do not have access to this project',
+    });
+    return null;
+  }
+  return project;
+}
+
+/**
+ * Check the authenticated user's role on the project a render belongs to
+ * Sends 404/403 and returns false if it's too low
+ */
+async function checkRenderAccess(
+  req: Request<any>,
+  res: Response,
+  renderId: string,
+  required: ProjectRole
+): Promise<boolean> {
+  const render = await getRenderJob(renderId);
+  if (!render) {
+    res.status(404).json({ error: 'Render not found' });
+    return false;
+  }
+  return (await getProjectForRole(req, res, render.projectId, required)) !== null;
+}
+
+async function checkRenderBatchAccess(
+  req: Request<any>,
+  res: Response,
+  batchId: string,
+  required: ProjectRole
+): Promise<boolean> {
+  const batch = await getRenderBatch(batchId);
+  if (!batch) {
+    res.status(404).json({ error: 'Render batch not found' });
+    return false;
+  }
+  return (await getProjectForRole(req, res, batch.projectId, required)) !== null;
+}
+
+// ============ Local Blob Routes ============
+
+interface BlobParams {
+  blobPath: string[];
+}
+
+// Serves the signed URLs handed out by the local blob store (STORAGE_DRIVER=local)
+// The signature is the credential, so these don't require a bearer token
+if (STORAGE_DRIVER === 'local') {
+  const { verifySignedUrl, resolveBlobPath } = await import('./localBlobStore.js');
+
+  router.get('/blobs/*blobPath', async (req: Request<BlobParams>, res: Response) => {
+    const blobPath = req.params.blobPath.join('/');
+    const expires = Number(req.query.expires);
+    const signature = String(req.query.signature || '');
+
+    if (!verifySignedUrl(blobPath, expires, signature)) {
+      res.status(403).json({ error: 'Invalid or expired signature' });
+      return;
+    }
+
+    res.sendFile(resolveBlobPath(blobPath), { dotfiles: 'allow' }, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: 'Blob not found' });
+      }
+    });
+  });
+}
+
+// ============ Health Check ============
+
+router.get('/health', (_req: Request, res: Response) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+// ============ Authentication ============
+
+// Every route below requires a bearer token and sets req.user
+router.use(requireAuth);
+
 // ============ Project Routes ============
 
 // List all projects
 router.get('/projects', async (req: Request, res: Response) => {
   try {
-    const userId = req.query.userId as string | undefined;
-    const projects = await listProjects(userId);
-    res.json({ projects });
+    const projects = await listProjects(req.user!);
+    res.json({
+      projects: projects.map((project) => ({ ...project, role: getProjectRole(project, req.user!) })),
+    });
   } catch (error) {
     console.error('Error listing projects:', error);
     res.status(500).json({ error: 'Failed to list projects' });
@@ -203,14 +352,14 @@ router.get('/projects', async (req: Request, res: Response) => {
 // Create a new project
 router.post('/projects', async (req: Request, res: Response) => {
   try {
-    const { name, description, userId } = req.body;
+    const { name, description } = req.body;
 
     if (!name) {
       res.status(400).json({ error: 'Project name is required' });
       return;
     }
 
-    const project = await createProject({ name, description, userId });
+    const project = await createProject({ name, description, userId: req.user!.id });
     res.status(201).json({ project });
   } catch (error) {
     console.error('Error creating project:', error);
@@ -222,6 +371,8 @@ router.post('/projects', async (req: Request, res: Response) => {
 router.get('/projects/:projectId', async (req: Request<ProjectParams>, res: Response) => {
   try {
     const { projectId } = req.params;
+    if (!(await getProjectForRole(req, res, projectId, 'viewer'))) return;
+
     const result = await getProjectWithHistory(projectId);
 
     if (!result) {
@@ -229,7 +380,7 @@ router.get('/projects/:projectId', async (req: Request<ProjectParams>, res: Resp
       return;
     }
 
-    res.json(result);
+    res.json({ ...result, role: getProjectRole(result.project, req.user!) });
   } catch (error) {
     console.error('Error getting project:', error);
     res.status(500).json({ error: 'Failed to get project' });
@@ -242,36 +393,220 @@ router.patch('/projects/:projectId', async (req: Request<ProjectParams>, res: Re
     const { projectId } = req.params;
     const { name, description } = req.body;
 
-    const project = await getProject(projectId);
-    if (!project) {
-      res.status(404).json({ error: 'Project not found' });
-      return;
-    }
+    const project = await getProjectForRole(req, res, projectId, 'editor');
+    if (!project) return;
+
+    // Check the settings before changing anything
+    const videoSettings = req.body.videoSettings !== undefined ? parseVideoSettings(req.body.videoSettings) : undefined;
 
-    await updateProject(projectId, { name, description });
+    // Only change the fields that were sent
+    const updates: { name?: string; description?: string } = {};
+    if (name !== undefined) updates.name = name;
+    if (description !== undefined) updates.description = description;
+    if (Object.keys(updates).length > 0) {
+      await updateProject(projectId, updates);
+    }
+    if (videoSettings) {
+      await setProjectVideoSettings(projectId, videoSettings);
+    }
     res.json({ success: true });
   } catch (error) {
+    if (error instanceof InvalidVideoSettingsError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     console.error('Error updating project:', error);
     res.status(500).json({ error: 'Failed to update project' });
   }
 });
 
+// Store the compositions the preview discovered in the project's Root.tsx
+router.put('/projects/:projectId/compositions', async (req: Request<ProjectParams>, res: Response) => {
+  try {
+    const { projectId } = req.params;
+
+    const project = await getProjectForRole(req, res, projectId, 'editor');
+    if (!project) return;
+
+    const compositions = parseCompositions(req.body?.compositions);
+    await setProjectCompositions(project, compositions);
+    res.json({ compositions });
+  } catch (error) {
+    if (error instanceof InvalidCompositionsError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error updating compositions:', error);
+    res.status(500).json({ error: 'Failed to update compositions' });
+  }
+});
+
 // Delete a project
 router.delete('/projects/:projectId', async (req: Request<ProjectParams>, res: Response) => {
   try {
     const { projectId } = req.params;
 
-    const project = await getProject(projectId);
+    const project = await getProjectForRole(req, res, projectId, 'owner');
+    if (!project) return;
+
+    await deleteProject(projectId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    res.status(500).json({ error: 'Failed to delete project' });
+  }
+});
+
+// Duplicate a project (optionally with its chat history)
+router.post('/projects/:projectId/duplicate', async (req: Request<ProjectParams>, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { name, includeMessages } = req.body || {};
+    if (!(await getProjectForRole(req, res, projectId, 'editor'))) return;
+
+    // Make sure the copy includes changes from any running session
+    const sessions = getAllSessions().filter((session) => session.projectId === projectId);
+    await Promise.all(sessions.map((session) => syncSession(session.id)));
+
+    const project = await duplicateProject(projectId, {
+      name,
+      includeMessages: includeMessages === true,
+      userId: req.user!.id,
+    });
     if (!project) {
       res.status(404).json({ error: 'Project not found' });
       return;
     }
 
-    await deleteProject(projectId);
+    res.status(201).json({ project });
+  } catch (error) {
+    console.error('Error duplicating project:', error);
+    res.status(500).json({ error: 'Failed to duplicate project' });
+  }
+});
+
+// Export a project as a portable .tar.gz archive
+router.get('/projects/:projectId/export', async (req: Request<ProjectParams>, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    if (!(await getProjectForRole(req, res, projectId, 'editor'))) return;
+
+    // Make sure the archive includes changes from any running session
+    const sessions = getAllSessions().filter((session) => session.projectId === projectId);
+    await Promise.all(sessions.map((session) => syncSession(session.id)));
+
+    const archive = await exportProject(projectId);
+    if (!archive) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/gzip');
+    res.setHeader('Content-Disposition', `attachment; filename="storydream-${projectId}.tar.gz"`);
+    res.send(archive);
+  } catch (error) {
+    console.error('Error exporting project:', error);
+    res.status(500).json({ error: 'Failed to export project' });
+  }
+});
+
+// Import a project from an archive (request body is the raw .tar.gz)
+router.post(
+  '/projects/import',
+  express.raw({ type: ['application/gzip', 'application/x-gzip', 'application/octet-stream'], limit: '200mb' }),
+  async (req: Request, res: Response) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ error: 'Request body must be a project archive (.tar.gz)' });
+        return;
+      }
+
+      const name = req.query.name as string | undefined;
+      const project = await importProject(req.body, { name, userId: req.user!.id });
+      res.status(201).json({ project });
+    } catch (error) {
+      if (error instanceof InvalidArchiveError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('Error importing project:', error);
+      res.status(500).json({ error: 'Failed to import project' });
+    }
+  }
+);
+
+// ============ Collaborator Routes ============
+
+interface CollaboratorParams {
+  projectId: string;
+  member: string;
+}
+
+// List a project's owner and collaborators
+router.get('/projects/:projectId/collaborators', async (req: Request<ProjectParams>, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const project = await getProjectForRole(req, res, projectId, 'viewer');
+    if (!project) return;
+
+    res.json({ ownerId: project.userId, collaborators: project.collaborators || [] });
+  } catch (error) {
+    console.error('Error listing collaborators:', error);
+    res.status(500).json({ error: 'Failed to list collaborators' });
+  }
+});
+
+// Invite a collaborator (by userId or email) or change their role
+router.post('/projects/:projectId/collaborators', async (req: Request<ProjectParams>, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { userId, email, role } = req.body;
+
+    if (!userId && !email) {
+      res.status(400).json({ error: 'userId or email is required' });
+      return;
+    }
+    if (!isProjectRole(role)) {
+      res.status(400).json({ error: 'role must be viewer, editor or owner' });
+      return;
+    }
+
+    const project = await getProjectForRole(req, res, projectId, 'owner');
+    if (!project) return;
+
+    if (userId === project.userId) {
+      res.status(400).json({ error: 'User already owns this project' });
+      return;
+    }
+
+    const collaborator = await addCollaborator(projectId, { userId, email, role }, req.user!.id);
+    res.status(201).json({ collaborator });
+  } catch (error) {
+    console.error('Error adding collaborator:', error);
+    res.status(500).json({ error: 'Failed to add collaborator' });
+  }
+});
+
+// Remove a collaborator (owners can remove anyone, collaborators can remove themselves)
+router.delete('/projects/:projectId/collaborators/:member', async (req: Request<CollaboratorParams>, res: Response) => {
+  try {
+    const { projectId, member } = req.params;
+    const isSelf = member === req.user!.id ||
+      (!!req.user!.email && member.toLowerCase() === req.user!.email.toLowerCase());
+
+    const project = await getProjectForRole(req, res, projectId, isSelf ? 'viewer' : 'owner');
+    if (!project) return;
+
+    const removed = await removeCollaborator(projectId, member);
+    if (!removed) {
+      res.status(404).json({ error: 'Collaborator not found' });
+      return;
+    }
+
     res.json({ success: true });
   } catch (error) {
-    console.error('Error deleting project:', error);
-    res.status(500).json({ error: 'Failed to delete project' });
+    console.error('Error removing collaborator:', error);
+    res.status(500).json({ error: 'Failed to remove collaborator' });
   }
 });
 
@@ -282,11 +617,8 @@ router.get('/projects/:projectId/messages', async (req: Request<ProjectParams>,
   try {
     const { projectId } = req.params;
 
-    const project = await getProject(projectId);
-    if (!project) {
-      res.status(404).json({ error: 'Project not found' });
-      return;
-    }
+    const project = await getProjectForRole(req, res, projectId, 'viewer');
+    if (!project) return;
 
     const messages = await getMessages(projectId);
     res.json({ messages });
@@ -296,6 +628,298 @@ router.get('/projects/:projectId/messages', async (req: Request<ProjectParams>,
   }
 });
 
+interface AttachmentParams {
+  projectId: string;
+  attachmentId: string;
+}
+
+// Get an image attached to a chat message
+router.get('/projects/:projectId/attachments/:attachmentId', async (req: Request<AttachmentParams>, res: Response) => {
+  try {
+    const { projectId, attachmentId } = req.params;
+
+    const project = await getProjectForRole(req, res, projectId, 'viewer');
+    if (!project) return;
+
+    const attachment = await getAttachment(projectId, attachmentId);
+    if (!attachment) {
+      res.status(404).json({ error: 'Attachment not found' });
+      return;
+    }
+
+    // Attachments never change, so browsers can keep them
+    res.set({
+      'Content-Type': attachment.mediaType,
+      'Cache-Control': 'private, max-age=86400, immutable',
+      'X-Content-Type-Options': 'nosniff',
+    });
+    res.send(attachment.data);
+  } catch (error) {
+    console.error('Error getting attachment:', error);
+    res.status(500).json({ error: 'Failed to get attachment' });
+  }
+});
+
+// ============ Asset Routes ============
+
+interface AssetParams {
+  projectId: string;
+  name: string;
+}
+
+// Uploads are written to temp files, then copied to storage
+const assetUpload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: MAX_ASSET_BYTES, files: MAX_ASSETS_PER_UPLOAD },
+}).array('files', MAX_ASSETS_PER_UPLOAD);
+
+// List a project's uploaded assets
+router.get('/projects/:projectId/assets', async (req: Request<ProjectParams>, res: Response) => {
+  try {
+    const { projectId } = req.params;
+
+    const project = await getProjectForRole(req, res, projectId, 'viewer');
+    if (!project) return;
+
+    const assets = await listProjectAssets(projectId);
+    res.json({ assets });
+  } catch (error) {
+    console.error('Error listing assets:', error);
+    res.status(500).json({ error: 'Failed to list assets' });
+  }
+});
+
+// Parse a multipart upload into temp files, answering multer errors (e.g. a file that's too large) as JSON
+function receiveAssetUpload(req: Request, res: Response, next: () => void): void {
+  assetUpload(req, res, (error: unknown) => {
+    if (!error) {
+      next();
+      return;
+    }
+
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    Promise.all(files.map((file) => fs.rm(file.path, { force: true }))).catch(() => {});
+
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+      res.status(tooLarge ? 413 : 400).json({
+        error: tooLarge ? `Files must be smaller than ${MAX_ASSET_BYTES / 1024 / 1024} MB` : error.message,
+      });
+      return;
+    }
+    console.error('Error receiving asset upload:', error);
+    res.status(500).json({ error: 'Failed to upload assets' });
+  });
+}
+
+// Upload assets (multipart/form-data, one or more "files" fields)
+router.post('/projects/:projectId/assets', receiveAssetUpload, async (req: Request, res: Response) => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+  try {
+    const projectId = req.params.projectId as string;
+
+    const project = await getProjectForRole(req, res, projectId, 'editor');
+    if (!project) return;
+
+    if (files.length === 0) {
+      res.status(400).json({ error: 'No files uploaded' });
+      return;
+    }
+
+    // Check every file before storing any of them
+    files.forEach((file) => toAssetName(file.originalname));
+
+    const assets = [];
+    for (const file of files) {
+      assets.push(await saveProjectAsset(projectId, file.originalname, file.path));
+    }
+    res.status(201).json({ assets });
+  } catch (error) {
+    if (error instanceof InvalidAssetError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error uploading assets:', error);
+    res.status(500).json({ error: 'Failed to upload assets' });
+  } finally {
+    await Promise.all(files.map((file) => fs.rm(file.path, { force: true })));
+  }
+});
+
+// Delete an asset
+router.delete('/projects/:projectId/assets/:name', async (req: Request<AssetParams>, res: Response) => {
+  try {
+    const { projectId, name } = req.params;
+
+    const project = await getProjectForRole(req, res, projectId, 'editor');
+    if (!project) return;
+
+    if (!(await deleteProjectAsset(projectId, name))) {
+      res.status(404).json({ error: 'Asset not found' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting asset:', error);
+    res.status(500).json({ error: 'Failed to delete asset' });
+  }
+});
+
+// Generate a voiceover from script text and store it, with word timings, as project assets
+router.post('/projects/:projectId/voiceovers', async (req: Request<ProjectParams>, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { text, voice, speed, name } = req.body as { text?: string; voice?: string; speed?: number; name?: string };
+
+    const project = await getProjectForRole(req, res, projectId, 'editor');
+    if (!project) return;
+
+    if (typeof text !== 'string') {
+      res.status(400).json({ error: 'text is required' });
+      return;
+    }
+
+    const voiceover = await generateVoiceover(projectId, { text, voice, speed, name });
+    res.status(201).json({ voiceover });
+  } catch (error) {
+    if (error instanceof InvalidVoiceoverError || error instanceof InvalidAssetError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error generating voiceover:', error);
+    res.status(500).json({ error: 'Failed to generate voiceover' });
+  }
+});
+
+// ============ Caption Routes ============
+
+// Export a caption file as subtitles (?source=voiceover-intro.json, default captions.json;
+// ?offset=2.5 shifts the cues to where the captioned audio starts in the video)
+async function sendCaptions(req: Request<ProjectParams>, res: Response, format: 'srt' | 'vtt'): Promise<void> {
+  try {
+    const { projectId } = req.params;
+    const source = typeof req.query.source === 'string' ? req.query.source : undefined;
+    const offsetSeconds = typeof req.query.offset === 'string' ? Number(req.query.offset) : 0;
+
+    const project = await getProjectForRole(req, res, projectId, 'viewer');
+    if (!project) return;
+
+    if (!Number.isFinite(offsetSeconds)) {
+      res.status(400).json({ error: 'offset must be a number of seconds' });
+      return;
+    }
+
+    const cues = await getProjectCaptions(projectId, source);
+    if (!cues) {
+      res.status(404).json({ error: 'Caption file not found' });
+      return;
+    }
+
+    res.setHeader('Content-Type', format === 'srt' ? 'application/x-subrip; charset=utf-8' : 'text/vtt; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="captions.${format}"`);
+    res.send(format === 'srt' ? toSrt(cues, offsetSeconds) : toVtt(cues, offsetSeconds));
+  } catch (error) {
+    if (error instanceof InvalidCaptionsError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error exporting captions:', error);
+    res.status(500).json({ error: 'Failed to export captions' });
+  }
+}
+
+router.get('/projects/:projectId/captions.srt', (req: Request<ProjectParams>, res: Response) => sendCaptions(req, res, 'srt'));
+router.get('/projects/:projectId/captions.vtt', (req: Request<ProjectParams>, res: Response) => sendCaptions(req, res, 'vtt'));
+
+// ============ Sound Effect Routes ============
+
+// Search the shared sound-effects catalog (?q=whoosh&category=transitions), with preview URLs
+router.get('/sfx', async (req: Request, res: Response) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q : undefined;
+    const category = typeof req.query.category === 'string' ? req.query.category : undefined;
+
+    const sounds = await searchSoundEffects({ query, category });
+    res.json({
+      sounds: await Promise.all(sounds.map(async (sound) => ({ ...sound, url: await getSoundEffectUrl(sound) }))),
+    });
+  } catch (error) {
+    console.error('Error listing sound effects:', error);
+    res.status(500).json({ error: 'Failed to list sound effects' });
+  }
+});
+
+// ============ Version Routes ============
+
+interface VersionParams {
+  projectId: string;
+  sha: string;
+}
+
+// List version history for a project (newest first)
+router.get('/projects/:projectId/versions', async (req: Request<ProjectParams>, res: Response) => {
+  try {
+    const { projectId } = req.params;
+
+    const project = await getProjectForRole(req, res, projectId, 'viewer');
+    if (!project) return;
+
+    const versions = await listProjectVersions(projectId);
+    res.json({ versions, currentCommitSha: project.currentCommitSha });
+  } catch (error) {
+    console.error('Error listing versions:', error);
+    res.status(500).json({ error: 'Failed to list versions' });
+  }
+});
+
+// Get the diff a version introduced
+router.get('/projects/:projectId/versions/:sha/diff', async (req: Request<VersionParams>, res: Response) => {
+  try {
+    const { projectId, sha } = req.params;
+
+    const project = await getProjectForRole(req, res, projectId, 'viewer');
+    if (!project) return;
+
+    const diff = await getVersionDiff(projectId, sha);
+    if (diff === null) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+
+    res.json({ sha, diff });
+  } catch (error) {
+    console.error('Error getting version diff:', error);
+    res.status(500).json({ error: 'Failed to get version diff' });
+  }
+});
+
+// Restore a project to an earlier version (recorded as a new commit)
+router.post('/projects/:projectId/versions/:sha/restore', async (req: Request<VersionParams>, res: Response) => {
+  try {
+    const { projectId, sha } = req.params;
+
+    const project = await getProjectForRole(req, res, projectId, 'editor');
+    if (!project) return;
+
+    const newSha = await restoreProjectVersion(projectId, sha);
+    if (!newSha) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+
+    await updateProject(projectId, { currentCommitSha: newSha });
+
+    // Push the restored files into any running session so the preview updates
+    const sessions = getAllSessions().filter((session) => session.projectId === projectId);
+    await Promise.all(sessions.map((session) => reloadSessionSrc(session.id)));
+
+    res.json({ success: true, sha: newSha });
+  } catch (error) {
+    console.error('Error restoring version:', error);
+    res.status(500).json({ error: 'Failed to restore version' });
+  }
+});
+
 // ============ Render Routes ============
 
 interface RenderParams {
@@ -310,18 +934,50 @@ interface RenderIdParams {
 router.post('/projects/:projectId/render', async (req: Request<RenderParams>, res: Response) => {
   try {
     const { projectId } = req.params;
-    const { compositionId, format } = req.body;
+    const { format, captions, captionsSource, captionsOffsetSeconds } = req.body;
 
-    // Verify project exists
-    const project = await getProject(projectId);
-    if (!project) {
-      res.status(404).json({ error: 'Project not found' });
+    const project = await getProjectForRole(req, res, projectId, 'editor');
+    if (!project) return;
+
+    const compositionId = req.body.compositionId ?? getDefaultCompositionId(project);
+    if (typeof compositionId !== 'string' || !hasComposition(project, compositionId)) {
+      res.status(400).json({ error: `Unknown composition ${compositionId}` });
       return;
     }
 
-    const job = await createRenderJob({ projectId, compositionId, format });
+    if (captions !== undefined && !RENDER_CAPTIONS_MODES.includes(captions)) {
+      res.status(400).json({ error: `captions must be one of ${RENDER_CAPTIONS_MODES.join(', ')}` });
+      return;
+    }
+    if (captionsOffsetSeconds !== undefined && !Number.isFinite(captionsOffsetSeconds)) {
+      res.status(400).json({ error: 'captionsOffsetSeconds must be a number' });
+      return;
+    }
+    // Sidecar files are written by the render container, so check the caption file before starting it
+    if ((captions === 'sidecar' || captions === 'both') && !(await getProjectCaptions(projectId, captionsSource))) {
+      res.status(400).json({ error: 'Caption file not found' });
+      return;
+    }
+    const inputProps = req.body.inputProps !== undefined
+      ? parseInputProps(project, compositionId, req.body.inputProps)
+      : undefined;
+
+    const job = await createRenderJob({
+      projectId,
+      compositionId,
+      format,
+      captions,
+      captionsSource,
+      captionsOffsetSeconds,
+      videoSettings: getVideoSettings(project),
+      inputProps,
+    });
     res.status(201).json(job);
   } catch (error) {
+    if (error instanceof InvalidCaptionsError || error instanceof InvalidInputPropsError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     console.error('Error creating render job:', error);
     res.status(500).json({ error: 'Failed to create render job' });
   }
@@ -332,14 +988,10 @@ router.get('/projects/:projectId/renders', async (req: Request<RenderParams>, re
   try {
     const { projectId } = req.params;
 
-    // Verify project exists
-    const project = await getProject(projectId);
-    if (!project) {
-      res.status(404).json({ error: 'Project not found' });
-      return;
-    }
+    const project = await getProjectForRole(req, res, projectId, 'viewer');
+    if (!project) return;
 
-    const renders = getProjectRenders(projectId);
+    const renders = await getProjectRenders(projectId);
     res.json({ renders });
   } catch (error) {
     console.error('Error getting renders:', error);
@@ -351,14 +1003,9 @@ router.get('/projects/:projectId/renders', async (req: Request<RenderParams>, re
 router.get('/renders/:renderId', async (req: Request<RenderIdParams>, res: Response) => {
   try {
     const { renderId } = req.params;
-    const render = getRenderJob(renderId);
+    if (!(await checkRenderAccess(req, res, renderId, 'viewer'))) return;
 
-    if (!render) {
-      res.status(404).json({ error: 'Render not found' });
-      return;
-    }
-
-    res.json(render);
+    res.json(await getRenderJob(renderId));
   } catch (error) {
     console.error('Error getting render:', error);
     res.status(500).json({ error: 'Failed to get render' });
@@ -369,6 +1016,8 @@ router.get('/renders/:renderId', async (req: Request<RenderIdParams>, res: Respo
 router.delete('/renders/:renderId', async (req: Request<RenderIdParams>, res: Response) => {
   try {
     const { renderId } = req.params;
+    if (!(await checkRenderAccess(req, res, renderId, 'editor'))) return;
+
     const success = await cancelRenderJob(renderId);
 
     if (!success) {
@@ -387,6 +1036,8 @@ router.delete('/renders/:renderId', async (req: Request<RenderIdParams>, res: Re
 router.get('/renders/:renderId/logs', async (req: Request<RenderIdParams>, res: Response) => {
   try {
     const { renderId } = req.params;
+    if (!(await checkRenderAccess(req, res, renderId, 'viewer'))) return;
+
     const logs = await getRenderJobLogs(renderId);
 
     if (logs === null) {
@@ -401,10 +1052,130 @@ router.get('/renders/:renderId/logs', async (req: Request<RenderIdParams>, res:
   }
 });
 
-// ============ Health Check ============
+// ============ Render Batch Routes ============
 
-router.get('/health', (_req: Request, res: Response) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+interface RenderBatchParams {
+  batchId: string;
+}
+
+// Render a composition once per row of a dataset ({ rows: [...] } or { csv: '...' })
+router.post('/projects/:projectId/render-batch', async (req: Request<RenderParams>, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { format, captions } = req.body;
+
+    const project = await getProjectForRole(req, res, projectId, 'editor');
+    if (!project) return;
+
+    const compositionId = req.body.compositionId ?? getDefaultCompositionId(project);
+    if (typeof compositionId !== 'string' || !hasComposition(project, compositionId)) {
+      res.status(400).json({ error: `Unknown composition ${compositionId}` });
+      return;
+    }
+    // Sidecar captions come from one caption file, which would be the same for every row
+    if (captions !== undefined && captions !== 'burn') {
+      res.status(400).json({ error: 'Batches only support burned-in captions' });
+      return;
+    }
+
+    const rows = parseBatchDataset(project, compositionId, req.body);
+    const batch = createRenderBatch(projectId, compositionId, rows, {
+      format,
+      videoSettings: getVideoSettings(project),
+    });
+    res.status(201).json(batch);
+  } catch (error) {
+    if (error instanceof InvalidBatchDatasetError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error creating render batch:', error);
+    res.status(500).json({ error: 'Failed to create render batch' });
+  }
+});
+
+// Get all render batches for a project
+router.get('/projects/:projectId/render-batches', async (req: Request<RenderParams>, res: Response) => {
+  try {
+    const { projectId } = req.params;
+
+    const project = await getProjectForRole(req, res, projectId, 'viewer');
+    if (!project) return;
+
+    res.json({ batches: await getProjectRenderBatches(projectId) });
+  } catch (error) {
+    console.error('Error getting render batches:', error);
+    res.status(500).json({ error: 'Failed to get render batches' });
+  }
+});
+
+// Get a render batch with each row's status
+router.get('/render-batches/:batchId', async (req: Request<RenderBatchParams>, res: Response) => {
+  try {
+    const { batchId } = req.params;
+    if (!(await checkRenderBatchAccess(req, res, batchId, 'viewer'))) return;
+
+    res.json(await getRenderBatch(batchId));
+  } catch (error) {
+    console.error('Error getting render batch:', error);
+    res.status(500).json({ error: 'Failed to get render batch' });
+  }
+});
+
+// Download the batch manifest (row -> status and output URL)
+router.get('/render-batches/:batchId/manifest', async (req: Request<RenderBatchParams>, res: Response) => {
+  try {
+    const { batchId } = req.params;
+    if (!(await checkRenderBatchAccess(req, res, batchId, 'viewer'))) return;
+
+    res.setHeader('Content-Disposition', `attachment; filename="render-batch-${batchId.slice(0, 8)}.json"`);
+    res.json(getBatchManifest((await getRenderBatch(batchId))!));
+  } catch (error) {
+    console.error('Error getting render batch manifest:', error);
+    res.status(500).json({ error: 'Failed to get render batch manifest' });
+  }
+});
+
+// Render failed rows again ({ rows: [indexes] }, or every failed row)
+router.post('/render-batches/:batchId/retry', async (req: Request<RenderBatchParams>, res: Response) => {
+  try {
+    const { batchId } = req.params;
+    const rows = req.body?.rows;
+    if (rows !== undefined && (!Array.isArray(rows) || !rows.every((row) => Number.isInteger(row)))) {
+      res.status(400).json({ error: 'rows must be an array of row indexes' });
+      return;
+    }
+    if (!(await checkRenderBatchAccess(req, res, batchId, 'editor'))) return;
+
+    const retried = await retryRenderBatchRows(batchId, rows);
+    if (retried === 0) {
+      res.status(400).json({ error: 'No failed rows to retry' });
+      return;
+    }
+
+    res.json(await getRenderBatch(batchId));
+  } catch (error) {
+    console.error('Error retrying render batch:', error);
+    res.status(500).json({ error: 'Failed to retry render batch' });
+  }
+});
+
+// Cancel a render batch's remaining rows
+router.delete('/render-batches/:batchId', async (req: Request<RenderBatchParams>, res: Response) => {
+  try {
+    const { batchId } = req.params;
+    if (!(await checkRenderBatchAccess(req, res, batchId, 'editor'))) return;
+
+    if (!(await cancelRenderBatch(batchId))) {
+      res.status(404).json({ error: 'Render batch not found or already finished' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling render batch:', error);
+    res.status(500).json({ error: 'Failed to cancel render batch' });
+  }
 });
 
 // Mount router
@@ -0,0 +1,252 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { blobStore } from './blobStore.js';
+import { downloadProjectSrc } from './storage.js';
+import { listAttachmentIds, getAttachment, isAttachmentId, detectImageType, MAX_ATTACHMENT_BYTES } from './attachments.js';
+import { isAssetName } from './assets.js';
+import type { Project, ChatMessage, VideoSettings } from './types.js';
+
+// Arguments are passed without a shell, so paths never need quoting
+const execFileAsync = promisify(execFile);
+
+// Portable project archive (.tar.gz) for moving projects between environments
+// Layout:
+//   manifest.json            format marker + project metadata
+//   messages.json            chat history in getMessages order
+//   renders/{id}.meta.json   render metadata written by the render container
+//   attachments/{id}         images attached to chat messages
+//   assets/{name}            uploaded media from the asset library
+//   src/                     the Remotion app source
+export const ARCHIVE_FORMAT = 'storydream-project';
+export const ARCHIVE_VERSION = 1;
+
+export interface ProjectArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: {
+    id: string;
+    name: string;
+    description?: string;
+    currentCommitSha: string;
+    forkedFrom?: string;
+    videoSettings?: VideoSettings;
+    createdAt: string;
+    updatedAt: string;
+  };
+}
+
+// Chat message as stored in an archive (dates as ISO strings)
+export type ArchivedChatMessage = Omit<ChatMessage, 'projectId' | 'createdAt'> & {
+  createdAt: string;
+};
+
+export interface ExtractedProjectArchive {
+  manifest: ProjectArchiveManifest;
+  messages: ArchivedChatMessage[];
+  // Render metadata files keyed by file name ({renderId}.meta.json)
+  renderMetadata: Map<string, Buffer>;
+  // Chat image attachments keyed by attachment ID
+  attachments: Map<string, Buffer>;
+  // Asset library files keyed by asset name
+  assets: Map<string, Buffer>;
+  srcDir: string;
+  cleanup: () => Promise<void>;
+}
+
+// Thrown for archives that are malformed or not StoryDream project archives
+export class InvalidArchiveError extends Error {
+  name = 'InvalidArchiveError';
+}
+
+/**
+ * Build a .tar.gz archive of a project's src/, metadata, chat history and render metadata
+ */
+export async function createProjectArchive(
+  project: Project,
+  messages: ChatMessage[]
+): Promise<Buffer> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storydream-export-'));
+  const contentDir = path.join(tempDir, 'project');
+  const archivePath = path.join(tempDir, 'project.tar.gz');
+
+  try {
+    await fs.mkdir(path.join(contentDir, 'src'), { recursive: true });
+    await downloadProjectSrc(project.id, path.join(contentDir, 'src'));
+
+    const manifest: ProjectArchiveManifest = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      project: {
+        id: project.id,
+        name: project.name,
+        description: project.description,
+        currentCommitSha: project.currentCommitSha,
+        forkedFrom: project.forkedFrom,
+        videoSettings: project.videoSettings,
+        createdAt: project.createdAt.toISOString(),
+        updatedAt: project.updatedAt.toISOString(),
+      },
+    };
+    await fs.writeFile(path.join(contentDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+    const archivedMessages: ArchivedChatMessage[] = messages.map(({ projectId: _projectId, ...message }) => ({
+      ...message,
+      createdAt: message.createdAt.toISOString(),
+    }));
+    await fs.writeFile(path.join(contentDir, 'messages.json'), JSON.stringify(archivedMessages, null, 2));
+
+    const rendersPrefix = `repos/${project.id}/renders/`;
+    const metadataPaths = (await blobStore.list(rendersPrefix)).filter((blobPath) => blobPath.endsWith('.meta.json'));
+    await fs.mkdir(path.join(contentDir, 'renders'), { recursive: true });
+    for (const blobPath of metadataPaths) {
+      const content = await blobStore.get(blobPath);
+      if (content) {
+        await fs.writeFile(path.join(contentDir, 'renders', path.posix.basename(blobPath)), content);
+      }
+    }
+
+    const attachmentIds = await listAttachmentIds(project.id);
+    await fs.mkdir(path.join(contentDir, 'attachments'), { recursive: true });
+    for (const attachmentId of attachmentIds) {
+      const attachment = await getAttachment(project.id, attachmentId);
+      if (attachment) {
+        await fs.writeFile(path.join(contentDir, 'attachments', attachmentId), attachment.data);
+      }
+    }
+
+    const assetsPrefix = `repos/${project.id}/assets/`;
+    const assetPaths = await blobStore.list(assetsPrefix);
+    await fs.mkdir(path.join(contentDir, 'assets'), { recursive: true });
+    for (const blobPath of assetPaths) {
+      const content = await blobStore.get(blobPath);
+      if (content) {
+        await fs.writeFile(path.join(contentDir, 'assets', path.posix.basename(blobPath)), content);
+      }
+    }
+
+    await execFileAsync('tar', ['-czf', archivePath, '-C', contentDir, '.']);
+    const archive = await fs.readFile(archivePath);
+
+    console.log(`Exported project ${project.id} (${messages.length} messages, ${metadataPaths.length} renders, ${attachmentIds.length} attachments, ${assetPaths.length} assets, ${archive.length} bytes)`);
+    return archive;
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Unpack and validate a project archive into a temp directory
+ * Callers must call cleanup() once they're done with srcDir
+ */
+export async function extractProjectArchive(archive: Buffer): Promise<ExtractedProjectArchive> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storydream-import-'));
+  const contentDir = path.join(tempDir, 'project');
+  const archivePath = path.join(tempDir, 'project.tar.gz');
+  const cleanup = () => fs.rm(tempDir, { recursive: true, force: true });
+
+  try {
+    await fs.writeFile(archivePath, archive);
+    await fs.mkdir(contentDir);
+
+    // Refuse entries that would land outside the extraction directory
+    const { stdout: listing } = await execFileAsync('tar', ['-tzf', archivePath], {
+      maxBuffer: 20 * 1024 * 1024,
+    }).catch(() => {
+      throw new InvalidArchiveError('Archive is not a valid .tar.gz file');
+    });
+    for (const entry of listing.split('\n').filter(Boolean)) {
+      const resolved = path.resolve(contentDir, entry);
+      if (path.isAbsolute(entry) || (resolved !== contentDir && !resolved.startsWith(contentDir + path.sep))) {
+        throw new InvalidArchiveError(`Archive entry escapes the project directory: ${entry}`);
+      }
+    }
+
+    await execFileAsync('tar', ['-xzf', archivePath, '-C', contentDir, '--no-same-owner', '--no-same-permissions']);
+
+    // Symlinks and other special files could point at files outside the archive
+    await assertRegularFiles(contentDir);
+
+    const manifest = await readArchiveJson<ProjectArchiveManifest>(contentDir, 'manifest.json');
+    if (manifest.format !== ARCHIVE_FORMAT) {
+      throw new InvalidArchiveError('Not a StoryDream project archive');
+    }
+    if (manifest.version > ARCHIVE_VERSION) {
+      throw new InvalidArchiveError(`Unsupported archive version ${manifest.version}`);
+    }
+    if (!manifest.project?.name) {
+      throw new InvalidArchiveError('Archive manifest is missing the project name');
+    }
+
+    const messages = await readArchiveJson<ArchivedChatMessage[]>(contentDir, 'messages.json');
+    if (!Array.isArray(messages)) {
+      throw new InvalidArchiveError('messages.json must be an array');
+    }
+
+    const srcDir = path.join(contentDir, 'src');
+    const srcStats = await fs.stat(srcDir).catch(() => null);
+    if (!srcStats?.isDirectory()) {
+      throw new InvalidArchiveError('Archive has no src/ directory');
+    }
+
+    const renderMetadata = new Map<string, Buffer>();
+    const renderFiles = await fs.readdir(path.join(contentDir, 'renders')).catch(() => [] as string[]);
+    for (const fileName of renderFiles.filter((name) => name.endsWith('.meta.json'))) {
+      renderMetadata.set(fileName, await fs.readFile(path.join(contentDir, 'renders', fileName)));
+    }
+
+    const attachments = new Map<string, Buffer>();
+    const attachmentFiles = await fs.readdir(path.join(contentDir, 'attachments')).catch(() => [] as string[]);
+    for (const fileName of attachmentFiles) {
+      const data = await fs.readFile(path.join(contentDir, 'attachments', fileName));
+      if (!isAttachmentId(fileName) || data.length > MAX_ATTACHMENT_BYTES || !detectImageType(data)) {
+        throw new InvalidArchiveError(`Archive attachment ${fileName} is not a supported image`);
+      }
+      attachments.set(fileName, data);
+    }
+
+    const assets = new Map<string, Buffer>();
+    const assetFiles = await fs.readdir(path.join(contentDir, 'assets')).catch(() => [] as string[]);
+    for (const fileName of assetFiles) {
+      if (!isAssetName(fileName)) {
+        throw new InvalidArchiveError(`Archive asset ${fileName} is not a supported asset file`);
+      }
+      assets.set(fileName, await fs.readFile(path.join(contentDir, 'assets', fileName)));
+    }
+
+    return { manifest, messages, renderMetadata, attachments, assets, srcDir, cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+async function assertRegularFiles(dir: string): Promise<void> {
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await assertRegularFiles(fullPath);
+    } else if (!entry.isFile()) {
+      throw new InvalidArchiveError(`Archive contains an unsupported entry: ${entry.name}`);
+    }
+  }
+}
+
+async function readArchiveJson<T>(contentDir: string, fileName: string): Promise<T> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(contentDir, fileName), 'utf-8');
+  } catch {
+    throw new InvalidArchiveError(`Archive is missing ${fileName}`);
+  }
+
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    throw new InvalidArchiveError(`Archive ${fileName} is not valid JSON`);
+  }
+}
@@ -0,0 +1,188 @@
+import * as path from 'path';
+import { blobStore } from './blobStore.js';
+import type { AssetKind, ProjectAsset } from './types.js';
+
+// Media uploaded for a project's videos, stored at repos/{projectId}/assets/{name}
+// Sessions mirror them into remotion-app/public/assets/, so compositions load them with staticFile('assets/{name}')
+
+export const MAX_ASSET_BYTES = 200 * 1024 * 1024;
+export const MAX_ASSETS_PER_UPLOAD = 20;
+
+// Supported file types, by lowercase extension
+const ASSET_TYPES: Record<string, { kind: AssetKind; contentType: string }> = {
+  '.png': { kind: 'image', contentType: 'image/png' },
+  '.jpg': { kind: 'image', contentType: 'image/jpeg' },
+  '.jpeg': { kind: 'image', contentType: 'image/jpeg' },
+  '.gif': { kind: 'image', contentType: 'image/gif' },
+  '.webp': { kind: 'image', contentType: 'image/webp' },
+  '.mp4': { kind: 'video', contentType: 'video/mp4' },
+  '.webm': { kind: 'video', contentType: 'video/webm' },
+  '.mov': { kind: 'video', contentType: 'video/quicktime' },
+  '.mp3': { kind: 'audio', contentType: 'audio/mpeg' },
+  '.wav': { kind: 'audio', contentType: 'audio/wav' },
+  '.ogg': { kind: 'audio', contentType: 'audio/ogg' },
+  '.m4a': { kind: 'audio', contentType: 'audio/mp4' },
+  '.aac': { kind: 'audio', contentType: 'audio/aac' },
+  '.ttf': { kind: 'font', contentType: 'font/ttf' },
+  '.otf': { kind: 'font', contentType: 'font/otf' },
+  '.woff': { kind: 'font', contentType: 'font/woff' },
+  '.woff2': { kind: 'font', contentType: 'font/woff2' },
+  '.json': { kind: 'data', contentType: 'application/json' },
+};
+
+// Event listeners for pushing asset changes into running sessions
+export interface AssetChange {
+  projectId: string;
+  name: string;
+  change: 'uploaded' | 'deleted';
+  agentNote?: string;  // Replaces the default note telling the agent about the change
+}
+type AssetChangeListener = (event: AssetChange) => void;
+const changeListeners: AssetChangeListener[] = [];
+
+export function addAssetChangeListener(listener: AssetChangeListener): void {
+  changeListeners.push(listener);
+}
+
+function emitAssetChange(event: AssetChange): void {
+  changeListeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error in asset change listener:', error);
+    }
+  });
+}
+
+// Thrown for uploads with unsupported file types or unusable names
+export class InvalidAssetError extends Error {
+  name = 'InvalidAssetError';
+}
+
+/**
+ * Turn an uploaded file name into a safe asset name (no directories, spaces or special characters)
+ * Throws InvalidAssetError for unsupported file types
+ */
+export function toAssetName(fileName: string): string {
+  const extension = path.extname(fileName).toLowerCase();
+  if (!ASSET_TYPES[extension]) {
+    throw new InvalidAssetError(
+      `${fileName}: unsupported file type (supported: ${Object.keys(ASSET_TYPES).join(', ')})`
+    );
+  }
+
+  const base = path
+    .basename(fileName, path.extname(fileName))
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/^[-.]+|-+$/g, '');
+  return `${base || 'asset'}${extension}`;
+}
+
+/**
+ * List a project's assets, with short-lived URLs for previews
+ */
+export async function listProjectAssets(projectId: string): Promise<ProjectAsset[]> {
+  const prefix = `${assetsDir(projectId)}/`;
+  const names = (await blobStore.list(prefix))
+    .map((blobPath) => blobPath.slice(prefix.length))
+    .filter((name) => name && !name.includes('/') && getAssetType(name));
+
+  return Promise.all(
+    names.sort().map(async (name) => toProjectAsset(name, await blobStore.getSignedUrl(`${prefix}${name}`)))
+  );
+}
+
+/**
+ * Store an uploaded file as a project asset, replacing any asset with the same name
+ */
+export async function saveProjectAsset(projectId: string, fileName: string, localPath: string): Promise<ProjectAsset> {
+  const name = toAssetName(fileName);
+  const blobPath = `${assetsDir(projectId)}/${name}`;
+
+  await blobStore.uploadFile(localPath, blobPath, getAssetType(name)!.contentType);
+  console.log(`Saved asset ${name} for project ${projectId}`);
+
+  emitAssetChange({ projectId, name, change: 'uploaded' });
+  return toProjectAsset(name, await blobStore.getSignedUrl(blobPath));
+}
+
+/**
+ * Store generated content (e.g. a voiceover) as a project asset, replacing any asset with the same name
+ */
+export async function saveGeneratedAsset(
+  projectId: string,
+  fileName: string,
+  data: Buffer,
+  agentNote?: string
+): Promise<ProjectAsset> {
+  const name = toAssetName(fileName);
+  const blobPath = `${assetsDir(projectId)}/${name}`;
+
+  await blobStore.put(blobPath, data, getAssetType(name)!.contentType);
+  console.log(`Saved generated asset ${name} for project ${projectId}`);
+
+  emitAssetChange({ projectId, name, change: 'uploaded', agentNote });
+  return toProjectAsset(name, await blobStore.getSignedUrl(blobPath));
+}
+
+/**
+ * Store an asset under an already-checked name without notifying sessions (e.g. when importing an archive)
+ */
+export async function putProjectAsset(projectId: string, name: string, data: Buffer): Promise<ProjectAsset> {
+  const blobPath = `${assetsDir(projectId)}/${name}`;
+  await blobStore.put(blobPath, data, getAssetType(name)!.contentType);
+  return toProjectAsset(name, await blobStore.getSignedUrl(blobPath));
+}
+
+/**
+ * Read a project asset's contents, or null if it doesn't exist
+ */
+export async function readProjectAsset(projectId: string, name: string): Promise<Buffer | null> {
+  if (!isAssetName(name)) {
+    return null;
+  }
+  return blobStore.get(`${assetsDir(projectId)}/${name}`);
+}
+
+/**
+ * Delete a project asset
+ * Returns false if the asset doesn't exist
+ */
+export async function deleteProjectAsset(projectId: string, name: string): Promise<boolean> {
+  const blobPath = `${assetsDir(projectId)}/${name}`;
+  if (!isAssetName(name) || !(await blobStore.exists(blobPath))) {
+    return false;
+  }
+
+  await blobStore.delete(blobPath);
+  console.log(`Deleted asset ${name} for project ${projectId}`);
+
+  emitAssetChange({ projectId, name, change: 'deleted' });
+  return true;
+}
+
+/**
+ * Whether a name is a supported asset file name, as produced by toAssetName
+ */
+export function isAssetName(name: string): boolean {
+  return Boolean(getAssetType(name)) && toAssetName(name) === name;
+}
+
+function toProjectAsset(name: string, url: string): ProjectAsset {
+  const type = getAssetType(name)!;
+  return {
+    name,
+    kind: type.kind,
+    contentType: type.contentType,
+    staticPath: `assets/${name}`,
+    url,
+  };
+}
+
+function getAssetType(name: string): { kind: AssetKind; contentType: string } | undefined {
+  return ASSET_TYPES[path.extname(name).toLowerCase()];
+}
+
+function assetsDir(projectId: string): string {
+  return `repos/${projectId}/assets`;
+}
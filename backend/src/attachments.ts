@@ -0,0 +1,122 @@
+import { v4 as uuidv4 } from 'uuid';
+import { blobStore } from './blobStore.js';
+import type { ImageAttachment, StoredAttachment } from './types.js';
+
+// Chat image attachments, stored at repos/{projectId}/attachments/{attachmentId}
+// Stored messages reference them by ID; GET /api/projects/:projectId/attachments/:attachmentId serves them
+
+// Claude accepts images up to 5 MB each
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Media types Claude accepts, with the leading bytes of each format
+const IMAGE_SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+  'image/jpeg': (data) => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  'image/png': (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/gif': (data) => data.subarray(0, 4).toString('latin1') === 'GIF8',
+  'image/webp': (data) => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP',
+};
+
+const ATTACHMENT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Thrown for attachments that break the size, count or type limits
+export class InvalidAttachmentError extends Error {
+  name = 'InvalidAttachmentError';
+}
+
+/**
+ * Check a message's attachments against the limits
+ * Throws InvalidAttachmentError if any attachment is too large or isn't a supported image
+ */
+export function validateAttachments(attachments: ImageAttachment[]): void {
+  if (attachments.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    throw new InvalidAttachmentError(`At most ${MAX_ATTACHMENTS_PER_MESSAGE} images can be attached to a message`);
+  }
+
+  for (const attachment of attachments) {
+    const label = attachment.name || 'Attachment';
+    const matchesType = IMAGE_SIGNATURES[attachment.mediaType];
+    if (!matchesType) {
+      throw new InvalidAttachmentError(`${label}: ${attachment.mediaType} is not supported (use JPEG, PNG, GIF or WebP)`);
+    }
+
+    const data = Buffer.from(attachment.data, 'base64');
+    if (data.length > MAX_ATTACHMENT_BYTES) {
+      throw new InvalidAttachmentError(`${label} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+    }
+    if (!matchesType(data)) {
+      throw new InvalidAttachmentError(`${label} is not a valid ${attachment.mediaType} image`);
+    }
+  }
+}
+
+/**
+ * Upload a message's attachments to the project's storage
+ * Returns the references to store on the message in place of the image data
+ */
+export async function saveAttachments(projectId: string, attachments: ImageAttachment[]): Promise<StoredAttachment[]> {
+  return Promise.all(
+    attachments.map(async (attachment) => {
+      const id = uuidv4();
+      const data = Buffer.from(attachment.data, 'base64');
+      await blobStore.put(attachmentPath(projectId, id), data, attachment.mediaType);
+      return {
+        type: 'image' as const,
+        id,
+        mediaType: attachment.mediaType,
+        name: attachment.name,
+        size: data.length,
+      };
+    })
+  );
+}
+
+/**
+ * Read an attachment, or null if it doesn't exist
+ * The media type comes from the image data, which was checked on upload
+ */
+export async function getAttachment(
+  projectId: string,
+  attachmentId: string
+): Promise<{ data: Buffer; mediaType: string } | null> {
+  if (!isAttachmentId(attachmentId)) {
+    return null;
+  }
+
+  const data = await blobStore.get(attachmentPath(projectId, attachmentId));
+  if (!data) {
+    return null;
+  }
+  return { data, mediaType: detectImageType(data) || 'application/octet-stream' };
+}
+
+/**
+ * Store an attachment under a known ID (used when importing an archive)
+ * Callers check the data with detectImageType first
+ */
+export async function putAttachment(projectId: string, attachmentId: string, data: Buffer): Promise<void> {
+  await blobStore.put(attachmentPath(projectId, attachmentId), data, detectImageType(data));
+}
+
+/**
+ * List the IDs of a project's stored attachments
+ */
+export async function listAttachmentIds(projectId: string): Promise<string[]> {
+  const prefix = attachmentPath(projectId, '');
+  return (await blobStore.list(prefix)).map((blobPath) => blobPath.slice(prefix.length)).filter(isAttachmentId);
+}
+
+export function isAttachmentId(value: string): boolean {
+  return ATTACHMENT_ID_PATTERN.test(value);
+}
+
+/**
+ * Media type of a supported image, from its leading bytes
+ */
+export function detectImageType(data: Buffer): string | undefined {
+  return Object.keys(IMAGE_SIGNATURES).find((type) => IMAGE_SIGNATURES[type](data));
+}
+
+function attachmentPath(projectId: string, attachmentId: string): string {
+  return `repos/${projectId}/attachments/${attachmentId}`;
+}
@@ -0,0 +1,85 @@
+import type { IncomingMessage } from 'http';
+import type { Request, Response, NextFunction } from 'express';
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+  name?: string;
+}
+
+export interface AuthProvider {
+  /** Resolve a bearer token (null if none was sent) to a user, or null if it isn't valid */
+  authenticate(token: string | null): Promise<AuthUser | null>;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+// ============ Driver selection ============
+
+// 'jwt' (default) verifies bearer tokens against AUTH_JWKS_URL or AUTH_JWT_SECRET
+// 'dev' trusts the bearer token as the user ID, for local development only, so it must be chosen explicitly
+export const AUTH_DRIVER = process.env.AUTH_DRIVER || 'jwt';
+
+if (AUTH_DRIVER === 'dev' && process.env.RUNNING_IN_KUBERNETES === 'true') {
+  throw new Error('AUTH_DRIVER=dev is not allowed when RUNNING_IN_KUBERNETES=true - use AUTH_DRIVER=jwt');
+}
+
+async function loadAuthProvider(driver: string): Promise<AuthProvider> {
+  switch (driver) {
+    case 'jwt':
+      return import('./jwtAuth.js');
+    case 'dev':
+      return import('./devAuth.js');
+    default:
+      throw new Error(`Unknown AUTH_DRIVER "${driver}" (expected "jwt" or "dev")`);
+  }
+}
+
+const authProvider = await loadAuthProvider(AUTH_DRIVER);
+console.log(`Using ${AUTH_DRIVER} authentication`);
+if (AUTH_DRIVER === 'dev') {
+  console.warn('AUTH_DRIVER=dev accepts any bearer token - do not use it in production');
+}
+
+// ============ Token extraction ============
+
+function getBearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Authenticate a WebSocket upgrade request
+ * Browsers can't set headers on WebSocket connections, so the token may also come from ?token=
+ */
+export async function authenticateUpgrade(req: IncomingMessage): Promise<AuthUser | null> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const token = getBearerToken(req.headers.authorization) || url.searchParams.get('token');
+  return authProvider.authenticate(token);
+}
+
+// ============ Express middleware ============
+
+/**
+ * Reject requests without a valid bearer token and set req.user
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const user = await authProvider.authenticate(getBearerToken(req.headers.authorization));
+    if (!user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error('Authentication failed:', error);
+    res.status(401).json({ error: 'Authentication required' });
+  }
+}
@@ -0,0 +1,38 @@
+// Object storage abstraction shared by project repos, templates and render bookkeeping
+// Blob paths are bucket-relative and use forward slashes, e.g. repos/{projectId}/src/App.tsx
+
+export interface BlobStore {
+  /** List blob paths starting with prefix */
+  list(prefix: string): Promise<string[]>;
+  /** Read a blob, or null if it does not exist */
+  get(blobPath: string): Promise<Buffer | null>;
+  put(blobPath: string, data: Buffer | string, contentType?: string): Promise<void>;
+  /** Delete a blob (no-op if it does not exist) */
+  delete(blobPath: string): Promise<void>;
+  exists(blobPath: string): Promise<boolean>;
+  /** Copy a blob within the store, overwriting the destination */
+  copy(sourcePath: string, destinationPath: string): Promise<void>;
+  /** Time-limited URL that lets a browser download the blob without credentials */
+  getSignedUrl(blobPath: string, expiresInMs?: number): Promise<string>;
+  uploadFile(localPath: string, blobPath: string, contentType?: string): Promise<void>;
+  downloadFile(blobPath: string, localPath: string): Promise<void>;
+  /** Human-readable location for logs, e.g. gs://bucket/path */
+  toUri(blobPath: string): string;
+}
+
+// 'gcs' (default) uses the Cloud Storage bucket, 'local' stores blobs in a directory
+export const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'gcs';
+
+async function loadBlobStore(driver: string): Promise<BlobStore> {
+  switch (driver) {
+    case 'gcs':
+      return import('./gcsBlobStore.js');
+    case 'local':
+      return import('./localBlobStore.js');
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "gcs" or "local")`);
+  }
+}
+
+export const blobStore = await loadBlobStore(STORAGE_DRIVER);
+console.log(`Using ${STORAGE_DRIVER} blob storage`);
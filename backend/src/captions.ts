@@ -0,0 +1,139 @@
+import { readProjectAsset } from './assets.js';
+import type { CaptionCue, WordTiming } from './types.js';
+
+// Captions are JSON assets with { captions: [{ text, startSeconds, endSeconds, words? }] }
+// Voiceovers write their cues into their timings file, and users can upload an edited copy.
+// The template's Captions component draws the same cues, so exports match what's burned in.
+
+export const DEFAULT_CAPTIONS_SOURCE = 'captions.json';
+
+const MAX_CUE_CHARS = 42;
+const MAX_CUE_SECONDS = 5;
+const MAX_WORD_GAP_SECONDS = 0.75;
+
+// Thrown for caption files that don't contain usable cues
+export class InvalidCaptionsError extends Error {
+  name = 'InvalidCaptionsError';
+}
+
+/**
+ * Group word timings into subtitle cues
+ * Cues break after sentences, at pauses and before they get too long to read
+ */
+export function groupCaptions(words: WordTiming[]): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  let current: WordTiming[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({
+      text: current.map((w) => w.word).join(' '),
+      startSeconds: current[0].startSeconds,
+      endSeconds: current[current.length - 1].endSeconds,
+      words: current,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    if (previous) {
+      const text = current.map((w) => w.word).join(' ');
+      if (
+        /[.!?]["')\]]*$/.test(previous.word) ||
+        word.startSeconds - previous.endSeconds > MAX_WORD_GAP_SECONDS ||
+        text.length + 1 + word.word.length > MAX_CUE_CHARS ||
+        word.endSeconds - current[0].startSeconds > MAX_CUE_SECONDS ||
+        (/[,;:]$/.test(previous.word) && text.length >= MAX_CUE_CHARS / 2)
+      ) {
+        flush();
+      }
+    }
+    current.push(word);
+  }
+  flush();
+
+  return cues;
+}
+
+/**
+ * Load the cues from a project's caption file (a voiceover's timings or an uploaded caption JSON)
+ * Returns null if the asset doesn't exist, and throws InvalidCaptionsError if it has no usable cues
+ */
+export async function getProjectCaptions(projectId: string, source = DEFAULT_CAPTIONS_SOURCE): Promise<CaptionCue[] | null> {
+  if (!source.endsWith('.json')) {
+    throw new InvalidCaptionsError(`${source} is not a caption file (expected a .json asset)`);
+  }
+
+  const content = await readProjectAsset(projectId, source);
+  if (!content) {
+    return null;
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(content.toString());
+  } catch {
+    throw new InvalidCaptionsError(`${source} is not valid JSON`);
+  }
+
+  const cues = data?.captions;
+  if (!Array.isArray(cues) || !cues.every(isCaptionCue)) {
+    throw new InvalidCaptionsError(
+      `${source} must contain { captions: [{ text, startSeconds, endSeconds }] } with start times before end times`
+    );
+  }
+
+  return cues;
+}
+
+/**
+ * Format cues as a SubRip (.srt) file, shifted by offsetSeconds (where the captions start in the video)
+ */
+export function toSrt(cues: CaptionCue[], offsetSeconds = 0): string {
+  return shiftCues(cues, offsetSeconds)
+    .map((cue, index) =>
+      `${index + 1}\n${formatTimestamp(cue.startSeconds, ',')} --> ${formatTimestamp(cue.endSeconds, ',')}\n${cue.text}\n`
+    )
+    .join('\n');
+}
+
+/**
+ * Format cues as a WebVTT (.vtt) file, shifted by offsetSeconds
+ */
+export function toVtt(cues: CaptionCue[], offsetSeconds = 0): string {
+  const body = shiftCues(cues, offsetSeconds)
+    .map((cue) => `${formatTimestamp(cue.startSeconds, '.')} --> ${formatTimestamp(cue.endSeconds, '.')}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+function isCaptionCue(cue: any): cue is CaptionCue {
+  return (
+    typeof cue?.text === 'string' &&
+    Number.isFinite(cue.startSeconds) &&
+    Number.isFinite(cue.endSeconds) &&
+    cue.startSeconds < cue.endSeconds
+  );
+}
+
+// Drop cues that would end before the video starts; blank lines would end a cue early in both formats
+function shiftCues(cues: CaptionCue[], offsetSeconds: number): CaptionCue[] {
+  return cues
+    .map((cue) => ({
+      text: cue.text.replace(/\n\s*\n/g, '\n').trim(),
+      startSeconds: Math.max(0, cue.startSeconds + offsetSeconds),
+      endSeconds: cue.endSeconds + offsetSeconds,
+    }))
+    .filter((cue) => cue.text && cue.endSeconds > 0);
+}
+
+// HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for WebVTT
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
@@ -0,0 +1,141 @@
+import { updateProject } from './projects.js';
+import type { CompositionInfo, Project, PropFieldType, PropsSchema } from './types.js';
+
+// The preview app discovers the <Composition>s in a project's Root.tsx when it loads, and the
+// frontend reports them here, so renders can offer and check composition IDs without a session
+
+const MAX_COMPOSITIONS = 50;
+const MAX_DEFAULT_PROPS_BYTES = 50 * 1024;
+const MAX_PROPS_SCHEMA_FIELDS = 50;
+const PROP_FIELD_TYPES: PropFieldType[] = ['text', 'color', 'number', 'image'];
+
+// Matches the IDs Remotion accepts for compositions
+const COMPOSITION_ID_PATTERN = /^[a-zA-Z0-9\u4E00-\u9FFF-]{1,100}$/;
+
+// Thrown for composition lists that don't describe valid compositions
+export class InvalidCompositionsError extends Error {
+  name = 'InvalidCompositionsError';
+}
+
+/**
+ * Check a reported composition list and keep only the known fields
+ */
+export function parseCompositions(input: unknown): CompositionInfo[] {
+  if (!Array.isArray(input) || input.length > MAX_COMPOSITIONS) {
+    throw new InvalidCompositionsError(`compositions must be an array of at most ${MAX_COMPOSITIONS} compositions`);
+  }
+
+  return input.map((item: any) => {
+    if (typeof item?.id !== 'string' || !COMPOSITION_ID_PATTERN.test(item.id)) {
+      throw new InvalidCompositionsError('Each composition needs an id of letters, numbers and dashes');
+    }
+    for (const field of ['width', 'height', 'durationInFrames'] as const) {
+      if (!Number.isInteger(item[field]) || item[field] <= 0) {
+        throw new InvalidCompositionsError(`${item.id}: ${field} must be a positive integer`);
+      }
+    }
+    if (!Number.isFinite(item.fps) || item.fps <= 0) {
+      throw new InvalidCompositionsError(`${item.id}: fps must be a positive number`);
+    }
+
+    const defaultProps = item.defaultProps ?? {};
+    if (typeof defaultProps !== 'object' || Array.isArray(defaultProps)) {
+      throw new InvalidCompositionsError(`${item.id}: defaultProps must be an object`);
+    }
+    if (JSON.stringify(defaultProps).length > MAX_DEFAULT_PROPS_BYTES) {
+      throw new InvalidCompositionsError(`${item.id}: defaultProps must be smaller than ${MAX_DEFAULT_PROPS_BYTES / 1024} KB`);
+    }
+
+    return {
+      id: item.id,
+      width: item.width,
+      height: item.height,
+      fps: item.fps,
+      durationInFrames: item.durationInFrames,
+      defaultProps,
+      ...(item.propsSchema !== undefined && { propsSchema: parsePropsSchema(item.id, item.propsSchema) }),
+    };
+  });
+}
+
+function parsePropsSchema(compositionId: string, input: unknown): PropsSchema {
+  if (!input || typeof input !== 'object' || Array.isArray(input) || Object.keys(input).length > MAX_PROPS_SCHEMA_FIELDS) {
+    throw new InvalidCompositionsError(`${compositionId}: propsSchema must be an object of at most ${MAX_PROPS_SCHEMA_FIELDS} fields`);
+  }
+
+  const schema: PropsSchema = {};
+  for (const [name, field] of Object.entries(input as Record<string, any>)) {
+    if (!PROP_FIELD_TYPES.includes(field?.type)) {
+      throw new InvalidCompositionsError(`${compositionId}: ${name} must have a type of ${PROP_FIELD_TYPES.join(', ')}`);
+    }
+    schema[name] = {
+      type: field.type,
+      ...(typeof field.label === 'string' && { label: field.label.slice(0, 100) }),
+      ...(field.type === 'text' && field.multiline === true && { multiline: true }),
+      ...(field.type === 'number' && Number.isFinite(field.min) && { min: field.min }),
+      ...(field.type === 'number' && Number.isFinite(field.max) && { max: field.max }),
+      ...(field.type === 'number' && Number.isFinite(field.step) && { step: field.step }),
+    };
+  }
+  return schema;
+}
+
+// Thrown for render inputProps that don't fit the composition
+export class InvalidInputPropsError extends Error {
+  name = 'InvalidInputPropsError';
+}
+
+// inputProps travel to the render job as an env var
+const MAX_INPUT_PROPS_BYTES = 32 * 1024;
+
+/**
+ * Check the props a render passes to a composition, against its propsSchema when it has one
+ * Props the schema doesn't list are passed through, as Remotion merges them over defaultProps
+ */
+export function parseInputProps(project: Project, compositionId: string, input: unknown): Record<string, unknown> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new InvalidInputPropsError('inputProps must be an object');
+  }
+  if (JSON.stringify(input).length > MAX_INPUT_PROPS_BYTES) {
+    throw new InvalidInputPropsError(`inputProps must be smaller than ${MAX_INPUT_PROPS_BYTES / 1024} KB`);
+  }
+
+  const schema = project.compositions?.find((c) => c.id === compositionId)?.propsSchema ?? {};
+  for (const [name, value] of Object.entries(input as Record<string, unknown>)) {
+    const field = schema[name];
+    if (!field) continue;
+    const valid = field.type === 'number' ? Number.isFinite(value) : typeof value === 'string';
+    if (!valid) {
+      throw new InvalidInputPropsError(`${name} must be a ${field.type === 'number' ? 'number' : 'string'}`);
+    }
+  }
+  return input as Record<string, unknown>;
+}
+
+/**
+ * Store the compositions the preview found, skipping the write when nothing changed
+ * Returns whether the project was updated
+ */
+export async function setProjectCompositions(project: Project, compositions: CompositionInfo[]): Promise<boolean> {
+  if (JSON.stringify(project.compositions ?? null) === JSON.stringify(compositions)) {
+    return false;
+  }
+
+  await updateProject(project.id, { compositions });
+  console.log(`Project ${project.id} has compositions: ${compositions.map((c) => c.id).join(', ') || 'none'}`);
+  return true;
+}
+
+/**
+ * The composition to render when none is given: the first one reported, or the template's MyVideo
+ */
+export function getDefaultCompositionId(project: Project): string {
+  return project.compositions?.[0]?.id ?? 'MyVideo';
+}
+
+/**
+ * Whether a project could render the composition (always true before the preview has reported any)
+ */
+export function hasComposition(project: Project, compositionId: string): boolean {
+  return !project.compositions || project.compositions.some((c) => c.id === compositionId);
+}
@@ -2,8 +2,10 @@ import Docker from 'dockerode';
 import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { downloadProjectSrc, uploadProjectSrc, downloadSessionData, uploadSessionData } from './storage.js';
+import { downloadProjectSrc, uploadProjectSrc, mirrorProjectSrcTo, mirrorProjectAssetsTo, downloadSessionData, uploadSessionData } from './storage.js';
 import { updateProject, getProject } from './projects.js';
+import { getVideoSettings } from './videoSettings.js';
+import type { VideoSettings } from './types.js';
 
 const docker = new Docker();
 
@@ -27,6 +29,8 @@ interface Session {
   agentPort: number;
   localSrcPath: string | null; // Path to local copy of src/ for syncing
   localSessionPath: string | null; // Path to local copy of .claude/ for session persistence
+  localAssetsPath: string | null; // Path to local copy of the project's assets, mounted at public/assets/
+  localConfigPath: string | null; // Path to the Remotion app's config/ (video settings)
   agentSessionId: string | null; // Claude Agent SDK session ID for resumption
   createdAt: Date;
 }
@@ -48,6 +52,8 @@ export async function createSession(projectId?: string): Promise<Session> {
   let hostSrcPath: string | null = null;
   let localSessionPath: string | null = null;
   let hostSessionPath: string | null = null;
+  let localAssetsPath: string | null = null;
+  let localConfigPath: string | null = null;
   let agentSessionId: string | null = null;
   const binds: string[] = [];
 
@@ -89,6 +95,20 @@ export async function createSession(projectId?: string): Promise<Session> {
 
       // Mount .claude/ into the container's home directory
       binds.push(`${hostSessionPath}:/home/node/.claude:rw`);
+
+      // Uploaded assets go in public/assets/ so compositions can use staticFile('assets/...')
+      const assetsDirName = `assets-${projectId.substring(0, 8)}-${sessionId.substring(0, 8)}`;
+      localAssetsPath = path.join(PROJECT_DATA_DIR, assetsDirName);
+      await fs.mkdir(localAssetsPath, { recursive: true });
+      await mirrorProjectAssetsTo(projectId, localAssetsPath);
+      binds.push(`${path.join(HOST_PROJECT_DATA_DIR, assetsDirName)}:/app/remotion-app/public/assets:rw`);
+
+      // The project's video settings go in config/, where Root.tsx reads them
+      const configDirName = `config-${projectId.substring(0, 8)}-${sessionId.substring(0, 8)}`;
+      localConfigPath = path.join(PROJECT_DATA_DIR, configDirName);
+      await fs.mkdir(localConfigPath, { recursive: true });
+      await writeVideoSettingsTo(localConfigPath, getVideoSettings(project ?? {}));
+      binds.push(`${path.join(HOST_PROJECT_DATA_DIR, configDirName)}:/app/remotion-app/config:rw`);
     } catch (error) {
       console.error(`Failed to set up project ${projectId}:`, error);
       // Clean up directories on failure
@@ -98,6 +118,12 @@ export async function createSession(projectId?: string): Promise<Session> {
       if (localSessionPath) {
         await fs.rm(localSessionPath, { recursive: true, force: true }).catch(() => {});
       }
+      if (localAssetsPath) {
+        await fs.rm(localAssetsPath, { recursive: true, force: true }).catch(() => {});
+      }
+      if (localConfigPath) {
+        await fs.rm(localConfigPath, { recursive: true, force: true }).catch(() => {});
+      }
       throw error;
     }
   }
@@ -140,6 +166,8 @@ export async function createSession(projectId?: string): Promise<Session> {
     agentPort,
     localSrcPath,
     localSessionPath,
+    localAssetsPath,
+    localConfigPath,
     agentSessionId,
     createdAt: new Date(),
   };
@@ -205,6 +233,20 @@ export async function destroySession(sessionId: string): Promise<void> {
     }
   }
 
+  // Clean up local assets directory
+  if (session.localAssetsPath) {
+    await fs.rm(session.localAssetsPath, { recursive: true, force: true }).catch((error) => {
+      console.error(`Failed to cleanup local assets:`, error);
+    });
+  }
+
+  // Clean up local config directory
+  if (session.localConfigPath) {
+    await fs.rm(session.localConfigPath, { recursive: true, force: true }).catch((error) => {
+      console.error(`Failed to cleanup local config:`, error);
+    });
+  }
+
   sessions.delete(sessionId);
   console.log(`Session ${sessionId} destroyed`);
 }
@@ -228,24 +270,64 @@ export async function syncSession(sessionId: string): Promise<void> {
   console.log(`Syncing session ${sessionId} for project ${session.projectId}...`);
 
   try {
-    // Upload only src/ to Cloud Storage
-    const versionId = await uploadProjectSrc(session.projectId, session.localSrcPath);
-    console.log(`Uploaded src/ to GCS, version: ${versionId}`);
+    // Upload only src/ to object storage (versions are committed by the caller)
+    await uploadProjectSrc(session.projectId, session.localSrcPath);
 
-    // Upload session data to Cloud Storage (if available)
+    // Upload session data to object storage (if available)
     if (session.localSessionPath) {
       await uploadSessionData(session.projectId, session.localSessionPath);
     }
-
-    // Update project in Firestore with new version
-    await updateProject(session.projectId, { currentCommitSha: versionId });
-    console.log(`Updated project ${session.projectId} version`);
   } catch (error) {
     console.error(`Sync failed for session ${sessionId}:`, error);
     throw error;
   }
 }
 
+/**
+ * Replace the session's src/ with the project's src/ from object storage
+ * Used after restoring a version; Vite picks up the file changes via HMR
+ */
+export async function reloadSessionSrc(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session || !session.projectId || !session.localSrcPath) {
+    return;
+  }
+
+  console.log(`Reloading src/ for session ${sessionId} from storage...`);
+  await mirrorProjectSrcTo(session.projectId, session.localSrcPath);
+}
+
+/**
+ * Replace the session's public/assets/ with the project's assets from object storage
+ * Used after assets are uploaded or deleted
+ */
+export async function reloadSessionAssets(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session || !session.projectId || !session.localAssetsPath) {
+    return;
+  }
+
+  console.log(`Reloading assets for session ${sessionId} from storage...`);
+  await mirrorProjectAssetsTo(session.projectId, session.localAssetsPath);
+}
+
+/**
+ * Write new video settings into the session's config/; Vite reloads the preview with them
+ */
+export async function reloadSessionVideoSettings(sessionId: string, settings: VideoSettings): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session || !session.localConfigPath) {
+    return;
+  }
+
+  console.log(`Updating video settings for session ${sessionId}...`);
+  await writeVideoSettingsTo(session.localConfigPath, settings);
+}
+
+async function writeVideoSettingsTo(configPath: string, settings: VideoSettings): Promise<void> {
+  await fs.writeFile(path.join(configPath, 'video-settings.json'), JSON.stringify(settings, null, 2));
+}
+
 /**
  * Update the agent session ID for a session
  * Called when the agent reports its session ID
@@ -259,7 +341,7 @@ export async function updateSessionAgentId(sessionId: string, agentSessionId: st
 
   session.agentSessionId = agentSessionId;
 
-  // Also update in Firestore if we have a project
+  // Also update the project record if we have a project
   if (session.projectId) {
     await updateProject(session.projectId, { agentSessionId });
     console.log(`Saved agent session ID ${agentSessionId} for project ${session.projectId}`);
@@ -0,0 +1,97 @@
+import type {
+  Project,
+  ChatMessage,
+  CreateProjectData,
+  ProjectUpdate,
+  NewChatMessage,
+  MessageUpdate,
+  CopiedChatMessage,
+  RenderJob,
+  RenderJobUpdate,
+  RenderBatch,
+} from './types.js';
+
+// ============ Store interfaces ============
+
+export interface ProjectStore {
+  createProject(data: CreateProjectData): Promise<Project>;
+  getProject(projectId: string): Promise<Project | null>;
+  updateProject(projectId: string, updates: ProjectUpdate): Promise<void>;
+  updateProjectLastOpened(projectId: string): Promise<void>;
+  listProjects(userId?: string): Promise<Project[]>;
+  /** Projects whose memberKeys contain any of the given keys */
+  listSharedProjects(memberKeys: string[]): Promise<Project[]>;
+  deleteProject(projectId: string): Promise<void>;
+}
+
+export interface MessageStore {
+  saveMessage(projectId: string, message: NewChatMessage): Promise<ChatMessage>;
+  /** Insert messages in order with their original timestamps */
+  saveMessages(projectId: string, messages: CopiedChatMessage[]): Promise<ChatMessage[]>;
+  updateMessage(projectId: string, messageId: string, updates: MessageUpdate): Promise<void>;
+  getMessages(projectId: string): Promise<ChatMessage[]>;
+  getRecentMessages(projectId: string, limit?: number): Promise<ChatMessage[]>;
+}
+
+export interface RenderStore {
+  saveRender(render: RenderJob): Promise<void>;
+  updateRender(renderId: string, updates: RenderJobUpdate): Promise<void>;
+  getRender(renderId: string): Promise<RenderJob | null>;
+  /** The project's renders, newest first */
+  listProjectRenders(projectId: string, limit?: number): Promise<RenderJob[]>;
+  /** Renders still pending or running, to resume watching after a restart */
+  listUnfinishedRenders(): Promise<RenderJob[]>;
+  /** Create or replace a render batch, rows included */
+  saveBatch(batch: RenderBatch): Promise<void>;
+  getBatch(batchId: string): Promise<RenderBatch | null>;
+  /** The project's render batches, newest first */
+  listProjectBatches(projectId: string, limit?: number): Promise<RenderBatch[]>;
+  /** Batches still running, to resume after a restart */
+  listUnfinishedBatches(): Promise<RenderBatch[]>;
+}
+
+export type Database = ProjectStore & MessageStore & RenderStore;
+
+// ============ Driver selection ============
+
+// 'firestore' (default) talks to Google Cloud, 'local' keeps JSON files on disk
+// so the backend can run offline without GCP credentials
+const DATABASE_DRIVER = process.env.DATABASE_DRIVER || 'firestore';
+
+async function loadDatabase(driver: string): Promise<Database> {
+  switch (driver) {
+    case 'firestore':
+      return import('./firestore.js');
+    case 'local':
+      return import('./localDatabase.js');
+    default:
+      throw new Error(`Unknown DATABASE_DRIVER "${driver}" (expected "firestore" or "local")`);
+  }
+}
+
+const database = await loadDatabase(DATABASE_DRIVER);
+console.log(`Using ${DATABASE_DRIVER} database`);
+
+export const {
+  createProject,
+  getProject,
+  updateProject,
+  updateProjectLastOpened,
+  listProjects,
+  listSharedProjects,
+  deleteProject,
+  saveMessage,
+  saveMessages,
+  updateMessage,
+  getMessages,
+  getRecentMessages,
+  saveRender,
+  updateRender,
+  getRender,
+  listProjectRenders,
+  listUnfinishedRenders,
+  saveBatch,
+  getBatch,
+  listProjectBatches,
+  listUnfinishedBatches,
+} = database;
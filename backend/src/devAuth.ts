@@ -0,0 +1,9 @@
+import type { AuthUser } from './auth.js';
+
+// Development stub: the bearer token is used as the user ID, and requests without
+// a token act as DEV_AUTH_USER_ID (projects created before auth belong to 'anonymous')
+const DEV_USER_ID = process.env.DEV_AUTH_USER_ID || 'anonymous';
+
+export async function authenticate(token: string | null): Promise<AuthUser | null> {
+  return { id: token || DEV_USER_ID };
+}
@@ -0,0 +1,74 @@
+import type { TtsRequest, TtsResult } from './tts.js';
+import type { WordTiming } from './types.js';
+
+// ElevenLabs text-to-speech, using the endpoint that returns character timings with the audio
+const API_KEY = process.env.ELEVENLABS_API_KEY;
+const API_URL = process.env.ELEVENLABS_API_URL || 'https://api.elevenlabs.io/v1';
+const DEFAULT_VOICE_ID = process.env.ELEVENLABS_VOICE_ID || '21m00Tcm4TlvDq8ikWAM';
+const MODEL_ID = process.env.ELEVENLABS_MODEL_ID || 'eleven_multilingual_v2';
+
+if (!API_KEY) {
+  throw new Error('TTS_DRIVER=elevenlabs requires ELEVENLABS_API_KEY');
+}
+
+interface TimestampedSpeech {
+  audio_base64: string;
+  alignment: {
+    characters: string[];
+    character_start_times_seconds: number[];
+    character_end_times_seconds: number[];
+  } | null;
+}
+
+export async function synthesize(request: TtsRequest): Promise<TtsResult> {
+  const voiceId = request.voice || DEFAULT_VOICE_ID;
+  const response = await fetch(
+    `${API_URL}/text-to-speech/${encodeURIComponent(voiceId)}/with-timestamps?output_format=mp3_44100_128`,
+    {
+      method: 'POST',
+      headers: { 'xi-api-key': API_KEY!, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: request.text,
+        model_id: MODEL_ID,
+        // ElevenLabs accepts speeds from 0.7 to 1.2
+        voice_settings: request.speed ? { speed: Math.min(1.2, Math.max(0.7, request.speed)) } : undefined,
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`ElevenLabs request failed (HTTP ${response.status}): ${detail.substring(0, 200)}`);
+  }
+
+  const speech = (await response.json()) as TimestampedSpeech;
+  const words = speech.alignment ? groupWords(speech.alignment) : [];
+  return {
+    audio: Buffer.from(speech.audio_base64, 'base64'),
+    extension: '.mp3',
+    durationSeconds: speech.alignment?.character_end_times_seconds.at(-1) || 0,
+    words,
+    timingSource: 'provider',
+  };
+}
+
+// Join the character timings into words, splitting on whitespace
+function groupWords(alignment: NonNullable<TimestampedSpeech['alignment']>): WordTiming[] {
+  const words: WordTiming[] = [];
+  let current: WordTiming | null = null;
+
+  alignment.characters.forEach((character, index) => {
+    if (/\s/.test(character)) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { word: '', startSeconds: alignment.character_start_times_seconds[index], endSeconds: 0 };
+      words.push(current);
+    }
+    current.word += character;
+    current.endSeconds = alignment.character_end_times_seconds[index];
+  });
+
+  return words;
+}
@@ -0,0 +1,91 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import type { TtsRequest, TtsResult } from './tts.js';
+import type { WordTiming } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+// Offline speech with the espeak-ng CLI - robotic, but needs no network or API key
+// espeak-ng doesn't report word timings, so they're estimated from the length of each word
+const ESPEAK_PATH = process.env.ESPEAK_PATH || 'espeak-ng';
+const DEFAULT_VOICE = process.env.ESPEAK_VOICE || 'en-us';
+const DEFAULT_WORDS_PER_MINUTE = 175;
+
+export async function synthesize(request: TtsRequest): Promise<TtsResult> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storydream-tts-'));
+  try {
+    // Text goes through a file so it can't be read as command-line options
+    const textPath = path.join(tempDir, 'script.txt');
+    const audioPath = path.join(tempDir, 'voiceover.wav');
+    await fs.writeFile(textPath, request.text);
+
+    const wordsPerMinute = Math.round(DEFAULT_WORDS_PER_MINUTE * (request.speed || 1));
+    await execFileAsync(ESPEAK_PATH, [
+      '-v', request.voice || DEFAULT_VOICE,
+      '-s', String(wordsPerMinute),
+      '-w', audioPath,
+      '-f', textPath,
+    ]);
+
+    const audio = await fs.readFile(audioPath);
+    const durationSeconds = getWavDuration(audio);
+    return {
+      audio,
+      extension: '.wav',
+      durationSeconds,
+      words: estimateWordTimings(request.text, durationSeconds),
+      timingSource: 'estimated',
+    };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`${ESPEAK_PATH} not found - install espeak-ng or set ESPEAK_PATH`);
+    }
+    throw error;
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+// Duration from the WAV header: data chunk size over the byte rate in the fmt chunk
+function getWavDuration(wav: Buffer): number {
+  let byteRate = 0;
+  let offset = 12;  // After "RIFF", size and "WAVE"
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString('latin1', offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    if (chunkId === 'fmt ') {
+      byteRate = wav.readUInt32LE(offset + 16);
+    } else if (chunkId === 'data' && byteRate > 0) {
+      // Streamed WAVs leave the size unset, so fall back to the rest of the file
+      const dataSize = Math.min(chunkSize, wav.length - offset - 8);
+      return dataSize / byteRate;
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  throw new Error('espeak-ng produced an unreadable WAV file');
+}
+
+// Spread the audio over the words by length, leaving a pause after punctuation
+function estimateWordTimings(text: string, durationSeconds: number): WordTiming[] {
+  const words = (text.match(/\S+/g) || []).map((word) => ({
+    word,
+    letters: Math.max(1, word.replace(/[^\p{L}\p{N}]/gu, '').length),
+    pause: /[.!?]$/.test(word) ? 5 : /[,;:]$/.test(word) ? 2 : 0.5,
+  }));
+  const secondsPerUnit = durationSeconds / (words.reduce((sum, w) => sum + w.letters + w.pause, 0) || 1);
+
+  let start = 0;
+  return words.map(({ word, letters, pause }) => {
+    const end = start + letters * secondsPerUnit;
+    const timing = { word, startSeconds: round(start), endSeconds: round(end) };
+    start = end + pause * secondsPerUnit;
+    return timing;
+  });
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
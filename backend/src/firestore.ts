@@ -1,6 +1,6 @@
 import { Firestore, Timestamp } from '@google-cloud/firestore';
 import { v4 as uuidv4 } from 'uuid';
-import type { Project, ChatMessage, AgentAction } from './types.js';
+import type { Project, Collaborator, ChatMessage, CreateProjectData, ProjectUpdate, NewChatMessage, MessageUpdate, CopiedChatMessage, RenderJob, RenderJobUpdate, RenderBatch } from './types.js';
 
 // Initialize Firestore
 // Uses application default credentials (gcloud auth)
@@ -12,6 +12,9 @@ const firestore = new Firestore({
 
 // Collections
 const projectsCollection = firestore.collection('projects');
+// Top-level so renders can be looked up by ID alone
+const rendersCollection = firestore.collection('renders');
+const renderBatchesCollection = firestore.collection('renderBatches');
 
 // Helper to convert Firestore timestamps to Date
 function toDate(timestamp: Timestamp | Date | undefined): Date {
@@ -20,16 +23,39 @@ function toDate(timestamp: Timestamp | Date | undefined): Date {
   return timestamp;
 }
 
+function toProject(id: string, data: FirebaseFirestore.DocumentData): Project {
+  return {
+    ...data,
+    id,
+    collaborators: data.collaborators?.map((collaborator: Collaborator) => ({
+      ...collaborator,
+      addedAt: toDate(collaborator.addedAt),
+    })),
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+    lastOpenedAt: toDate(data.lastOpenedAt),
+  } as Project;
+}
+
+function toRender(data: FirebaseFirestore.DocumentData): RenderJob {
+  return {
+    ...data,
+    createdAt: toDate(data.createdAt),
+    completedAt: data.completedAt ? toDate(data.completedAt) : undefined,
+  } as RenderJob;
+}
+
+function toBatch(data: FirebaseFirestore.DocumentData): RenderBatch {
+  return {
+    ...data,
+    createdAt: toDate(data.createdAt),
+    completedAt: data.completedAt ? toDate(data.completedAt) : undefined,
+  } as RenderBatch;
+}
+
 // ============ Projects ============
 
-export async function createProject(data: {
-  id?: string;  // Optional - if not provided, generates new UUID
-  name: string;
-  description?: string;
-  userId?: string;
-  gitRepoPath: string;
-  currentCommitSha: string;
-}): Promise<Project> {
+export async function createProject(data: CreateProjectData): Promise<Project> {
   const id = data.id || uuidv4();
   const now = new Date();
 
@@ -40,6 +66,8 @@ export async function createProject(data: {
     description: data.description,
     gitRepoPath: data.gitRepoPath,
     currentCommitSha: data.currentCommitSha,
+    forkedFrom: data.forkedFrom,
+    videoSettings: data.videoSettings,
     createdAt: now,
     updatedAt: now,
     lastOpenedAt: now,
@@ -60,19 +88,12 @@ export async function getProject(projectId: string): Promise<Project | null> {
   const doc = await projectsCollection.doc(projectId).get();
   if (!doc.exists) return null;
 
-  const data = doc.data()!;
-  return {
-    ...data,
-    id: doc.id,
-    createdAt: toDate(data.createdAt),
-    updatedAt: toDate(data.updatedAt),
-    lastOpenedAt: toDate(data.lastOpenedAt),
-  } as Project;
+  return toProject(doc.id, doc.data()!);
 }
 
 export async function updateProject(
   projectId: string,
-  updates: Partial<Pick<Project, 'name' | 'description' | 'currentCommitSha' | 'thumbnailUrl' | 'videoSettings' | 'agentSessionId'>>
+  updates: ProjectUpdate
 ): Promise<void> {
   await projectsCollection.doc(projectId).update({
     ...updates,
@@ -97,16 +118,23 @@ export async function listProjects(userId?: string): Promise<Project[]> {
 
   const snapshot = await query.limit(50).get();
 
-  return snapshot.docs.map((doc) => {
-    const data = doc.data();
-    return {
-      ...data,
-      id: doc.id,
-      createdAt: toDate(data.createdAt),
-      updatedAt: toDate(data.updatedAt),
-      lastOpenedAt: toDate(data.lastOpenedAt),
-    } as Project;
-  });
+  return snapshot.docs.map((doc) => toProject(doc.id, doc.data()));
+}
+
+// Firestore allows at most 30 values in an array-contains-any filter
+const MAX_MEMBER_KEYS = 30;
+
+export async function listSharedProjects(memberKeys: string[]): Promise<Project[]> {
+  if (memberKeys.length === 0) return [];
+
+  // Needs a composite index on memberKeys (array-contains) + lastOpenedAt (desc)
+  const snapshot = await projectsCollection
+    .where('memberKeys', 'array-contains-any', memberKeys.slice(0, MAX_MEMBER_KEYS))
+    .orderBy('lastOpenedAt', 'desc')
+    .limit(50)
+    .get();
+
+  return snapshot.docs.map((doc) => toProject(doc.id, doc.data()));
 }
 
 export async function deleteProject(projectId: string): Promise<void> {
@@ -116,10 +144,24 @@ export async function deleteProject(projectId: string): Promise<void> {
     .collection('messages')
     .get();
 
+  const rendersSnapshot = await rendersCollection
+    .where('projectId', '==', projectId)
+    .get();
+
+  const renderBatchesSnapshot = await renderBatchesCollection
+    .where('projectId', '==', projectId)
+    .get();
+
   const batch = firestore.batch();
   messagesSnapshot.docs.forEach((doc) => {
     batch.delete(doc.ref);
   });
+  rendersSnapshot.docs.forEach((doc) => {
+    batch.delete(doc.ref);
+  });
+  renderBatchesSnapshot.docs.forEach((doc) => {
+    batch.delete(doc.ref);
+  });
   batch.delete(projectsCollection.doc(projectId));
 
   await batch.commit();
@@ -130,7 +172,7 @@ export async function deleteProject(projectId: string): Promise<void> {
 
 export async function saveMessage(
   projectId: string,
-  message: Omit<ChatMessage, 'id' | 'projectId' | 'createdAt'>
+  message: NewChatMessage
 ): Promise<ChatMessage> {
   const id = uuidv4();
   const now = new Date();
@@ -140,7 +182,10 @@ export async function saveMessage(
     projectId,
     role: message.role,
     content: message.content,
+    attachments: message.attachments,
     actions: message.actions,
+    turnResult: message.turnResult,
+    cancelled: message.cancelled,
     createdAt: now,
   };
 
@@ -156,6 +201,46 @@ export async function saveMessage(
   return chatMessage;
 }
 
+// Firestore batches are limited to 500 writes
+const MAX_BATCH_SIZE = 500;
+
+export async function saveMessages(
+  projectId: string,
+  messages: CopiedChatMessage[]
+): Promise<ChatMessage[]> {
+  const messagesCollection = projectsCollection.doc(projectId).collection('messages');
+  const chatMessages: ChatMessage[] = messages.map((message) => ({
+    ...message,
+    id: uuidv4(),
+    projectId,
+  }));
+
+  for (let i = 0; i < chatMessages.length; i += MAX_BATCH_SIZE) {
+    const batch = firestore.batch();
+    for (const chatMessage of chatMessages.slice(i, i + MAX_BATCH_SIZE)) {
+      batch.set(messagesCollection.doc(chatMessage.id), {
+        ...chatMessage,
+        createdAt: Timestamp.fromDate(chatMessage.createdAt),
+      });
+    }
+    await batch.commit();
+  }
+
+  return chatMessages;
+}
+
+export async function updateMessage(
+  projectId: string,
+  messageId: string,
+  updates: MessageUpdate
+): Promise<void> {
+  await projectsCollection
+    .doc(projectId)
+    .collection('messages')
+    .doc(messageId)
+    .update(updates);
+}
+
 export async function getMessages(projectId: string): Promise<ChatMessage[]> {
   const snapshot = await projectsCollection
     .doc(projectId)
@@ -199,6 +284,85 @@ export async function getRecentMessages(
     .reverse();
 }
 
+// ============ Renders ============
+
+export async function saveRender(render: RenderJob): Promise<void> {
+  await rendersCollection.doc(render.renderId).set({
+    ...render,
+    createdAt: Timestamp.fromDate(render.createdAt),
+    completedAt: render.completedAt ? Timestamp.fromDate(render.completedAt) : undefined,
+  });
+}
+
+export async function updateRender(renderId: string, updates: RenderJobUpdate): Promise<void> {
+  await rendersCollection.doc(renderId).update({
+    ...updates,
+    ...(updates.completedAt && { completedAt: Timestamp.fromDate(updates.completedAt) }),
+  });
+}
+
+export async function getRender(renderId: string): Promise<RenderJob | null> {
+  const doc = await rendersCollection.doc(renderId).get();
+  if (!doc.exists) return null;
+
+  return toRender(doc.data()!);
+}
+
+export async function listProjectRenders(projectId: string, limit: number = 50): Promise<RenderJob[]> {
+  // Needs a composite index on projectId + createdAt (desc)
+  const snapshot = await rendersCollection
+    .where('projectId', '==', projectId)
+    .orderBy('createdAt', 'desc')
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map((doc) => toRender(doc.data()));
+}
+
+export async function listUnfinishedRenders(): Promise<RenderJob[]> {
+  const snapshot = await rendersCollection
+    .where('status', 'in', ['pending', 'running'])
+    .get();
+
+  return snapshot.docs.map((doc) => toRender(doc.data()));
+}
+
+// ============ Render Batches ============
+
+export async function saveBatch(renderBatch: RenderBatch): Promise<void> {
+  await renderBatchesCollection.doc(renderBatch.batchId).set({
+    ...renderBatch,
+    createdAt: Timestamp.fromDate(renderBatch.createdAt),
+    completedAt: renderBatch.completedAt ? Timestamp.fromDate(renderBatch.completedAt) : undefined,
+  });
+}
+
+export async function getBatch(batchId: string): Promise<RenderBatch | null> {
+  const doc = await renderBatchesCollection.doc(batchId).get();
+  if (!doc.exists) return null;
+
+  return toBatch(doc.data()!);
+}
+
+export async function listProjectBatches(projectId: string, limit: number = 50): Promise<RenderBatch[]> {
+  // Needs a composite index on projectId + createdAt (desc)
+  const snapshot = await renderBatchesCollection
+    .where('projectId', '==', projectId)
+    .orderBy('createdAt', 'desc')
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map((doc) => toBatch(doc.data()));
+}
+
+export async function listUnfinishedBatches(): Promise<RenderBatch[]> {
+  const snapshot = await renderBatchesCollection
+    .where('status', '==', 'running')
+    .get();
+
+  return snapshot.docs.map((doc) => toBatch(doc.data()));
+}
+
 // ============ Export Firestore instance for direct access if needed ============
 
 export { firestore };
@@ -0,0 +1,69 @@
+import { Storage } from '@google-cloud/storage';
+
+// Initialize Cloud Storage
+const storage = new Storage({
+  projectId: process.env.GCP_PROJECT_ID || 'saltfish-434012',
+});
+
+const BUCKET_NAME = process.env.STORAGE_BUCKET || 'storydream-data';
+const bucket = storage.bucket(BUCKET_NAME);
+
+const DEFAULT_SIGNED_URL_TTL = 60 * 60 * 1000; // 1 hour
+
+export async function list(prefix: string): Promise<string[]> {
+  const [files] = await bucket.getFiles({ prefix });
+  return files.map((file) => file.name);
+}
+
+export async function get(blobPath: string): Promise<Buffer | null> {
+  try {
+    const [content] = await bucket.file(blobPath).download();
+    return content;
+  } catch (error: any) {
+    if (error.code === 404) return null;
+    throw error;
+  }
+}
+
+export async function put(blobPath: string, data: Buffer | string, contentType?: string): Promise<void> {
+  await bucket.file(blobPath).save(data, contentType ? { contentType } : undefined);
+}
+
+async function deleteBlob(blobPath: string): Promise<void> {
+  await bucket.file(blobPath).delete({ ignoreNotFound: true });
+}
+
+export { deleteBlob as delete };
+
+export async function exists(blobPath: string): Promise<boolean> {
+  const [fileExists] = await bucket.file(blobPath).exists();
+  return fileExists;
+}
+
+export async function copy(sourcePath: string, destinationPath: string): Promise<void> {
+  await bucket.file(sourcePath).copy(bucket.file(destinationPath));
+}
+
+export async function getSignedUrl(
+  blobPath: string,
+  expiresInMs: number = DEFAULT_SIGNED_URL_TTL
+): Promise<string> {
+  const [url] = await bucket.file(blobPath).getSignedUrl({
+    version: 'v4',
+    action: 'read',
+    expires: Date.now() + expiresInMs,
+  });
+  return url;
+}
+
+export async function uploadFile(localPath: string, blobPath: string, contentType?: string): Promise<void> {
+  await bucket.upload(localPath, { destination: blobPath, contentType });
+}
+
+export async function downloadFile(blobPath: string, localPath: string): Promise<void> {
+  await bucket.file(blobPath).download({ destination: localPath });
+}
+
+export function toUri(blobPath: string): string {
+  return `gs://${BUCKET_NAME}/${blobPath}`;
+}
@@ -1,6 +1,8 @@
-import 'dotenv/config';
+import './loadEnv.js';
 import { createWebSocketServer } from './websocket.js';
 import { startApiServer } from './api.js';
+import { resumeRenderJobs } from './render.js';
+import { resumeRenderBatches } from './renderBatches.js';
 
 // Use Kubernetes when running in K8s, Docker when running locally
 const useKubernetes = process.env.RUNNING_IN_KUBERNETES === 'true';
@@ -9,11 +11,6 @@ const containerModule = useKubernetes
   : await import('./container.js');
 const { cleanupAllSessions } = containerModule;
 
-// Load .env from parent directory
-import { config } from 'dotenv';
-import { resolve } from 'path';
-config({ path: resolve(process.cwd(), '../.env') });
-
 const WS_PORT = parseInt(process.env.WS_PORT || '8080');
 const API_PORT = parseInt(process.env.API_PORT || '8081');
 
@@ -25,6 +22,13 @@ const wss = createWebSocketServer(WS_PORT);
 // Start REST API server for project management
 startApiServer(API_PORT);
 
+// Pick up render jobs, and the batches they're rows of, that were running when the backend last stopped
+resumeRenderJobs()
+  .then(() => resumeRenderBatches())
+  .catch((error) => {
+    console.error('Failed to resume render jobs:', error);
+  });
+
 // Handle graceful shutdown
 async function shutdown() {
   console.log('Shutting down backend...');
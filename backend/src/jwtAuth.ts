@@ -0,0 +1,37 @@
+import { createRemoteJWKSet, jwtVerify } from 'jose';
+import type { AuthUser } from './auth.js';
+
+// Verify tokens against the identity provider's JWKS (RS256/ES256) or a shared HS256 secret
+const JWKS_URL = process.env.AUTH_JWKS_URL;
+const JWT_SECRET = process.env.AUTH_JWT_SECRET;
+const JWT_ISSUER = process.env.AUTH_JWT_ISSUER || undefined;
+const JWT_AUDIENCE = process.env.AUTH_JWT_AUDIENCE || undefined;
+
+if (!JWKS_URL && !JWT_SECRET) {
+  throw new Error('AUTH_DRIVER=jwt requires AUTH_JWKS_URL or AUTH_JWT_SECRET');
+}
+
+const jwks = JWKS_URL ? createRemoteJWKSet(new URL(JWKS_URL)) : null;
+const secret = new TextEncoder().encode(JWT_SECRET || '');
+
+export async function authenticate(token: string | null): Promise<AuthUser | null> {
+  if (!token) return null;
+
+  try {
+    const options = { issuer: JWT_ISSUER, audience: JWT_AUDIENCE };
+    const { payload } = jwks
+      ? await jwtVerify(token, jwks, options)
+      : await jwtVerify(token, secret, options);
+
+    if (!payload.sub) return null;
+
+    return {
+      id: payload.sub,
+      email: typeof payload.email === 'string' ? payload.email : undefined,
+      name: typeof payload.name === 'string' ? payload.name : undefined,
+    };
+  } catch (error: any) {
+    console.log(`Rejected JWT: ${error.code || error.message}`);
+    return null;
+  }
+}
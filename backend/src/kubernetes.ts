@@ -1,7 +1,8 @@
 import * as k8s from '@kubernetes/client-node';
 import { v4 as uuidv4 } from 'uuid';
-import { downloadProjectSrc, uploadProjectSrc, downloadSessionData, uploadSessionData } from './storage.js';
 import { updateProject, getProject } from './projects.js';
+import { DEFAULT_VIDEO_SETTINGS, getVideoSettings } from './videoSettings.js';
+import type { VideoSettings } from './types.js';
 
 // Load Kubernetes config (in-cluster when running in K8s, or from kubeconfig locally)
 const kc = new k8s.KubeConfig();
@@ -45,6 +46,7 @@ export async function createSession(projectId?: string): Promise<Session> {
 
   // Get existing agent session ID if available
   let agentSessionId: string | null = null;
+  let videoSettings: VideoSettings = DEFAULT_VIDEO_SETTINGS;
   if (projectId) {
     try {
       const project = await getProject(projectId);
@@ -52,6 +54,9 @@ export async function createSession(projectId?: string): Promise<Session> {
         agentSessionId = project.agentSessionId;
         console.log(`Found existing agent session ID: ${agentSessionId}`);
       }
+      if (project) {
+        videoSettings = getVideoSettings(project);
+      }
     } catch (error) {
       console.error(`Failed to get project ${projectId}:`, error);
     }
@@ -87,9 +92,11 @@ export async function createSession(projectId?: string): Promise<Session> {
             gsutil -m cp -r gs://${process.env.STORAGE_BUCKET || 'storydream-data'}/repos/${projectId}/src/* /project-src/ || echo "No src files found, using defaults"
             echo "Downloading session data from GCS..."
             gsutil -m cp -r gs://${process.env.STORAGE_BUCKET || 'storydream-data'}/repos/${projectId}/.claude/* /session-data/ 2>/dev/null || echo "No session data found"
+            echo "Downloading project assets from GCS..."
+            gsutil -m cp -r gs://${process.env.STORAGE_BUCKET || 'storydream-data'}/repos/${projectId}/assets/* /project-assets/ 2>/dev/null || echo "No assets found"
             echo "Setting permissions for node user (UID 1000)..."
-            chown -R 1000:1000 /project-src /session-data
-            chmod -R 755 /project-src /session-data
+            chown -R 1000:1000 /project-src /session-data /project-assets
+            chmod -R 755 /project-src /session-data /project-assets
             echo "Init complete"
             ls -la /project-src/ || true
             ls -la /session-data/ || true
@@ -98,6 +105,7 @@ export async function createSession(projectId?: string): Promise<Session> {
           volumeMounts: [
             { name: 'project-src', mountPath: '/project-src' },
             { name: 'session-data', mountPath: '/session-data' },
+            { name: 'project-assets', mountPath: '/project-assets' },
           ],
         },
       ] : undefined,
@@ -114,6 +122,7 @@ export async function createSession(projectId?: string): Promise<Session> {
           env: [
             { name: 'PROJECT_ID', value: projectId || '' },
             { name: 'AGENT_SESSION_ID', value: agentSessionId || '' },
+            { name: 'VIDEO_SETTINGS', value: JSON.stringify(videoSettings) },  // Written to config/ by start.sh
             { name: 'GCP_PROJECT_ID', value: process.env.GCP_PROJECT_ID || 'saltfish-434012' },
             { name: 'STORAGE_BUCKET', value: process.env.STORAGE_BUCKET || 'storydream-data' },
             {
@@ -133,6 +142,7 @@ export async function createSession(projectId?: string): Promise<Session> {
           volumeMounts: [
             { name: 'project-src', mountPath: '/app/remotion-app/src' },
             { name: 'session-data', mountPath: '/home/node/.claude' },
+            { name: 'project-assets', mountPath: '/app/remotion-app/public/assets' },
           ],
           readinessProbe: {
             httpGet: { path: '/', port: 3000 as any },
@@ -145,6 +155,7 @@ export async function createSession(projectId?: string): Promise<Session> {
       volumes: [
         { name: 'project-src', emptyDir: {} },
         { name: 'session-data', emptyDir: {} },
+        { name: 'project-assets', emptyDir: {} },
       ],
       // Auto-terminate after 1 hour
       activeDeadlineSeconds: 3600,
@@ -297,6 +308,74 @@ export async function syncSession(sessionId: string): Promise<void> {
   }
 }
 
+/**
+ * Replace the pod's src/ with the project's src/ from Cloud Storage
+ * Used after restoring a version; Vite picks up the file changes via HMR
+ */
+export async function reloadSessionSrc(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session || !session.projectId || !session.podIp) {
+    return;
+  }
+
+  console.log(`Reloading src/ for session ${sessionId} from storage...`);
+
+  const response = await fetch(`http://${session.podIp}:3002/restore`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ projectId: session.projectId }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Restore endpoint failed with HTTP ${response.status}`);
+  }
+}
+
+/**
+ * Replace the pod's public/assets/ with the project's assets from Cloud Storage
+ * Used after assets are uploaded or deleted
+ */
+export async function reloadSessionAssets(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session || !session.projectId || !session.podIp) {
+    return;
+  }
+
+  console.log(`Reloading assets for session ${sessionId} from storage...`);
+
+  const response = await fetch(`http://${session.podIp}:3002/assets`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ projectId: session.projectId }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Assets endpoint failed with HTTP ${response.status}`);
+  }
+}
+
+/**
+ * Write new video settings into the pod's config/; Vite reloads the preview with them
+ */
+export async function reloadSessionVideoSettings(sessionId: string, settings: VideoSettings): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session || !session.projectId || !session.podIp) {
+    return;
+  }
+
+  console.log(`Updating video settings for session ${sessionId}...`);
+
+  const response = await fetch(`http://${session.podIp}:3002/video-settings`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ projectId: session.projectId, settings }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Video settings endpoint failed with HTTP ${response.status}`);
+  }
+}
+
 /**
  * Update the agent session ID for a session
  */
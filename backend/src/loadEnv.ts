@@ -0,0 +1,8 @@
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Load backend/.env, then the repo-root .env (for values backend/.env doesn't set)
+// Import this first: auth, database, blob storage and TTS pick their drivers from the
+// environment when their modules load
+config();
+config({ path: resolve(process.cwd(), '../.env') });
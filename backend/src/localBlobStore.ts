@@ -0,0 +1,137 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Local-directory blob store for offline development and CI
+// Blobs live at {LOCAL_DATA_DIR}/blobs/{blobPath}
+const LOCAL_DATA_DIR = process.env.LOCAL_DATA_DIR ||
+  path.resolve(process.cwd(), '../project-data/local');
+const BLOBS_DIR = path.join(LOCAL_DATA_DIR, 'blobs');
+
+// Signed URLs point back at the backend's /api/blobs route
+const PUBLIC_API_URL = process.env.PUBLIC_API_URL || `http://localhost:${process.env.API_PORT || '8081'}/api`;
+// Without a configured secret, URLs stay valid only for the lifetime of this process
+const SIGNING_SECRET = process.env.BLOB_SIGNING_SECRET || randomBytes(32).toString('hex');
+
+const DEFAULT_SIGNED_URL_TTL = 60 * 60 * 1000; // 1 hour
+
+// Resolve a blob path to a file path, refusing anything that escapes the blobs directory
+export function resolveBlobPath(blobPath: string): string {
+  const filePath = path.resolve(BLOBS_DIR, blobPath);
+  if (filePath !== BLOBS_DIR && !filePath.startsWith(BLOBS_DIR + path.sep)) {
+    throw new Error(`Invalid blob path: ${blobPath}`);
+  }
+  return filePath;
+}
+
+async function walk(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error.code === 'ENOTDIR') return [];
+    throw error;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(fullPath)));
+    } else if (!entry.name.endsWith('.tmp')) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+export async function list(prefix: string): Promise<string[]> {
+  // Only walk the deepest directory the prefix is guaranteed to be inside
+  const prefixDir = prefix.endsWith('/') ? prefix : path.posix.dirname(prefix);
+  const files = await walk(resolveBlobPath(prefixDir === '.' ? '' : prefixDir));
+
+  return files
+    .map((file) => path.relative(BLOBS_DIR, file).split(path.sep).join('/'))
+    .filter((blobPath) => blobPath.startsWith(prefix))
+    .sort();
+}
+
+export async function get(blobPath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(resolveBlobPath(blobPath));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Write to a temp file and rename so readers never see a half-written blob
+export async function put(blobPath: string, data: Buffer | string, _contentType?: string): Promise<void> {
+  const filePath = resolveBlobPath(blobPath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${randomBytes(4).toString('hex')}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+}
+
+async function deleteBlob(blobPath: string): Promise<void> {
+  await fs.rm(resolveBlobPath(blobPath), { force: true });
+}
+
+export { deleteBlob as delete };
+
+export async function exists(blobPath: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(resolveBlobPath(blobPath));
+    return stats.isFile();
+  } catch {
+    return false;
+  }
+}
+
+export async function copy(sourcePath: string, destinationPath: string): Promise<void> {
+  const filePath = resolveBlobPath(destinationPath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.copyFile(resolveBlobPath(sourcePath), filePath);
+}
+
+function sign(blobPath: string, expires: number): string {
+  return createHmac('sha256', SIGNING_SECRET).update(`${blobPath}\n${expires}`).digest('hex');
+}
+
+export async function getSignedUrl(
+  blobPath: string,
+  expiresInMs: number = DEFAULT_SIGNED_URL_TTL
+): Promise<string> {
+  const expires = Date.now() + expiresInMs;
+  const encodedPath = blobPath.split('/').map(encodeURIComponent).join('/');
+  return `${PUBLIC_API_URL}/blobs/${encodedPath}?expires=${expires}&signature=${sign(blobPath, expires)}`;
+}
+
+/**
+ * Check a signature produced by getSignedUrl
+ * Used by the /api/blobs route that serves local blobs to the browser
+ */
+export function verifySignedUrl(blobPath: string, expires: number, signature: string): boolean {
+  if (!Number.isFinite(expires) || expires < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(blobPath, expires), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export async function uploadFile(localPath: string, blobPath: string): Promise<void> {
+  const filePath = resolveBlobPath(blobPath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.copyFile(localPath, filePath);
+}
+
+export async function downloadFile(blobPath: string, localPath: string): Promise<void> {
+  await fs.copyFile(resolveBlobPath(blobPath), localPath);
+}
+
+export function toUri(blobPath: string): string {
+  return resolveBlobPath(blobPath);
+}
@@ -0,0 +1,413 @@
+import { v4 as uuidv4 } from 'uuid';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createKeyedLock } from './lock.js';
+import type { Project, Collaborator, ChatMessage, CreateProjectData, ProjectUpdate, NewChatMessage, MessageUpdate, CopiedChatMessage, RenderJob, RenderJobUpdate, RenderBatch } from './types.js';
+
+// Local JSON-file database for offline development and integration tests
+// Layout: {LOCAL_DATA_DIR}/db/projects/{projectId}.json
+//         {LOCAL_DATA_DIR}/db/messages/{projectId}.json
+//         {LOCAL_DATA_DIR}/db/renders/{renderId}.json
+//         {LOCAL_DATA_DIR}/db/render-batches/{batchId}.json
+const LOCAL_DATA_DIR = process.env.LOCAL_DATA_DIR ||
+  path.resolve(process.cwd(), '../project-data/local');
+
+const DB_DIR = path.join(LOCAL_DATA_DIR, 'db');
+const PROJECTS_DIR = path.join(DB_DIR, 'projects');
+const MESSAGES_DIR = path.join(DB_DIR, 'messages');
+const RENDERS_DIR = path.join(DB_DIR, 'renders');
+const RENDER_BATCHES_DIR = path.join(DB_DIR, 'render-batches');
+
+// Dates are stored as ISO strings on disk
+type Stored<T> = { [K in keyof T]: T[K] extends Date ? string : T[K] };
+
+// IDs come from route params and WebSocket messages (Express decodes %2F), so make sure each one
+// names a file directly inside its directory and can't reach other files under the data dir
+function recordPath(dir: string, id: string): string {
+  const filePath = path.resolve(dir, `${id}.json`);
+  if (path.dirname(filePath) !== path.resolve(dir)) {
+    throw new Error(`Invalid ID: ${id}`);
+  }
+  return filePath;
+}
+
+function projectPath(projectId: string): string {
+  return recordPath(PROJECTS_DIR, projectId);
+}
+
+function messagesPath(projectId: string): string {
+  return recordPath(MESSAGES_DIR, projectId);
+}
+
+function renderPath(renderId: string): string {
+  return recordPath(RENDERS_DIR, renderId);
+}
+
+function batchPath(batchId: string): string {
+  return recordPath(RENDER_BATCHES_DIR, batchId);
+}
+
+function toProject(data: Stored<Project>): Project {
+  return {
+    ...data,
+    collaborators: (data.collaborators as unknown as Stored<Collaborator>[] | undefined)?.map((collaborator) => ({
+      ...collaborator,
+      addedAt: new Date(collaborator.addedAt),
+    })),
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+    lastOpenedAt: new Date(data.lastOpenedAt),
+  };
+}
+
+function toMessage(data: Stored<ChatMessage>): ChatMessage {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+  };
+}
+
+function toRender(data: Stored<RenderJob>): RenderJob {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    completedAt: data.completedAt ? new Date(data.completedAt) : undefined,
+  };
+}
+
+function toBatch(data: Stored<RenderBatch>): RenderBatch {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    completedAt: data.completedAt ? new Date(data.completedAt) : undefined,
+  };
+}
+
+// ============ File helpers ============
+
+// Firestore ignores undefined fields (ignoreUndefinedProperties), so drop them rather than erase stored values
+function definedOnly<T extends object>(updates: T): Partial<T> {
+  return Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Write to a temp file and rename so readers never see a half-written file
+async function writeJson(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+// Serialize read-modify-write cycles per file so concurrent updates don't clobber each other
+const withFileLock = createKeyedLock();
+
+async function updateProjectFile(
+  projectId: string,
+  update: (project: Stored<Project>) => Stored<Project>
+): Promise<void> {
+  const filePath = projectPath(projectId);
+  await withFileLock(filePath, async () => {
+    const data = await readJson<Stored<Project>>(filePath);
+    if (!data) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+    await writeJson(filePath, update(data));
+  });
+}
+
+// ============ Projects ============
+
+export async function createProject(data: CreateProjectData): Promise<Project> {
+  const id = data.id || uuidv4();
+  const now = new Date();
+
+  const project: Project = {
+    id,
+    userId: data.userId || 'anonymous',
+    name: data.name,
+    description: data.description,
+    gitRepoPath: data.gitRepoPath,
+    currentCommitSha: data.currentCommitSha,
+    forkedFrom: data.forkedFrom,
+    videoSettings: data.videoSettings,
+    createdAt: now,
+    updatedAt: now,
+    lastOpenedAt: now,
+  };
+
+  const filePath = projectPath(id);
+  await withFileLock(filePath, () => writeJson(filePath, project));
+
+  console.log(`Created project: ${id} - ${data.name}`);
+  return project;
+}
+
+export async function getProject(projectId: string): Promise<Project | null> {
+  const data = await readJson<Stored<Project>>(projectPath(projectId));
+  return data ? toProject(data) : null;
+}
+
+export async function updateProject(projectId: string, updates: ProjectUpdate): Promise<void> {
+  await updateProjectFile(projectId, (project) => ({
+    ...project,
+    ...definedOnly(updates),
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
+export async function updateProjectLastOpened(projectId: string): Promise<void> {
+  await updateProjectFile(projectId, (project) => ({
+    ...project,
+    lastOpenedAt: new Date().toISOString(),
+  }));
+}
+
+async function readAllProjects(): Promise<Project[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(PROJECTS_DIR);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const projects = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => readJson<Stored<Project>>(path.join(PROJECTS_DIR, file)))
+  );
+
+  return projects
+    .filter((data): data is Stored<Project> => data !== null)
+    .map(toProject)
+    .sort((a, b) => b.lastOpenedAt.getTime() - a.lastOpenedAt.getTime());
+}
+
+export async function listProjects(userId?: string): Promise<Project[]> {
+  const projects = await readAllProjects();
+  return projects
+    .filter((project) => !userId || project.userId === userId)
+    .slice(0, 50);
+}
+
+export async function listSharedProjects(memberKeys: string[]): Promise<Project[]> {
+  if (memberKeys.length === 0) return [];
+
+  const projects = await readAllProjects();
+  return projects
+    .filter((project) => project.memberKeys?.some((key) => memberKeys.includes(key)))
+    .slice(0, 50);
+}
+
+export async function deleteProject(projectId: string): Promise<void> {
+  await withFileLock(messagesPath(projectId), () =>
+    fs.rm(messagesPath(projectId), { force: true })
+  );
+  await withFileLock(projectPath(projectId), () =>
+    fs.rm(projectPath(projectId), { force: true })
+  );
+  const renders = (await readAllRenders()).filter((render) => render.projectId === projectId);
+  for (const render of renders) {
+    await withFileLock(renderPath(render.renderId), () =>
+      fs.rm(renderPath(render.renderId), { force: true })
+    );
+  }
+  const batches = (await readAllBatches()).filter((batch) => batch.projectId === projectId);
+  for (const batch of batches) {
+    await withFileLock(batchPath(batch.batchId), () =>
+      fs.rm(batchPath(batch.batchId), { force: true })
+    );
+  }
+  console.log(`Deleted project: ${projectId}`);
+}
+
+// ============ Chat Messages ============
+
+export async function saveMessage(
+  projectId: string,
+  message: NewChatMessage
+): Promise<ChatMessage> {
+  const chatMessage: ChatMessage = {
+    id: uuidv4(),
+    projectId,
+    role: message.role,
+    content: message.content,
+    attachments: message.attachments,
+    actions: message.actions,
+    turnResult: message.turnResult,
+    cancelled: message.cancelled,
+    createdAt: new Date(),
+  };
+
+  const filePath = messagesPath(projectId);
+  await withFileLock(filePath, async () => {
+    const messages = (await readJson<Stored<ChatMessage>[]>(filePath)) || [];
+    messages.push({ ...chatMessage, createdAt: chatMessage.createdAt.toISOString() });
+    await writeJson(filePath, messages);
+  });
+
+  return chatMessage;
+}
+
+export async function saveMessages(
+  projectId: string,
+  messages: CopiedChatMessage[]
+): Promise<ChatMessage[]> {
+  const chatMessages: ChatMessage[] = messages.map((message) => ({
+    ...message,
+    id: uuidv4(),
+    projectId,
+  }));
+
+  const filePath = messagesPath(projectId);
+  await withFileLock(filePath, async () => {
+    const existing = (await readJson<Stored<ChatMessage>[]>(filePath)) || [];
+    const added = chatMessages.map((message) => ({ ...message, createdAt: message.createdAt.toISOString() }));
+    // Keep the file chronological even if the copied messages predate existing ones
+    const all = [...existing, ...added].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    await writeJson(filePath, all);
+  });
+
+  return chatMessages;
+}
+
+export async function updateMessage(
+  projectId: string,
+  messageId: string,
+  updates: MessageUpdate
+): Promise<void> {
+  const filePath = messagesPath(projectId);
+  await withFileLock(filePath, async () => {
+    const messages = (await readJson<Stored<ChatMessage>[]>(filePath)) || [];
+    const index = messages.findIndex((message) => message.id === messageId);
+    if (index === -1) {
+      throw new Error(`Message ${messageId} not found`);
+    }
+    messages[index] = { ...messages[index], ...definedOnly(updates) };
+    await writeJson(filePath, messages);
+  });
+}
+
+// Messages are appended in creation order, so file order is chronological
+export async function getMessages(projectId: string): Promise<ChatMessage[]> {
+  const messages = await readJson<Stored<ChatMessage>[]>(messagesPath(projectId));
+  return (messages || []).map(toMessage);
+}
+
+export async function getRecentMessages(
+  projectId: string,
+  limit: number = 20
+): Promise<ChatMessage[]> {
+  const messages = await getMessages(projectId);
+  return messages.slice(-limit);
+}
+
+// ============ Renders ============
+
+export async function saveRender(render: RenderJob): Promise<void> {
+  const filePath = renderPath(render.renderId);
+  await withFileLock(filePath, () => writeJson(filePath, render));
+}
+
+export async function updateRender(renderId: string, updates: RenderJobUpdate): Promise<void> {
+  const filePath = renderPath(renderId);
+  await withFileLock(filePath, async () => {
+    const data = await readJson<Stored<RenderJob>>(filePath);
+    if (!data) {
+      throw new Error(`Render ${renderId} not found`);
+    }
+    await writeJson(filePath, { ...data, ...definedOnly(updates) });
+  });
+}
+
+export async function getRender(renderId: string): Promise<RenderJob | null> {
+  const data = await readJson<Stored<RenderJob>>(renderPath(renderId));
+  return data ? toRender(data) : null;
+}
+
+async function readAllRenders(): Promise<RenderJob[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(RENDERS_DIR);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const renders = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => readJson<Stored<RenderJob>>(path.join(RENDERS_DIR, file)))
+  );
+
+  return renders
+    .filter((data): data is Stored<RenderJob> => data !== null)
+    .map(toRender)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+export async function listProjectRenders(projectId: string, limit: number = 50): Promise<RenderJob[]> {
+  const renders = await readAllRenders();
+  return renders
+    .filter((render) => render.projectId === projectId)
+    .slice(0, limit);
+}
+
+export async function listUnfinishedRenders(): Promise<RenderJob[]> {
+  const renders = await readAllRenders();
+  return renders.filter((render) => render.status === 'pending' || render.status === 'running');
+}
+
+// ============ Render Batches ============
+
+export async function saveBatch(batch: RenderBatch): Promise<void> {
+  const filePath = batchPath(batch.batchId);
+  await withFileLock(filePath, () => writeJson(filePath, batch));
+}
+
+export async function getBatch(batchId: string): Promise<RenderBatch | null> {
+  const data = await readJson<Stored<RenderBatch>>(batchPath(batchId));
+  return data ? toBatch(data) : null;
+}
+
+async function readAllBatches(): Promise<RenderBatch[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(RENDER_BATCHES_DIR);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const batches = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => readJson<Stored<RenderBatch>>(path.join(RENDER_BATCHES_DIR, file)))
+  );
+
+  return batches
+    .filter((data): data is Stored<RenderBatch> => data !== null)
+    .map(toBatch)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+export async function listProjectBatches(projectId: string, limit: number = 50): Promise<RenderBatch[]> {
+  const batches = await readAllBatches();
+  return batches
+    .filter((batch) => batch.projectId === projectId)
+    .slice(0, limit);
+}
+
+export async function listUnfinishedBatches(): Promise<RenderBatch[]> {
+  const batches = await readAllBatches();
+  return batches.filter((batch) => batch.status === 'running');
+}
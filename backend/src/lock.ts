@@ -0,0 +1,22 @@
+/**
+ * Create a lock that serializes async work per key
+ * Work for different keys runs concurrently; work for the same key runs in call order
+ */
+export function createKeyedLock(): <T>(key: string, fn: () => Promise<T>) => Promise<T> {
+  const pending = new Map<string, Promise<unknown>>();
+
+  return <T>(key: string, fn: () => Promise<T>): Promise<T> => {
+    const previous = pending.get(key) || Promise.resolve();
+    const next = previous.catch(() => {}).then(fn);
+    pending.set(key, next);
+
+    const release = () => {
+      if (pending.get(key) === next) {
+        pending.delete(key);
+      }
+    };
+    next.then(release, release);
+
+    return next;
+  };
+}
@@ -5,15 +5,23 @@ import {
   updateProject as updateProjectInDb,
   updateProjectLastOpened,
   listProjects as listProjectsFromDb,
+  listSharedProjects,
   deleteProject as deleteProjectFromDb,
   getMessages,
   getRecentMessages,
-} from './firestore.js';
+  saveMessages,
+} from './database.js';
 import {
   initializeProjectRepo,
+  copyProjectRepo,
   deleteProjectRepo,
 } from './storage.js';
-import type { Project, ChatMessage } from './types.js';
+import { blobStore } from './blobStore.js';
+import { createProjectArchive, extractProjectArchive } from './archive.js';
+import { putAttachment } from './attachments.js';
+import { putProjectAsset } from './assets.js';
+import type { AuthUser } from './auth.js';
+import type { Project, ChatMessage, CopiedChatMessage, Collaborator, CompositionInfo, ProjectRole, VideoSettings } from './types.js';
 
 /**
  * Create a new project with initialized git repo
@@ -29,7 +37,7 @@ export async function createProject(data: {
   // Initialize git repo in Cloud Storage with the project ID
   const { gitRepoPath, commitSha } = await initializeProjectRepo(projectId);
 
-  // Create project in Firestore with the same ID
+  // Create project record with the same ID
   const project = await createProjectInDb({
     id: projectId,
     name: data.name,
@@ -42,6 +50,129 @@ export async function createProject(data: {
   return project;
 }
 
+/**
+ * Duplicate a project: copies its repo (src/ and git history) and optionally its chat history
+ * Returns null if the source project doesn't exist
+ */
+export async function duplicateProject(
+  sourceProjectId: string,
+  options: {
+    name?: string;
+    includeMessages?: boolean;
+    userId?: string;
+  } = {}
+): Promise<Project | null> {
+  const source = await getProjectFromDb(sourceProjectId);
+  if (!source) return null;
+
+  const projectId = uuidv4();
+  const gitRepoPath = await copyProjectRepo(sourceProjectId, projectId);
+
+  const project = await createProjectInDb({
+    id: projectId,
+    name: options.name || `Copy of ${source.name}`,
+    description: source.description,
+    userId: options.userId || source.userId,
+    gitRepoPath,
+    currentCommitSha: source.currentCommitSha,
+    forkedFrom: sourceProjectId,
+    videoSettings: source.videoSettings,
+  });
+
+  // Copied messages keep their commit SHAs, which stay valid since git history was copied too
+  if (options.includeMessages) {
+    const messages = await getMessages(sourceProjectId);
+    await saveMessages(
+      projectId,
+      messages.map(({ id: _id, projectId: _projectId, ...message }) => message)
+    );
+  }
+
+  console.log(`Duplicated project ${sourceProjectId} as ${projectId}`);
+  return project;
+}
+
+/**
+ * Export a project as a portable .tar.gz archive
+ * Returns null if the project doesn't exist
+ */
+export async function exportProject(projectId: string): Promise<Buffer | null> {
+  const project = await getProjectFromDb(projectId);
+  if (!project) return null;
+
+  const messages = await getMessages(projectId);
+  return createProjectArchive(project, messages);
+}
+
+/**
+ * Recreate a project from an archive produced by exportProject
+ * Throws InvalidArchiveError for malformed archives
+ */
+export async function importProject(
+  archive: Buffer,
+  options: { name?: string; userId?: string } = {}
+): Promise<Project> {
+  const extracted = await extractProjectArchive(archive);
+
+  try {
+    const { manifest } = extracted;
+    const projectId = uuidv4();
+
+    // Git history isn't part of the archive, so the project starts from a fresh commit of src/
+    const { gitRepoPath, commitSha } = await initializeProjectRepo(projectId, {
+      srcDir: extracted.srcDir,
+      commitMessage: `Import "${manifest.project.name}"`,
+    });
+
+    const project = await createProjectInDb({
+      id: projectId,
+      name: options.name || manifest.project.name,
+      description: manifest.project.description,
+      userId: options.userId,
+      gitRepoPath,
+      currentCommitSha: commitSha,
+      videoSettings: manifest.project.videoSettings,
+    });
+
+    // Commit SHAs refer to the source repo's history, so undo/redo links are dropped.
+    // Timestamps are nudged to be strictly increasing so getMessages returns the archive order
+    let previousTime = 0;
+    const messages: CopiedChatMessage[] = extracted.messages.map((message) => {
+      const {
+        id: _id,
+        commitSha: _commitSha,
+        beforeCommitSha: _beforeCommitSha,
+        undone: _undone,
+        ...rest
+      } = message;
+      const parsedTime = new Date(message.createdAt).getTime();
+      const time = Math.max(Number.isNaN(parsedTime) ? 0 : parsedTime, previousTime + 1);
+      previousTime = time;
+      return { ...rest, createdAt: new Date(time) };
+    });
+    if (messages.length > 0) {
+      await saveMessages(projectId, messages);
+    }
+
+    for (const [fileName, content] of extracted.renderMetadata) {
+      await blobStore.put(`${gitRepoPath}/renders/${fileName}`, content, 'application/json');
+    }
+
+    for (const [attachmentId, data] of extracted.attachments) {
+      await putAttachment(projectId, attachmentId, data);
+    }
+
+    for (const [name, data] of extracted.assets) {
+      await putProjectAsset(projectId, name, data);
+    }
+
+    console.log(`Imported project ${manifest.project.id} as ${projectId} (${messages.length} messages)`);
+    return project;
+  } finally {
+    await extracted.cleanup();
+  }
+}
+
 /**
  * Get a project by ID
  */
@@ -68,10 +199,18 @@ export async function getProjectWithHistory(projectId: string): Promise<{
 }
 
 /**
- * List all projects for a user (or all if no user specified)
+ * List projects a user owns or has been invited to, most recently opened first
  */
-export async function listProjects(userId?: string): Promise<Project[]> {
-  return listProjectsFromDb(userId);
+export async function listProjects(user: AuthUser): Promise<Project[]> {
+  const [owned, shared] = await Promise.all([
+    listProjectsFromDb(user.id),
+    listSharedProjects(getMemberKeys(user)),
+  ]);
+
+  const ownedIds = new Set(owned.map((project) => project.id));
+  return [...owned, ...shared.filter((project) => !ownedIds.has(project.id))]
+    .sort((a, b) => b.lastOpenedAt.getTime() - a.lastOpenedAt.getTime())
+    .slice(0, 50);
 }
 
 /**
@@ -85,6 +224,8 @@ export async function updateProject(
     currentCommitSha?: string;
     thumbnailUrl?: string;
     agentSessionId?: string;
+    compositions?: CompositionInfo[];
+    videoSettings?: VideoSettings;
   }
 ): Promise<void> {
   await updateProjectInDb(projectId, updates);
@@ -102,7 +243,7 @@ export async function deleteProject(projectId: string): Promise<void> {
   // Delete git repo from Cloud Storage
   await deleteProjectRepo(projectId);
 
-  // Delete from Firestore (including messages)
+  // Delete project record (including messages)
   await deleteProjectFromDb(projectId);
 }
 
@@ -142,3 +283,109 @@ ${formattedMessages}
 The code has been restored to the latest saved state. Continue helping the user from where you left off.
 `;
 }
+
+// ============ Sharing ============
+
+const ROLE_RANK: Record<ProjectRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+export function isProjectRole(value: unknown): value is ProjectRole {
+  return typeof value === 'string' && value in ROLE_RANK;
+}
+
+// Keys a user can match in Project.memberKeys: their ID, and their email for pending invites
+function getMemberKeys(user: AuthUser): string[] {
+  const keys = [`user:${user.id}`];
+  if (user.email) {
+    keys.push(`email:${user.email.toLowerCase()}`);
+  }
+  return keys;
+}
+
+function getCollaboratorKey(collaborator: Pick<Collaborator, 'userId' | 'email'>): string {
+  return collaborator.userId
+    ? `user:${collaborator.userId}`
+    : `email:${collaborator.email!.toLowerCase()}`;
+}
+
+/**
+ * Get a user's role on a project, or null if they have no access
+ */
+export function getProjectRole(project: Project, user: AuthUser): ProjectRole | null {
+  if (project.userId === user.id) return 'owner';
+
+  // Highest role wins if the user was invited both by ID and by email
+  const keys = getMemberKeys(user);
+  let role: ProjectRole | null = null;
+  for (const collaborator of project.collaborators || []) {
+    if (keys.includes(getCollaboratorKey(collaborator)) &&
+        (!role || ROLE_RANK[collaborator.role] > ROLE_RANK[role])) {
+      role = collaborator.role;
+    }
+  }
+  return role;
+}
+
+/**
+ * Check whether a user has at least the given role on a project
+ */
+export function hasProjectRole(project: Project, user: AuthUser, required: ProjectRole): boolean {
+  const role = getProjectRole(project, user);
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Invite a collaborator by user ID or email, or change the role of an existing one
+ * Returns null if the project doesn't exist
+ */
+export async function addCollaborator(
+  projectId: string,
+  invite: { userId?: string; email?: string; role: ProjectRole },
+  addedBy: string
+): Promise<Collaborator | null> {
+  const project = await getProjectFromDb(projectId);
+  if (!project) return null;
+
+  const collaborator: Collaborator = {
+    ...(invite.userId ? { userId: invite.userId } : { email: invite.email!.toLowerCase() }),
+    role: invite.role,
+    addedBy,
+    addedAt: new Date(),
+  };
+  const key = getCollaboratorKey(collaborator);
+  const collaborators = [
+    ...(project.collaborators || []).filter((existing) => getCollaboratorKey(existing) !== key),
+    collaborator,
+  ];
+
+  await updateProjectInDb(projectId, {
+    collaborators,
+    memberKeys: collaborators.map(getCollaboratorKey),
+  });
+
+  console.log(`Added ${key} as ${invite.role} on project ${projectId}`);
+  return collaborator;
+}
+
+/**
+ * Remove a collaborator, identified by user ID or email
+ * Returns false if no such collaborator exists
+ */
+export async function removeCollaborator(projectId: string, member: string): Promise<boolean> {
+  const project = await getProjectFromDb(projectId);
+  if (!project) return false;
+
+  const memberKeys = [`user:${member}`, `email:${member.toLowerCase()}`];
+  const collaborators = (project.collaborators || [])
+    .filter((collaborator) => !memberKeys.includes(getCollaboratorKey(collaborator)));
+  if (collaborators.length === (project.collaborators || []).length) {
+    return false;
+  }
+
+  await updateProjectInDb(projectId, {
+    collaborators,
+    memberKeys: collaborators.map(getCollaboratorKey),
+  });
+
+  console.log(`Removed ${member} from project ${projectId}`);
+  return true;
+}
@@ -1,55 +1,35 @@
 import * as k8s from '@kubernetes/client-node';
 import { v4 as uuidv4 } from 'uuid';
-import { bucket } from './storage.js';
+import { blobStore } from './blobStore.js';
+import { DEFAULT_CAPTIONS_SOURCE } from './captions.js';
+import type { RenderEvent, RenderProgressEvent } from './protocol.js';
+import { saveRender, updateRender, getRender, listProjectRenders, listUnfinishedRenders } from './database.js';
+import type { RenderJob, RenderJobUpdate, VideoSettings } from './types.js';
 
 // Types
-export interface RenderJobOptions {
-  projectId: string;
-  compositionId?: string;
-  format?: 'mp4' | 'webm';
-}
-
-export interface RenderJob {
-  renderId: string;
-  projectId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
-  createdAt: Date;
-  completedAt?: Date;
-  outputUrl?: string;
-  error?: string;
-  progress?: number;
-}
-
-// Event types for WebSocket notifications
-export interface RenderStartEvent {
-  type: 'render:started';
-  renderId: string;
-  projectId: string;
-}
-
-export interface RenderProgressEvent {
-  type: 'render:progress';
-  renderId: string;
-  progress: number;
-}
 
-export interface RenderCompleteEvent {
-  type: 'render:complete';
-  renderId: string;
-  projectId: string;
-  outputUrl: string;
-}
+// 'burn' renders the composition's Captions as they appear in the preview, 'sidecar' hides them and
+// uploads .srt and .vtt files next to the video instead, 'both' does both
+export type RenderCaptionsMode = 'burn' | 'sidecar' | 'both';
+export const RENDER_CAPTIONS_MODES: RenderCaptionsMode[] = ['burn', 'sidecar', 'both'];
 
-export interface RenderFailedEvent {
-  type: 'render:failed';
-  renderId: string;
+export interface RenderJobOptions {
   projectId: string;
-  error: string;
+  compositionId: string;  // See compositions.ts for the project's default
+  format?: 'mp4' | 'webm';
+  captions?: RenderCaptionsMode;
+  captionsSource?: string;  // Caption file asset for sidecar files (default captions.json)
+  captionsOffsetSeconds?: number;  // Where the captioned audio starts in the video
+  videoSettings?: VideoSettings;  // The project's settings, so the render matches the preview
+  inputProps?: Record<string, unknown>;  // Merged over the composition's defaultProps
+  batchId?: string;  // Render batch this render is a row of (see renderBatches.ts)
+  renderId?: string;  // Chosen by the caller, to match the render's events before the job is created
 }
 
-export type RenderEvent = RenderStartEvent | RenderProgressEvent | RenderCompleteEvent | RenderFailedEvent;
+export type { RenderJob };
 
-// Store active render jobs in memory (use Firestore in production for persistence)
+// Jobs being watched by this backend, kept in memory for progress; every job is also saved to the
+// database (see database.ts), which keeps the project's render history across restarts
 const activeJobs = new Map<string, RenderJob>();
 
 // Event listeners for WebSocket notifications
@@ -67,10 +47,12 @@ export function removeRenderEventListener(listener: RenderEventListener): void {
   }
 }
 
-function emitRenderEvent(event: RenderEvent): void {
+function emitRenderEvent(event: RenderEvent, renderJob = activeJobs.get(event.renderId)): void {
+  const batchId = renderJob?.batchId;
+  const tagged: RenderEvent = batchId ? { ...event, batchId } : event;
   eventListeners.forEach(listener => {
     try {
-      listener(event);
+      listener(tagged);
     } catch (error) {
       console.error('Error in render event listener:', error);
     }
@@ -93,16 +75,19 @@ const GCS_BUCKET = process.env.STORAGE_BUCKET || 'storydream-data';
 const RENDER_IMAGE = process.env.RENDER_CONTAINER_IMAGE ||
   'europe-north1-docker.pkg.dev/saltfish-434012/storydream/render-container:latest';
 
+// Stop watching a render job after 15 minutes
+const RENDER_TIMEOUT_MS = 15 * 60 * 1000;
+
 /**
  * Create a new render job
  */
 export async function createRenderJob(options: RenderJobOptions): Promise<RenderJob> {
-  const renderId = uuidv4();
-  const { projectId, compositionId = 'MyVideo', format = 'mp4' } = options;
+  const renderId = options.renderId || uuidv4();
+  const { projectId, compositionId, format = 'mp4', captions = 'burn' } = options;
 
   console.log(`Creating render job ${renderId} for project ${projectId}...`);
 
-  const jobName = `render-${renderId.slice(0, 8)}`;
+  const jobName = getJobName(renderId);
 
   const job: k8s.V1Job = {
     apiVersion: 'batch/v1',
@@ -114,6 +99,7 @@ export async function createRenderJob(options: RenderJobOptions): Promise<Render
         app: 'storydream-render',
         'project-id': projectId,
         'render-id': renderId,
+        ...(options.batchId && { 'batch-id': options.batchId }),
       },
     },
     spec: {
@@ -141,6 +127,15 @@ export async function createRenderJob(options: RenderJobOptions): Promise<Render
                 { name: 'GCS_BUCKET', value: GCS_BUCKET },
                 { name: 'COMPOSITION_ID', value: compositionId },
                 { name: 'OUTPUT_FORMAT', value: format },
+                { name: 'CAPTIONS_MODE', value: captions },
+                { name: 'CAPTIONS_SOURCE', value: options.captionsSource || DEFAULT_CAPTIONS_SOURCE },
+                { name: 'CAPTIONS_OFFSET', value: String(options.captionsOffsetSeconds || 0) },
+                ...(options.videoSettings
+                  ? [{ name: 'VIDEO_SETTINGS', value: JSON.stringify(options.videoSettings) }]
+                  : []),
+                ...(options.inputProps
+                  ? [{ name: 'INPUT_PROPS', value: JSON.stringify(options.inputProps) }]
+                  : []),
               ],
               resources: {
                 requests: { cpu: '2', memory: '4Gi' },
@@ -164,12 +159,21 @@ export async function createRenderJob(options: RenderJobOptions): Promise<Render
   const renderJob: RenderJob = {
     renderId,
     projectId,
+    compositionId,
+    format,
     status: 'pending',
     createdAt: new Date(),
     progress: 0,
+    ...(options.batchId && { batchId: options.batchId }),
   };
 
   activeJobs.set(renderId, renderJob);
+  try {
+    await saveRender(renderJob);
+  } catch (error) {
+    // The K8s Job is running either way, so keep watching it; it just won't be in the history
+    console.error(`Failed to save render job ${renderId}:`, error);
+  }
 
   // Emit started event
   emitRenderEvent({
@@ -184,24 +188,30 @@ export async function createRenderJob(options: RenderJobOptions): Promise<Render
   return renderJob;
 }
 
+function getJobName(renderId: string): string {
+  return `render-${renderId.slice(0, 8)}`;
+}
+
 /**
- * Read render metadata from GCS
+ * Read render metadata written by the render container
  */
 async function readRenderMetadata(projectId: string, renderId: string): Promise<{
   status: string;
+  timestamp?: string;
+  format?: 'mp4' | 'webm';
   outputUrl?: string;
+  captionsUrls?: { srt: string; vtt: string };
+  renderDurationMs?: number;
   error?: string;
 } | null> {
   try {
     const metaPath = `repos/${projectId}/renders/${renderId}.meta.json`;
-    const file = bucket.file(metaPath);
-    const [exists] = await file.exists();
+    const content = await blobStore.get(metaPath);
 
-    if (!exists) {
+    if (!content) {
       return null;
     }
 
-    const [content] = await file.download();
     return JSON.parse(content.toString());
   } catch (error) {
     console.error(`Failed to read render metadata:`, error);
@@ -209,10 +219,82 @@ async function readRenderMetadata(projectId: string, renderId: string): Promise<
   }
 }
 
+// Progress the render container writes every few seconds while the Job runs
+type RenderProgress = Omit<RenderProgressEvent, 'type' | 'renderId' | 'projectId' | 'batchId'>;
+type RenderProgressReport = RenderProgress & { timestamp: string };
+
+function getProgressPath(projectId: string, renderId: string): string {
+  return `repos/${projectId}/renders/${renderId}.progress.json`;
+}
+
+/**
+ * Read the latest progress reported by the render container, or null before its first report
+ */
+async function readRenderProgress(projectId: string, renderId: string): Promise<RenderProgressReport | null> {
+  try {
+    const content = await blobStore.get(getProgressPath(projectId, renderId));
+    return content ? JSON.parse(content.toString()) : null;
+  } catch (error) {
+    console.error(`Failed to read render progress:`, error);
+    return null;
+  }
+}
+
+/**
+ * Apply changes to a render job and save them
+ * A failed save is logged rather than thrown, so watching and events carry on
+ */
+async function updateRenderJob(renderJob: RenderJob, updates: RenderJobUpdate): Promise<void> {
+  Object.assign(renderJob, updates);
+  try {
+    await updateRender(renderJob.renderId, updates);
+  } catch (error) {
+    console.error(`Failed to save render job ${renderJob.renderId}:`, error);
+  }
+}
+
+/**
+ * Mark a render job completed or failed, save it and stop watching it
+ * Does nothing if the job already finished (e.g. it was cancelled while a poll was in flight)
+ */
+async function finishRenderJob(
+  renderJob: RenderJob,
+  result: { status: 'completed'; outputUrl: string; captionsUrls?: { srt: string; vtt: string }; renderDurationMs?: number }
+    | { status: 'failed'; error: string }
+): Promise<void> {
+  if (activeJobs.get(renderJob.renderId) !== renderJob) {
+    return;
+  }
+  activeJobs.delete(renderJob.renderId);
+
+  const { renderId, projectId } = renderJob;
+  await updateRenderJob(renderJob, {
+    ...result,
+    completedAt: new Date(),
+    ...(result.status === 'completed' && { progress: 100 }),
+  });
+  renderJob.stage = undefined;
+
+  // The progress file is only needed while the Job runs
+  blobStore.delete(getProgressPath(projectId, renderId)).catch((error) => {
+    console.error(`Failed to delete progress of render job ${renderId}:`, error);
+  });
+
+  // The job is no longer active, so pass it for its batchId
+  emitRenderEvent(
+    result.status === 'completed'
+      ? { type: 'render:complete', renderId, projectId, outputUrl: result.outputUrl }
+      : { type: 'render:failed', renderId, projectId, error: result.error },
+    renderJob
+  );
+}
+
 /**
  * Watch a K8s job and update render status
  */
-async function watchJobStatus(renderId: string, jobName: string): Promise<void> {
+async function watchJobStatus(renderId: string, jobName: string, timeoutMs: number = RENDER_TIMEOUT_MS): Promise<void> {
+  let lastReportTimestamp: string | undefined;
+
   const pollInterval = setInterval(async () => {
     const renderJob = activeJobs.get(renderId);
     if (!renderJob) {
@@ -224,50 +306,48 @@ async function watchJobStatus(renderId: string, jobName: string): Promise<void>
       const job = await batchApi.readNamespacedJob({ name: jobName, namespace: NAMESPACE });
 
       if (job.status?.succeeded && job.status.succeeded > 0) {
-        // Job completed successfully - read metadata from GCS for output URL
+        // Job completed successfully - read metadata from storage for output URL
         clearInterval(pollInterval);
 
         const metadata = await readRenderMetadata(renderJob.projectId, renderId);
 
-        renderJob.status = 'completed';
-        renderJob.completedAt = new Date();
-        renderJob.progress = 100;
-        renderJob.outputUrl = metadata?.outputUrl ||
-          `https://storage.googleapis.com/${GCS_BUCKET}/repos/${renderJob.projectId}/renders/${renderId}.mp4`;
-
         console.log(`Render job ${renderId} completed successfully`);
-        emitRenderEvent({
-          type: 'render:complete',
-          renderId,
-          projectId: renderJob.projectId,
-          outputUrl: renderJob.outputUrl,
+        await finishRenderJob(renderJob, {
+          status: 'completed',
+          outputUrl: metadata?.outputUrl ||
+            `https://storage.googleapis.com/${GCS_BUCKET}/repos/${renderJob.projectId}/renders/${renderId}.mp4`,
+          captionsUrls: metadata?.captionsUrls,
+          renderDurationMs: metadata?.renderDurationMs,
         });
       } else if (job.status?.failed && job.status.failed > 0) {
         // Job failed - try to get error from metadata
         clearInterval(pollInterval);
 
         const metadata = await readRenderMetadata(renderJob.projectId, renderId);
+        const error = metadata?.error || 'Render job failed - check K8s logs for details';
 
-        renderJob.status = 'failed';
-        renderJob.error = metadata?.error || 'Render job failed - check K8s logs for details';
-
-        console.error(`Render job ${renderId} failed: ${renderJob.error}`);
-        emitRenderEvent({
-          type: 'render:failed',
-          renderId,
-          projectId: renderJob.projectId,
-          error: renderJob.error,
-        });
+        console.error(`Render job ${renderId} failed: ${error}`);
+        await finishRenderJob(renderJob, { status: 'failed', error });
       } else if (job.status?.active && job.status.active > 0) {
-        // Job is running
-        if (renderJob.status !== 'running') {
-          renderJob.status = 'running';
-          renderJob.progress = 10; // Initial progress when running
+        // Job is running - pass on the progress the render container reports
+        const report = await readRenderProgress(renderJob.projectId, renderId);
+        const wasRunning = renderJob.status === 'running';
+        if (!wasRunning) {
+          await updateRenderJob(renderJob, { status: 'running', progress: 0 });
+        }
+
+        if (!wasRunning || (report && report.timestamp !== lastReportTimestamp)) {
+          lastReportTimestamp = report?.timestamp;
+          const { timestamp, ...progress }: RenderProgress & { timestamp?: string } = report ?? { progress: 0 };
+          // Progress changes too often to save, so it's only kept on the watched job
+          renderJob.progress = progress.progress;
+          renderJob.stage = progress.stage;
 
           emitRenderEvent({
             type: 'render:progress',
             renderId,
-            progress: 10,
+            projectId: renderJob.projectId,
+            ...progress,
           });
         }
       }
@@ -275,75 +355,135 @@ async function watchJobStatus(renderId: string, jobName: string): Promise<void>
       // Job might have been deleted
       if (error.statusCode === 404) {
         console.log(`Job ${jobName} not found, checking metadata...`);
+        clearInterval(pollInterval);
 
         // Check if we have metadata file indicating completion
         const metadata = await readRenderMetadata(renderJob.projectId, renderId);
 
         if (metadata?.status === 'completed' && metadata.outputUrl) {
-          renderJob.status = 'completed';
-          renderJob.completedAt = new Date();
-          renderJob.progress = 100;
-          renderJob.outputUrl = metadata.outputUrl;
-
-          emitRenderEvent({
-            type: 'render:complete',
-            renderId,
-            projectId: renderJob.projectId,
-            outputUrl: renderJob.outputUrl,
+          await finishRenderJob(renderJob, {
+            status: 'completed',
+            outputUrl: metadata.outputUrl,
+            captionsUrls: metadata.captionsUrls,
+            renderDurationMs: metadata.renderDurationMs,
           });
         } else if (metadata?.status === 'failed') {
-          renderJob.status = 'failed';
-          renderJob.error = metadata.error || 'Render failed';
-
-          emitRenderEvent({
-            type: 'render:failed',
-            renderId,
-            projectId: renderJob.projectId,
-            error: renderJob.error,
-          });
+          await finishRenderJob(renderJob, { status: 'failed', error: metadata.error || 'Render failed' });
         } else {
-          renderJob.status = 'failed';
-          renderJob.error = 'Job not found and no metadata available';
+          await finishRenderJob(renderJob, { status: 'failed', error: 'Job not found and no metadata available' });
         }
-
-        clearInterval(pollInterval);
       } else {
         console.error(`Error watching job ${jobName}:`, error.body?.message || error.message);
       }
     }
   }, 5000); // Poll every 5 seconds
 
-  // Stop watching after 15 minutes regardless
+  // Stop watching after the timeout regardless
   setTimeout(() => {
     clearInterval(pollInterval);
     const renderJob = activeJobs.get(renderId);
-    if (renderJob && renderJob.status === 'pending' || renderJob?.status === 'running') {
-      renderJob.status = 'failed';
-      renderJob.error = 'Render job timed out';
-      emitRenderEvent({
-        type: 'render:failed',
-        renderId,
-        projectId: renderJob.projectId,
-        error: 'Render job timed out',
+    if (renderJob) {
+      finishRenderJob(renderJob, { status: 'failed', error: 'Render job timed out' }).catch((error) => {
+        console.error(`Failed to time out render job ${renderId}:`, error);
       });
     }
-  }, 15 * 60 * 1000);
+  }, timeoutMs);
+}
+
+/**
+ * Watch the render jobs that were still pending or running when the backend last stopped
+ * K8s Jobs outlive the backend, so their results are picked up as if it had never restarted
+ */
+export async function resumeRenderJobs(): Promise<void> {
+  const unfinished = await listUnfinishedRenders();
+
+  for (const renderJob of unfinished) {
+    if (activeJobs.has(renderJob.renderId)) continue;
+
+    activeJobs.set(renderJob.renderId, renderJob);
+    // Keep the original deadline, but poll at least a few times to read the outcome of old jobs
+    const remainingMs = renderJob.createdAt.getTime() + RENDER_TIMEOUT_MS - Date.now();
+    watchJobStatus(renderJob.renderId, getJobName(renderJob.renderId), Math.max(remainingMs, 60 * 1000));
+  }
+
+  if (unfinished.length > 0) {
+    console.log(`Resumed watching ${unfinished.length} render jobs`);
+  }
 }
 
 /**
  * Get a render job by ID
  */
-export function getRenderJob(renderId: string): RenderJob | undefined {
-  return activeJobs.get(renderId);
+export async function getRenderJob(renderId: string): Promise<RenderJob | null> {
+  return activeJobs.get(renderId) ?? getRender(renderId);
 }
 
 /**
- * Get all render jobs for a project
+ * Get the progress of a render this backend is watching, or undefined once it's finished
  */
-export function getProjectRenders(projectId: string): RenderJob[] {
-  return Array.from(activeJobs.values())
-    .filter(job => job.projectId === projectId)
-    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+export function getActiveRenderProgress(renderId: string): number | undefined {
+  return activeJobs.get(renderId)?.progress;
+}
+
+// Renders from before render jobs were saved only left their metadata in storage
+const importedProjects = new Set<string>();
+
+/**
+ * Save render jobs for the project's render metadata files that have no database record
+ * Runs once per project and backend process
+ */
+async function importRenderHistory(projectId: string): Promise<void> {
+  if (importedProjects.has(projectId)) {
+    return;
+  }
+  importedProjects.add(projectId);
+
+  const prefix = `repos/${projectId}/renders/`;
+  const metaPaths = (await blobStore.list(prefix)).filter(
+    (blobPath) => blobPath.endsWith('.meta.json') && !blobPath.slice(prefix.length).includes('/')
+  );
+
+  for (const metaPath of metaPaths) {
+    const renderId = metaPath.slice(prefix.length, -'.meta.json'.length);
+    if (await getRender(renderId)) continue;
+
+    const metadata = await readRenderMetadata(projectId, renderId);
+    if (!metadata || (metadata.status !== 'completed' && metadata.status !== 'failed')) continue;
+
+    const completedAt = metadata.timestamp ? new Date(metadata.timestamp) : new Date();
+    await saveRender({
+      renderId,
+      projectId,
+      format: metadata.format,
+      status: metadata.status === 'completed' ? 'completed' : 'failed',
+      createdAt: new Date(completedAt.getTime() - (metadata.renderDurationMs ?? 0)),
+      completedAt,
+      outputUrl: metadata.outputUrl,
+      error: metadata.error,
+      progress: metadata.status === 'completed' ? 100 : undefined,
+      renderDurationMs: metadata.renderDurationMs,
+      captionsUrls: metadata.captionsUrls,
+    });
+  }
+
+  if (metaPaths.length > 0) {
+    console.log(`Checked ${metaPaths.length} render metadata files of project ${projectId} for history`);
+  }
+}
+
+/**
+ * Get a project's render history, newest first
+ */
+export async function getProjectRenders(projectId: string): Promise<RenderJob[]> {
+  try {
+    await importRenderHistory(projectId);
+  } catch (error) {
+    console.error(`Failed to import render history for project ${projectId}:`, error);
+  }
+
+  // Watched jobs have fresher progress than their saved copies
+  const renders = await listProjectRenders(projectId);
+  return renders.map((render) => activeJobs.get(render.renderId) ?? render);
 }
 
 /**
@@ -351,28 +491,18 @@ export function getProjectRenders(projectId: string): RenderJob[] {
  */
 export async function cancelRenderJob(renderId: string): Promise<boolean> {
   const renderJob = activeJobs.get(renderId);
-  if (!renderJob || renderJob.status === 'completed' || renderJob.status === 'failed') {
+  if (!renderJob) {
     return false;
   }
 
-  const jobName = `render-${renderId.slice(0, 8)}`;
-
   try {
     await batchApi.deleteNamespacedJob({
-      name: jobName,
+      name: getJobName(renderId),
       namespace: NAMESPACE,
       propagationPolicy: 'Background',
     });
 
-    renderJob.status = 'failed';
-    renderJob.error = 'Cancelled by user';
-
-    emitRenderEvent({
-      type: 'render:failed',
-      renderId,
-      projectId: renderJob.projectId,
-      error: 'Cancelled by user',
-    });
+    await finishRenderJob(renderJob, { status: 'failed', error: 'Cancelled by user' });
 
     console.log(`Render job ${renderId} cancelled`);
     return true;
@@ -386,7 +516,7 @@ export async function cancelRenderJob(renderId: string): Promise<boolean> {
  * Get render job logs from K8s
  */
 export async function getRenderJobLogs(renderId: string): Promise<string | null> {
-  const renderJob = activeJobs.get(renderId);
+  const renderJob = await getRenderJob(renderId);
   if (!renderJob) {
     return null;
   }
@@ -0,0 +1,423 @@
+import { v4 as uuidv4 } from 'uuid';
+import { blobStore } from './blobStore.js';
+import { parseInputProps } from './compositions.js';
+import { saveBatch, getBatch, listProjectBatches, listUnfinishedBatches } from './database.js';
+import { createKeyedLock } from './lock.js';
+import { createRenderJob, cancelRenderJob, getRenderJob, getActiveRenderProgress, addRenderEventListener } from './render.js';
+import type { RenderEvent } from './protocol.js';
+import type { Project, RenderBatch, RenderBatchRow, RenderBatchOptions } from './types.js';
+
+// A render batch renders one composition once per row of a dataset, with the row as its inputProps,
+// for personalized variants of the same video. Rows are rendered a few at a time, and the batch
+// keeps a manifest (row -> status and output URL) in storage next to the renders.
+
+const MAX_BATCH_ROWS = 100;
+// A batch is saved as one database record, and Firestore documents are limited to 1 MiB
+const MAX_BATCH_DATASET_BYTES = 512 * 1024;
+const BATCH_CONCURRENCY = Number(process.env.RENDER_BATCH_CONCURRENCY) || 3;
+
+export type { RenderBatch, RenderBatchRow };
+
+// Batches this backend runs or has retried, kept in memory for progress; every batch is also saved
+// to the database whenever its rows change, so running batches resume after a restart
+const batches = new Map<string, RenderBatch>();
+// Keep saves of the same batch in order
+const withBatchLock = createKeyedLock();
+// Rows' renders whose K8s Job is still being created, so they can't be cancelled yet
+const creatingRenders = new Set<string>();
+
+// Thrown for datasets that can't be rendered
+export class InvalidBatchDatasetError extends Error {
+  name = 'InvalidBatchDatasetError';
+}
+
+/**
+ * Read a dataset as rows of props: JSON objects, or CSV text with a header row of prop names
+ * CSV values are strings, so number fields in the composition's propsSchema are converted and
+ * empty cells are left out (the composition's defaultProps apply)
+ */
+export function parseBatchDataset(
+  project: Project,
+  compositionId: string,
+  dataset: { rows?: unknown; csv?: unknown }
+): Record<string, unknown>[] {
+  let rows: unknown[];
+  if (typeof dataset.csv === 'string') {
+    rows = csvToRows(dataset.csv, project, compositionId);
+  } else if (Array.isArray(dataset.rows)) {
+    rows = dataset.rows;
+  } else {
+    throw new InvalidBatchDatasetError('Send the dataset as rows (an array of objects) or csv (text with a header row)');
+  }
+
+  if (rows.length === 0 || rows.length > MAX_BATCH_ROWS) {
+    throw new InvalidBatchDatasetError(`A batch needs 1 to ${MAX_BATCH_ROWS} rows`);
+  }
+
+  const parsed = rows.map((row, index) => {
+    try {
+      return parseInputProps(project, compositionId, row);
+    } catch (error) {
+      throw new InvalidBatchDatasetError(`Row ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+  if (JSON.stringify(parsed).length > MAX_BATCH_DATASET_BYTES) {
+    throw new InvalidBatchDatasetError(`The dataset must be smaller than ${MAX_BATCH_DATASET_BYTES / 1024} KB`);
+  }
+  return parsed;
+}
+
+function csvToRows(csv: string, project: Project, compositionId: string): Record<string, unknown>[] {
+  const [header, ...records] = parseCsv(csv);
+  if (!header || header.some((name) => !name.trim())) {
+    throw new InvalidBatchDatasetError('The CSV needs a header row naming a prop in each column');
+  }
+
+  const schema = project.compositions?.find((c) => c.id === compositionId)?.propsSchema ?? {};
+  return records.map((record, index) => {
+    const row: Record<string, unknown> = {};
+    header.forEach((column, i) => {
+      const name = column.trim();
+      const value = record[i] ?? '';
+      if (value === '') return;
+      if (schema[name]?.type === 'number') {
+        const number = Number(value);
+        if (!Number.isFinite(number)) {
+          throw new InvalidBatchDatasetError(`Row ${index + 1}: ${name} must be a number`);
+        }
+        row[name] = number;
+      } else {
+        row[name] = value;
+      }
+    });
+    return row;
+  });
+}
+
+/**
+ * Split CSV text into records of fields (RFC 4180: quoted fields may hold commas, newlines and "")
+ * Blank lines are skipped
+ */
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      if (record.some((value) => value !== '')) records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new InvalidBatchDatasetError('The CSV has an unclosed quote');
+  }
+  record.push(field);
+  if (record.some((value) => value !== '')) records.push(record);
+  return records;
+}
+
+/**
+ * Start a batch: one render of the composition per row, BATCH_CONCURRENCY at a time
+ */
+export function createRenderBatch(
+  projectId: string,
+  compositionId: string,
+  rows: Record<string, unknown>[],
+  options: RenderBatchOptions
+): RenderBatch {
+  const batch: RenderBatch = {
+    batchId: uuidv4(),
+    projectId,
+    compositionId,
+    status: 'running',
+    progress: 0,
+    createdAt: new Date(),
+    options,
+    rows: rows.map((inputProps, index) => ({ index, inputProps, status: 'queued', attempts: 0 })),
+  };
+
+  batches.set(batch.batchId, batch);
+  console.log(`Created render batch ${batch.batchId} for project ${projectId}: ${rows.length} rows of ${compositionId}`);
+
+  startQueuedRows(batch);
+  saveRenderBatch(batch);
+  return batch;
+}
+
+/**
+ * Start queued rows while fewer than BATCH_CONCURRENCY are rendering
+ */
+function startQueuedRows(batch: RenderBatch): void {
+  const active = batch.rows.filter((row) => row.status === 'pending' || row.status === 'running').length;
+  const queued = batch.rows.filter((row) => row.status === 'queued').slice(0, Math.max(0, BATCH_CONCURRENCY - active));
+
+  for (const row of queued) {
+    // Pick the render's ID up front, so its events match the row even before createRenderJob returns
+    const renderId = uuidv4();
+    row.status = 'pending';
+    row.renderId = renderId;
+    row.attempts++;
+    creatingRenders.add(renderId);
+    createRenderJob({
+      ...batch.options,
+      projectId: batch.projectId,
+      compositionId: batch.compositionId,
+      inputProps: row.inputProps,
+      batchId: batch.batchId,
+      renderId,
+    })
+      .then(() => {
+        creatingRenders.delete(renderId);
+        // The batch was cancelled while the render was being created
+        if (row.renderId === renderId && row.status === 'failed') {
+          cancelRenderJob(renderId).catch(() => {});
+        }
+      })
+      .catch((error) => {
+        creatingRenders.delete(renderId);
+        if (row.renderId === renderId && row.status === 'pending') {
+          finishRow(batch, row, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        }
+      });
+  }
+}
+
+function finishRow(
+  batch: RenderBatch,
+  row: RenderBatchRow,
+  result: { status: 'completed'; outputUrl: string } | { status: 'failed'; error: string }
+): void {
+  row.status = result.status;
+  row.outputUrl = result.status === 'completed' ? result.outputUrl : undefined;
+  row.error = result.status === 'failed' ? result.error : undefined;
+  settleBatch(batch);
+}
+
+/**
+ * Start more rows, or mark the batch finished once every row is, and update its manifest
+ */
+function settleBatch(batch: RenderBatch): void {
+  if (batch.rows.every((r) => r.status === 'completed' || r.status === 'failed')) {
+    batch.status = batch.rows.some((r) => r.status === 'failed') ? 'failed' : 'completed';
+    batch.completedAt = new Date();
+    console.log(`Render batch ${batch.batchId} finished: ${batch.status}`);
+  } else {
+    startQueuedRows(batch);
+  }
+
+  saveRenderBatch(batch);
+}
+
+/**
+ * Save the batch to the database and update its manifest
+ */
+function saveRenderBatch(batch: RenderBatch): void {
+  withBatchLock(batch.batchId, () => Promise.all([saveBatch(batch), writeManifest(batch)])).catch((error) => {
+    console.error(`Failed to save render batch ${batch.batchId}:`, error);
+  });
+}
+
+// Follow the batches' renders
+addRenderEventListener((event: RenderEvent) => {
+  const batch = event.batchId ? batches.get(event.batchId) : undefined;
+  // Renders started by an earlier attempt of a row no longer count
+  const row = batch?.rows.find((r) => r.renderId === event.renderId);
+  // Rows cancelled while their render was being created are already finished
+  if (!batch || !row || row.status === 'completed' || row.status === 'failed') return;
+
+  if (event.type === 'render:progress') {
+    row.status = 'running';
+  } else if (event.type === 'render:complete') {
+    finishRow(batch, row, { status: 'completed', outputUrl: event.outputUrl });
+  } else if (event.type === 'render:failed') {
+    finishRow(batch, row, { status: 'failed', error: event.error });
+  }
+});
+
+function getManifestPath(batch: RenderBatch): string {
+  return `repos/${batch.projectId}/renders/batches/${batch.batchId}.json`;
+}
+
+/**
+ * The batch's manifest: each row's props, status and output
+ */
+export function getBatchManifest(batch: RenderBatch) {
+  return {
+    batchId: batch.batchId,
+    projectId: batch.projectId,
+    compositionId: batch.compositionId,
+    status: batch.status,
+    createdAt: batch.createdAt,
+    completedAt: batch.completedAt,
+    rows: batch.rows.map((row) => ({
+      row: row.index + 1,
+      inputProps: row.inputProps,
+      status: row.status,
+      renderId: row.renderId,
+      outputUrl: row.outputUrl,
+      error: row.error,
+    })),
+  };
+}
+
+async function writeManifest(batch: RenderBatch): Promise<void> {
+  await blobStore.put(getManifestPath(batch), JSON.stringify(getBatchManifest(batch), null, 2), 'application/json');
+}
+
+// Finished rows count in full, rendering rows by their render's progress
+function updateProgress(batch: RenderBatch): RenderBatch {
+  const total = batch.rows.reduce((sum, row) => {
+    if (row.status === 'completed' || row.status === 'failed') return sum + 100;
+    return sum + (row.renderId ? getActiveRenderProgress(row.renderId) ?? 0 : 0);
+  }, 0);
+  batch.progress = Math.round(total / batch.rows.length);
+  return batch;
+}
+
+/**
+ * Get a batch with its current progress
+ */
+export async function getRenderBatch(batchId: string): Promise<RenderBatch | undefined> {
+  const batch = batches.get(batchId);
+  if (batch) {
+    return updateProgress(batch);
+  }
+  return (await getBatch(batchId)) ?? undefined;
+}
+
+/**
+ * Get the project's batches, newest first
+ */
+export async function getProjectRenderBatches(projectId: string): Promise<RenderBatch[]> {
+  const saved = await listProjectBatches(projectId);
+  // Batches in memory have live progress, and a new batch may not be saved yet
+  const loaded = Array.from(batches.values()).filter((batch) => batch.projectId === projectId);
+  return [...loaded.map(updateProgress), ...saved.filter((batch) => !batches.has(batch.batchId))]
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Follow the batches that were running when the backend last stopped
+ * Call after resumeRenderJobs, so their rows' unfinished renders are being watched again
+ */
+export async function resumeRenderBatches(): Promise<void> {
+  const unfinished = await listUnfinishedBatches();
+
+  for (const batch of unfinished) {
+    if (batches.has(batch.batchId)) continue;
+
+    batches.set(batch.batchId, batch);
+    await catchUpRows(batch);
+    settleBatch(batch);
+  }
+
+  if (unfinished.length > 0) {
+    console.log(`Resumed ${unfinished.length} render batches`);
+  }
+}
+
+// Pick up the results of rows whose render finished while the backend was down, and queue rows
+// whose render was never created; renders still running finish through their render events
+async function catchUpRows(batch: RenderBatch): Promise<void> {
+  for (const row of batch.rows) {
+    if (row.status !== 'pending' && row.status !== 'running') continue;
+
+    const renderJob = row.renderId ? await getRenderJob(row.renderId) : null;
+    // A render event may have finished the row in the meantime
+    if (row.status !== 'pending' && row.status !== 'running') continue;
+
+    if (!renderJob) {
+      row.status = 'queued';
+      row.renderId = undefined;
+    } else if (renderJob.status === 'completed') {
+      row.status = 'completed';
+      row.outputUrl = renderJob.outputUrl;
+    } else if (renderJob.status === 'failed') {
+      row.status = 'failed';
+      row.error = renderJob.error || 'Render failed';
+    }
+  }
+}
+
+/**
+ * Queue failed rows again (all of them, or the given row indexes)
+ * Returns the number of rows queued
+ */
+export async function retryRenderBatchRows(batchId: string, rowIndexes?: number[]): Promise<number> {
+  let batch = batches.get(batchId);
+  if (!batch) {
+    // Finished batches from before a restart are only in the database; running ones are resumed
+    const saved = await getBatch(batchId);
+    if (!saved || saved.status === 'running') {
+      return 0;
+    }
+    // Another retry may have loaded it in the meantime
+    batch = batches.get(batchId) ?? saved;
+    batches.set(batchId, batch);
+  }
+
+  const retried = batch.rows.filter(
+    (row) => row.status === 'failed' && (!rowIndexes || rowIndexes.includes(row.index))
+  );
+  for (const row of retried) {
+    row.status = 'queued';
+    row.renderId = undefined;
+    row.error = undefined;
+  }
+
+  if (retried.length > 0) {
+    batch.status = 'running';
+    batch.completedAt = undefined;
+    console.log(`Retrying ${retried.length} rows of render batch ${batchId}`);
+    startQueuedRows(batch);
+    saveRenderBatch(batch);
+  }
+  return retried.length;
+}
+
+/**
+ * Cancel a batch's queued and rendering rows
+ */
+export async function cancelRenderBatch(batchId: string): Promise<boolean> {
+  const batch = batches.get(batchId);
+  if (!batch || batch.status !== 'running') {
+    return false;
+  }
+
+  // Fail rows that haven't started rendering first, so finishing renders don't start them
+  const isCreating = (r: RenderBatchRow) => r.status === 'pending' && creatingRenders.has(r.renderId!);
+  const rendering = batch.rows.filter((r) => (r.status === 'pending' || r.status === 'running') && !isCreating(r));
+  for (const row of batch.rows.filter((r) => r.status === 'queued' || isCreating(r))) {
+    row.status = 'failed';
+    row.error = 'Cancelled by user';
+  }
+  await Promise.all(rendering.map((row) => cancelRenderJob(row.renderId!)));
+  settleBatch(batch);
+
+  console.log(`Render batch ${batchId} cancelled`);
+  return true;
+}
@@ -0,0 +1,52 @@
+import { blobStore } from './blobStore.js';
+import type { SoundEffect } from './types.js';
+
+// Shared sound-effects library from the template Remotion app's public/sfx/
+// Sessions have the files built in; update-template uploads them with catalog.json (generated by
+// scripts/generate-sfx-catalog.mjs) to templates/default/sfx/ for the SFX browser and render jobs
+
+const SFX_PATH = 'templates/default/sfx';
+
+let catalog: SoundEffect[] | null = null;
+
+/**
+ * Load the sound-effects catalog, or an empty list if the template hasn't been uploaded with one
+ * Cached once loaded - restart the backend after updating the template
+ */
+export async function getSoundEffects(): Promise<SoundEffect[]> {
+  if (catalog) {
+    return catalog;
+  }
+
+  const data = await blobStore.get(`${SFX_PATH}/catalog.json`);
+  if (!data) {
+    console.log(`No sound-effects catalog at ${blobStore.toUri(SFX_PATH)} - run npm run update-template`);
+    return [];
+  }
+
+  catalog = (JSON.parse(data.toString('utf-8')) as { sounds: SoundEffect[] }).sounds;
+  return catalog;
+}
+
+/**
+ * Search the catalog by category and free text
+ * Every word in the query must match the start of the sound's name, category or one of its tags
+ */
+export async function searchSoundEffects(options: { query?: string; category?: string } = {}): Promise<SoundEffect[]> {
+  const words = (options.query || '').toLowerCase().split(/[\s,-]+/).filter(Boolean);
+
+  return (await getSoundEffects()).filter((sound) => {
+    if (options.category && sound.category !== options.category) {
+      return false;
+    }
+    const terms = [sound.name, sound.category, ...sound.name.split('-'), ...sound.tags];
+    return words.every((word) => terms.some((term) => term.startsWith(word)));
+  });
+}
+
+/**
+ * Short-lived URL for previewing a sound in the browser
+ */
+export async function getSoundEffectUrl(sound: SoundEffect): Promise<string> {
+  return blobStore.getSignedUrl(`${SFX_PATH}/${sound.file.replace(/^sfx\//, '')}`);
+}
@@ -1,28 +1,24 @@
-import { Storage } from '@google-cloud/storage';
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { blobStore } from './blobStore.js';
 
 const execAsync = promisify(exec);
-
-// Initialize Cloud Storage
-const storage = new Storage({
-  projectId: process.env.GCP_PROJECT_ID || 'saltfish-434012',
-});
-
-const BUCKET_NAME = process.env.STORAGE_BUCKET || 'storydream-data';
-const bucket = storage.bucket(BUCKET_NAME);
+const execFileAsync = promisify(execFile);
 
 // Template repo path - this is the default Remotion app
 const TEMPLATE_REPO_PATH = 'templates/default';
 
 /**
- * Initialize a new project repository in Cloud Storage
- * Copies the template src/ and initializes a git repo
+ * Initialize a new project repository in object storage
+ * Copies the template src/ (or options.srcDir, e.g. from an imported archive) and initializes a git repo
  */
-export async function initializeProjectRepo(projectId: string): Promise<{
+export async function initializeProjectRepo(projectId: string, options: {
+  srcDir?: string;
+  commitMessage?: string;
+} = {}): Promise<{
   gitRepoPath: string;
   commitSha: string;
 }> {
@@ -44,10 +40,13 @@ export async function initializeProjectRepo(projectId: string): Promise<{
     );
 
     // Check if template src exists and copy it
-    const [templateExists] = await bucket.file(`${TEMPLATE_REPO_PATH}/src/main.tsx`).exists();
+    const templateExists = !options.srcDir && await blobStore.exists(`${TEMPLATE_REPO_PATH}/src/main.tsx`);
 
-    if (templateExists) {
-      console.log('Copying template src/ from Cloud Storage...');
+    if (options.srcDir) {
+      console.log(`Copying src/ from ${options.srcDir}...`);
+      await fs.cp(options.srcDir, path.join(tempDir, 'src'), { recursive: true });
+    } else if (templateExists) {
+      console.log('Copying template src/ from object storage...');
       const srcDir = path.join(tempDir, 'src');
       await fs.mkdir(srcDir, { recursive: true });
       await downloadDirectory(`${TEMPLATE_REPO_PATH}/src`, srcDir);
@@ -68,14 +67,15 @@ export async function initializeProjectRepo(projectId: string): Promise<{
 
     // Commit all files
     await execAsync('git add .', { cwd: tempDir });
-    await execAsync('git commit -m "Initial commit"', { cwd: tempDir });
+    // The message can come from an imported archive, so pass it as an argument rather than through a shell
+    await execFileAsync('git', ['commit', '-m', options.commitMessage || 'Initial commit'], { cwd: tempDir });
 
     // Get the current commit SHA
     const { stdout: commitSha } = await execAsync('git rev-parse HEAD', { cwd: tempDir });
     const sha = commitSha.trim();
 
-    // Upload to Cloud Storage
-    console.log(`Uploading repo to gs://${BUCKET_NAME}/${gitRepoPath}...`);
+    // Upload to object storage
+    console.log(`Uploading repo to ${blobStore.toUri(gitRepoPath)}...`);
     await uploadDirectory(tempDir, gitRepoPath);
 
     console.log(`Project repo initialized: ${gitRepoPath} at ${sha}`);
@@ -87,26 +87,43 @@ export async function initializeProjectRepo(projectId: string): Promise<{
 }
 
 /**
- * Update the template repo in Cloud Storage from the current remotion-app
- * Run this once to set up the template
+ * Update the template src/, sound effects and music in object storage from a local remotion-app
+ * Run this once to set up the template (see `npm run update-template`)
  */
-export async function updateTemplateFromLocal(localRepoPath: string): Promise<void> {
-  console.log(`Updating template from ${localRepoPath}...`);
+export async function updateTemplateFromLocal(localAppPath: string): Promise<void> {
+  const srcDir = path.join(localAppPath, 'src');
+  console.log(`Updating template from ${srcDir}...`);
 
-  // Ensure it's a git repo
   try {
-    await execAsync('git status', { cwd: localRepoPath });
+    await fs.access(path.join(srcDir, 'main.tsx'));
   } catch {
-    throw new Error(`${localRepoPath} is not a git repository`);
+    throw new Error(`${localAppPath} does not look like a Remotion app (missing src/main.tsx)`);
+  }
+
+  // Replace the template src/ so deleted files don't linger
+  await deleteDirectory(`${TEMPLATE_REPO_PATH}/src`);
+  await uploadDirectory(srcDir, `${TEMPLATE_REPO_PATH}/src`);
+
+  // Sound effects and their catalog, for the SFX browser and render jobs (sessions have them built in)
+  const sfxDir = path.join(localAppPath, 'public', 'sfx');
+  if (await fs.access(path.join(sfxDir, 'catalog.json')).then(() => true, () => false)) {
+    await deleteDirectory(`${TEMPLATE_REPO_PATH}/sfx`);
+    await uploadDirectory(sfxDir, `${TEMPLATE_REPO_PATH}/sfx`);
+  } else {
+    console.warn(`No sound-effects catalog at ${sfxDir} - run scripts/generate-sfx-catalog.mjs`);
   }
 
-  // Upload to Cloud Storage
-  await uploadDirectory(localRepoPath, TEMPLATE_REPO_PATH);
-  console.log('Template updated successfully');
+  // Music library, for render jobs
+  const musicDir = path.join(localAppPath, 'public', 'music');
+  if (await fs.access(musicDir).then(() => true, () => false)) {
+    await deleteDirectory(`${TEMPLATE_REPO_PATH}/music`);
+    await uploadDirectory(musicDir, `${TEMPLATE_REPO_PATH}/music`);
+  }
+  console.log(`Template updated successfully at ${blobStore.toUri(TEMPLATE_REPO_PATH)}`);
 }
 
 /**
- * Download a project repo from Cloud Storage to a local directory
+ * Download a project repo from object storage to a local directory
  */
 export async function downloadProjectRepo(
   projectId: string,
@@ -131,7 +148,7 @@ export async function downloadProjectSrc(
 }
 
 /**
- * Upload changes from a local directory back to Cloud Storage
+ * Upload changes from a local directory back to object storage
  */
 export async function uploadProjectRepo(
   projectId: string,
@@ -150,68 +167,203 @@ export async function uploadProjectRepo(
 }
 
 /**
- * Upload only the src/ directory back to Cloud Storage
- * Returns a timestamp-based version ID since we're not using git here
+ * Upload only the src/ directory back to object storage
+ * Mirrors the local directory, so files the agent deleted are removed too
  */
 export async function uploadProjectSrc(
   projectId: string,
   sourceDir: string
-): Promise<string> {
+): Promise<void> {
   const srcPath = `repos/${projectId}/src`;
 
   console.log(`Uploading src/ for project ${projectId}...`);
-  await uploadDirectory(sourceDir, srcPath);
+  const deleted = await mirrorDirectory(sourceDir, srcPath);
+  console.log(`Uploaded src/ for project ${projectId}${deleted > 0 ? ` (removed ${deleted} stale files)` : ''}`);
+}
 
-  // Return timestamp as version identifier
-  const versionId = new Date().toISOString().replace(/[:.]/g, '-');
-  console.log(`Uploaded src/ with version: ${versionId}`);
-  return versionId;
+/**
+ * Replace the contents of a local directory with the project's src/
+ * Used to push restored versions into a live session without recreating it
+ */
+export async function mirrorProjectSrcTo(
+  projectId: string,
+  targetDir: string
+): Promise<void> {
+  await mirrorDirectoryTo(`repos/${projectId}/src`, targetDir);
+}
+
+/**
+ * Replace the contents of a local directory with the project's uploaded assets
+ * Used for a session's public/assets/ when it starts and whenever assets change
+ */
+export async function mirrorProjectAssetsTo(
+  projectId: string,
+  targetDir: string
+): Promise<void> {
+  await mirrorDirectoryTo(`repos/${projectId}/assets`, targetDir);
 }
 
 /**
- * Delete a project repo from Cloud Storage
+ * Check out a project's git repo (.git/ plus src/) into a temp directory and run fn in it
+ * Any changes fn makes to .git/ (new commits, moved refs) are uploaded afterwards
+ */
+export async function withProjectRepo<T>(
+  projectId: string,
+  fn: (repoDir: string) => Promise<T>
+): Promise<T> {
+  const gitRepoPath = `repos/${projectId}`;
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storydream-repo-'));
+  const gitDir = path.join(tempDir, '.git');
+
+  try {
+    await downloadDirectory(`${gitRepoPath}/.git`, gitDir);
+    await downloadDirectory(`${gitRepoPath}/src`, path.join(tempDir, 'src'));
+
+    // Remember what we downloaded so only new or modified git files are uploaded
+    const before = new Map<string, number>();
+    for (const filePath of await getFilesRecursively(gitDir)) {
+      before.set(filePath, (await fs.stat(filePath)).mtimeMs);
+    }
+
+    const result = await fn(tempDir);
+
+    const after = await getFilesRecursively(gitDir);
+    const changed: string[] = [];
+    for (const filePath of after) {
+      const mtime = (await fs.stat(filePath)).mtimeMs;
+      if (before.get(filePath) !== mtime) {
+        changed.push(filePath);
+      }
+    }
+    const removed = [...before.keys()].filter((filePath) => !after.includes(filePath));
+
+    await Promise.all([
+      ...changed.map((filePath) =>
+        blobStore.uploadFile(filePath, `${gitRepoPath}/.git/${toBlobRelativePath(gitDir, filePath)}`)
+      ),
+      ...removed.map((filePath) =>
+        blobStore.delete(`${gitRepoPath}/.git/${toBlobRelativePath(gitDir, filePath)}`)
+      ),
+    ]);
+
+    return result;
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+// Per-session and per-render data that a copied project should not inherit
+const UNCOPIED_REPO_DIRS = ['.claude/', 'renders/'];
+
+/**
+ * Copy a project repo (git history, src/ and other project files) to a new project ID
+ * Session data and renders are left behind
+ */
+export async function copyProjectRepo(
+  sourceProjectId: string,
+  targetProjectId: string
+): Promise<string> {
+  const sourcePath = `repos/${sourceProjectId}`;
+  const gitRepoPath = `repos/${targetProjectId}`;
+  console.log(`Copying ${sourcePath} to ${gitRepoPath}...`);
+
+  const blobPaths = (await blobStore.list(`${sourcePath}/`)).filter((blobPath) => {
+    const relativePath = blobPath.slice(sourcePath.length + 1);
+    return relativePath && !UNCOPIED_REPO_DIRS.some((dir) => relativePath.startsWith(dir));
+  });
+
+  await Promise.all(
+    blobPaths.map((blobPath) =>
+      blobStore.copy(blobPath, `${gitRepoPath}/${blobPath.slice(sourcePath.length + 1)}`)
+    )
+  );
+
+  console.log(`Copied ${blobPaths.length} files to ${gitRepoPath}`);
+  return gitRepoPath;
+}
+
+/**
+ * Delete a project repo from object storage
  */
 export async function deleteProjectRepo(projectId: string): Promise<void> {
   const gitRepoPath = `repos/${projectId}`;
   console.log(`Deleting project repo: ${gitRepoPath}...`);
 
-  const [files] = await bucket.getFiles({ prefix: gitRepoPath });
-  await Promise.all(files.map((file) => file.delete()));
+  const count = await deleteDirectory(gitRepoPath);
 
-  console.log(`Deleted ${files.length} files from ${gitRepoPath}`);
+  console.log(`Deleted ${count} files from ${gitRepoPath}`);
 }
 
 // ============ Helper functions ============
 
-async function uploadDirectory(localPath: string, gcsPath: string): Promise<void> {
+async function uploadDirectory(localPath: string, blobDir: string): Promise<void> {
   const files = await getFilesRecursively(localPath);
 
   await Promise.all(
     files.map(async (filePath) => {
-      const relativePath = path.relative(localPath, filePath);
-      const gcsFilePath = `${gcsPath}/${relativePath}`;
-      await bucket.upload(filePath, { destination: gcsFilePath });
+      await blobStore.uploadFile(filePath, `${blobDir}/${toBlobRelativePath(localPath, filePath)}`);
     })
   );
 }
 
-async function downloadDirectory(gcsPath: string, localPath: string): Promise<void> {
-  const [files] = await bucket.getFiles({ prefix: gcsPath });
+// Upload a directory and delete blobs under blobDir that no longer exist locally
+// Returns the number of deleted blobs
+async function mirrorDirectory(localPath: string, blobDir: string): Promise<number> {
+  const localFiles = new Set(
+    (await getFilesRecursively(localPath)).map((filePath) => toBlobRelativePath(localPath, filePath))
+  );
+  const stale = (await blobStore.list(`${blobDir}/`))
+    .filter((blobPath) => !localFiles.has(blobPath.slice(blobDir.length + 1)));
 
+  await uploadDirectory(localPath, blobDir);
+  await Promise.all(stale.map((blobPath) => blobStore.delete(blobPath)));
+  return stale.length;
+}
+
+// Download a directory and delete local files that no longer exist under blobDir
+async function mirrorDirectoryTo(blobDir: string, localPath: string): Promise<void> {
+  const remoteFiles = new Set(
+    (await blobStore.list(`${blobDir}/`)).map((blobPath) => blobPath.slice(blobDir.length + 1))
+  );
+
+  const localFiles = await getFilesRecursively(localPath).catch(() => [] as string[]);
   await Promise.all(
-    files.map(async (file) => {
-      const relativePath = file.name.replace(`${gcsPath}/`, '');
+    localFiles
+      .filter((filePath) => !remoteFiles.has(toBlobRelativePath(localPath, filePath)))
+      .map((filePath) => fs.rm(filePath, { force: true }))
+  );
+
+  await downloadDirectory(blobDir, localPath);
+}
+
+async function downloadDirectory(blobDir: string, localPath: string): Promise<void> {
+  const blobPaths = await blobStore.list(`${blobDir}/`);
+
+  await Promise.all(
+    blobPaths.map(async (blobPath) => {
+      const relativePath = blobPath.slice(blobDir.length + 1);
+      if (!relativePath) return; // Skip directory markers
       const localFilePath = path.join(localPath, relativePath);
 
       // Ensure directory exists
       await fs.mkdir(path.dirname(localFilePath), { recursive: true });
 
       // Download file
-      await file.download({ destination: localFilePath });
+      await blobStore.downloadFile(blobPath, localFilePath);
     })
   );
 }
 
+async function deleteDirectory(blobDir: string): Promise<number> {
+  const blobPaths = await blobStore.list(`${blobDir}/`);
+  await Promise.all(blobPaths.map((blobPath) => blobStore.delete(blobPath)));
+  return blobPaths.length;
+}
+
+function toBlobRelativePath(baseDir: string, filePath: string): string {
+  return path.relative(baseDir, filePath).split(path.sep).join('/');
+}
+
 async function getFilesRecursively(dir: string): Promise<string[]> {
   const entries = await fs.readdir(dir, { withFileTypes: true });
   const files: string[] = [];
@@ -234,7 +386,7 @@ async function getFilesRecursively(dir: string): Promise<string[]> {
 const CLAUDE_SESSION_PATH = 'projects/-app-remotion-app';
 
 /**
- * Download Claude Code session data from Cloud Storage
+ * Download Claude Code session data from object storage
  * Session files are stored at repos/{projectId}/.claude/
  */
 export async function downloadSessionData(
@@ -242,9 +394,9 @@ export async function downloadSessionData(
   targetDir: string
 ): Promise<boolean> {
   const sessionPath = `repos/${projectId}/.claude`;
-  console.log(`Checking for session data at gs://${BUCKET_NAME}/${sessionPath}...`);
+  console.log(`Checking for session data at ${blobStore.toUri(sessionPath)}...`);
 
-  const [files] = await bucket.getFiles({ prefix: sessionPath });
+  const files = await blobStore.list(`${sessionPath}/`);
 
   if (files.length === 0) {
     console.log('No existing session data found');
@@ -258,7 +410,7 @@ export async function downloadSessionData(
 }
 
 /**
- * Upload Claude Code session data to Cloud Storage
+ * Upload Claude Code session data to object storage
  * Only uploads the session file for the specific project path
  */
 export async function uploadSessionData(
@@ -285,11 +437,9 @@ export async function uploadSessionData(
     return;
   }
 
-  console.log(`Uploading ${jsonlFiles.length} session files to gs://${BUCKET_NAME}/${sessionPath}...`);
+  console.log(`Uploading ${jsonlFiles.length} session files to ${blobStore.toUri(sessionPath)}...`);
 
   // Upload the session directory
   await uploadDirectory(sourceDir, sessionPath);
   console.log('Session data uploaded successfully');
 }
-
-export { bucket, storage };
@@ -0,0 +1,43 @@
+import type { WordTiming } from './types.js';
+
+// Text-to-speech providers for voiceovers (see voiceovers.ts)
+
+export interface TtsRequest {
+  text: string;
+  /** Provider-specific voice name or ID; the provider's default when omitted */
+  voice?: string;
+  /** Speaking rate, 1 is normal */
+  speed?: number;
+}
+
+export interface TtsResult {
+  audio: Buffer;
+  /** File extension for the audio, e.g. '.wav' */
+  extension: string;
+  durationSeconds: number;
+  words: WordTiming[];
+  /** 'provider' when the provider reported the timings, 'estimated' when they were spread over the audio */
+  timingSource: 'provider' | 'estimated';
+}
+
+export interface TtsProvider {
+  synthesize(request: TtsRequest): Promise<TtsResult>;
+}
+
+// 'espeak' (default) runs espeak-ng locally, for offline development
+// 'elevenlabs' calls the ElevenLabs API (ELEVENLABS_API_KEY), which reports word timings
+export const TTS_DRIVER = process.env.TTS_DRIVER || 'espeak';
+
+async function loadTtsProvider(driver: string): Promise<TtsProvider> {
+  switch (driver) {
+    case 'espeak':
+      return import('./espeakTts.js');
+    case 'elevenlabs':
+      return import('./elevenLabsTts.js');
+    default:
+      throw new Error(`Unknown TTS_DRIVER "${driver}" (expected "espeak" or "elevenlabs")`);
+  }
+}
+
+export const ttsProvider = await loadTtsProvider(TTS_DRIVER);
+console.log(`Using ${TTS_DRIVER} text-to-speech`);
@@ -1,11 +1,8 @@
 // Shared types for StoryDream backend
 
-export interface ImageAttachment {
-  type: 'image';
-  data: string;      // base64 encoded (without data URI prefix)
-  mediaType: string; // 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp'
-  name?: string;     // original filename for display
-}
+import type { DiffStats, ImageAttachment, ProjectRole, RenderStage, StoredAttachment, TurnResult } from './protocol.js';
+
+export type { DiffStats, ImageAttachment, ProjectRole, RenderStage, StoredAttachment, TurnResult };
 
 export interface Project {
   id: string;
@@ -20,6 +17,13 @@ export interface Project {
   // Agent session persistence
   agentSessionId?: string;
 
+  // Project this one was duplicated from
+  forkedFrom?: string;
+
+  // Sharing - the owner is userId, collaborators get a role on top of that
+  collaborators?: Collaborator[];
+  memberKeys?: string[];  // Denormalized collaborator keys for shared-project queries
+
   // Metadata
   thumbnailUrl?: string;
   createdAt: Date;
@@ -28,6 +32,63 @@ export interface Project {
 
   // Video settings
   videoSettings?: VideoSettings;
+
+  // Compositions found in Root.tsx, as last reported by the preview
+  compositions?: CompositionInfo[];
+}
+
+// A user invited to a project, identified by user ID or (before they sign in) email
+export interface Collaborator {
+  userId?: string;
+  email?: string;
+  role: ProjectRole;
+  addedBy: string;
+  addedAt: Date;
+}
+
+export type AssetKind = 'image' | 'video' | 'audio' | 'font' | 'data';
+
+// File uploaded to a project's asset library (see assets.ts)
+export interface ProjectAsset {
+  name: string;
+  kind: AssetKind;
+  contentType: string;
+  staticPath: string;  // Path for staticFile() in the Remotion app, e.g. 'assets/logo.png'
+  url: string;  // Short-lived download URL
+}
+
+// When a voiceover speaks one word, in seconds from the start of its audio
+export interface WordTiming {
+  word: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+// One subtitle line, in seconds from the start of its caption file's audio (see captions.ts)
+export interface CaptionCue {
+  text: string;
+  startSeconds: number;
+  endSeconds: number;
+  words?: WordTiming[];  // For presets that highlight the spoken word
+}
+
+// Generated voiceover: the audio and its timings are stored as project assets (see voiceovers.ts)
+export interface Voiceover {
+  audio: ProjectAsset;
+  timings: ProjectAsset;
+  durationSeconds: number;
+  words: WordTiming[];
+  captions: CaptionCue[];
+}
+
+// Entry in the shared sound-effects catalog (see sfx.ts)
+export interface SoundEffect {
+  name: string;
+  category: string;
+  file: string;  // Path for staticFile(), e.g. 'sfx/transitions/whoosh-fast.mp3'
+  durationSeconds: number;
+  loudnessLufs: number | null;  // Integrated loudness, null when not measured or silent
+  tags: string[];
 }
 
 export interface VideoSettings {
@@ -37,20 +98,126 @@ export interface VideoSettings {
   durationInFrames: number;
 }
 
+// A prop a composition can be customized with, shown as a form field next to the preview
+export type PropFieldType = 'text' | 'color' | 'number' | 'image';
+
+export interface PropField {
+  type: PropFieldType;
+  label?: string;
+  multiline?: boolean;  // text
+  min?: number;  // number
+  max?: number;
+  step?: number;
+}
+
+export type PropsSchema = Record<string, PropField>;
+
+// A <Composition> registered in the project's Root.tsx (see compositions.ts)
+export interface CompositionInfo extends VideoSettings {
+  id: string;
+  defaultProps: Record<string, unknown>;
+  propsSchema?: PropsSchema;  // Declared with withPropsSchema() in the template
+}
+
 export interface ChatMessage {
   id: string;
   projectId: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
-  attachments?: ImageAttachment[];
-  actions?: AgentAction[];
+  attachments?: StoredAttachment[];
+  actions?: AgentAction[];  // Tool calls the agent made during this turn
+  turnResult?: TurnResult;  // Cost, tokens and duration of the turn
+  commitSha?: string;  // Project version committed at the end of this agent turn
+  beforeCommitSha?: string;  // Snapshot taken before the turn, restored by undo
+  undone?: boolean;  // Turn's changes have been undone
+  cancelled?: boolean;  // Turn was stopped by the user, content is the partial response
+  createdAt: Date;
+}
+
+// Fields accepted when creating a project record
+export interface CreateProjectData {
+  id?: string;  // Optional - if not provided, generates new UUID
+  name: string;
+  description?: string;
+  userId?: string;
+  gitRepoPath: string;
+  currentCommitSha: string;
+  forkedFrom?: string;
+  videoSettings?: VideoSettings;
+}
+
+// Project fields that may be changed after creation
+export type ProjectUpdate = Partial<Pick<Project, 'name' | 'description' | 'currentCommitSha' | 'thumbnailUrl' | 'videoSettings' | 'compositions' | 'agentSessionId' | 'collaborators' | 'memberKeys'>>;
+
+// Fields accepted when saving a chat message
+export type NewChatMessage = Omit<ChatMessage, 'id' | 'projectId' | 'createdAt'>;
+
+// Messages copied from another project keep their original timestamps
+export type CopiedChatMessage = Omit<ChatMessage, 'id' | 'projectId'>;
+
+// Fields that may change after a message is saved
+export type MessageUpdate = Partial<Pick<ChatMessage, 'commitSha' | 'beforeCommitSha' | 'undone'>>;
+
+// Server-side render of a composition (see render.ts)
+export interface RenderJob {
+  renderId: string;
+  projectId: string;
+  compositionId?: string;  // Unknown for renders imported from their storage metadata
+  format?: 'mp4' | 'webm';
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  createdAt: Date;
+  completedAt?: Date;
+  outputUrl?: string;
+  error?: string;
+  progress?: number;
+  stage?: RenderStage;  // While running, as reported by the render container (not saved)
+  renderDurationMs?: number;  // Time the render container spent, from its metadata
+  captionsUrls?: { srt: string; vtt: string };  // Sidecar subtitle files
+  batchId?: string;
+}
+
+// Render job fields that change while it runs
+export type RenderJobUpdate = Partial<Pick<RenderJob, 'status' | 'completedAt' | 'outputUrl' | 'error' | 'progress' | 'renderDurationMs' | 'captionsUrls'>>;
+
+export type RenderBatchRowStatus = 'queued' | 'pending' | 'running' | 'completed' | 'failed';
+
+// One render per row of a dataset, with the row as inputProps (see renderBatches.ts)
+export interface RenderBatchRow {
+  index: number;  // Position in the dataset, from 0
+  inputProps: Record<string, unknown>;
+  status: RenderBatchRowStatus;
+  renderId?: string;  // Latest render of the row
+  outputUrl?: string;
+  error?: string;
+  attempts: number;
+}
+
+// Options every row of a batch is rendered with (batches only burn captions in)
+export interface RenderBatchOptions {
+  format?: 'mp4' | 'webm';
+  videoSettings?: VideoSettings;
+}
+
+export interface RenderBatch {
+  batchId: string;
+  projectId: string;
+  compositionId: string;
+  status: 'running' | 'completed' | 'failed';  // 'failed' once finished with any failed rows
+  progress: number;  // 0-100 across all rows
   createdAt: Date;
+  completedAt?: Date;
+  options: RenderBatchOptions;
+  rows: RenderBatchRow[];
 }
 
 export interface AgentAction {
   type: 'file_edit' | 'file_create' | 'file_delete' | 'command_run';
+  tool?: string;  // SDK tool name, e.g. 'Edit' or 'Bash'
+  toolUseId?: string;
   filePath?: string;
   summary: string;
+  status?: 'running' | 'succeeded' | 'failed';
+  diffStats?: DiffStats;
   commitSha?: string;
 }
 
@@ -68,7 +235,6 @@ export interface Session {
 export interface CreateProjectRequest {
   name: string;
   description?: string;
-  userId?: string; // Optional for now, will be from auth later
 }
 
 export interface CreateProjectResponse {
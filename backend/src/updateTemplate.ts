@@ -0,0 +1,9 @@
+import './loadEnv.js';
+import { resolve } from 'path';
+import { updateTemplateFromLocal } from './storage.js';
+
+// Upload the template Remotion app's src/ so new projects start from it
+// Usage: npm run update-template [path/to/remotion-app]
+const appPath = resolve(process.argv[2] || '../project-container/remotion-app');
+
+await updateTemplateFromLocal(appPath);
@@ -0,0 +1,175 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { withProjectRepo, uploadProjectSrc } from './storage.js';
+import { createKeyedLock } from './lock.js';
+import type { AgentAction } from './types.js';
+
+const execAsync = promisify(exec);
+
+export interface ProjectVersion {
+  sha: string;
+  parentSha: string | null;
+  message: string;
+  createdAt: Date;
+}
+
+const SHA_PATTERN = /^[0-9a-f]{7,40}$/;
+
+// Git operations download and re-upload .git/, so serialize them per project
+const withProjectLock = createKeyedLock();
+
+async function git(repoDir: string, args: string): Promise<string> {
+  const { stdout } = await execAsync(`git ${args}`, {
+    cwd: repoDir,
+    maxBuffer: 20 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+async function commitExists(repoDir: string, sha: string): Promise<boolean> {
+  try {
+    await git(repoDir, `cat-file -e ${sha}^{commit}`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Stage src/ and commit it, returning null when nothing changed
+async function commitSrc(repoDir: string, message: string): Promise<string | null> {
+  await git(repoDir, 'add -A src');
+
+  const status = await git(repoDir, 'status --porcelain src');
+  if (!status.trim()) {
+    return null;
+  }
+
+  // Pass the message through a file so prompt text never reaches the shell
+  const messagePath = path.join(repoDir, '.commit-message');
+  await fs.writeFile(messagePath, message);
+  await git(repoDir, `commit -q -F ${JSON.stringify(messagePath)}`);
+
+  return (await git(repoDir, 'rev-parse HEAD')).trim();
+}
+
+/**
+ * Build a commit message for an agent turn
+ * Subject is the user's prompt, body lists the actions the agent took
+ */
+export function formatTurnCommitMessage(
+  prompt: string,
+  actions: AgentAction[],
+  options: { cancelled?: boolean; failed?: boolean } = {}
+): string {
+  const firstLine = prompt.split('\n').find((line) => line.trim())?.trim() || 'Agent turn';
+  const prefix = options.failed ? '[failed] ' : options.cancelled ? '[cancelled] ' : '';
+  const maxLength = 72 - prefix.length;
+  const subject = prefix + (firstLine.length > maxLength ? firstLine.substring(0, maxLength - 3) + '...' : firstLine);
+
+  if (actions.length === 0) {
+    return `${subject}\n`;
+  }
+
+  const body = actions.map((action) => `- ${action.summary}`).join('\n');
+  return `${subject}\n\n${body}\n`;
+}
+
+/**
+ * Commit the project's current src/ (as last synced to storage)
+ * Returns the new commit SHA, or null if nothing changed since the last commit
+ */
+export async function commitProjectVersion(projectId: string, message: string): Promise<string | null> {
+  return withProjectLock(projectId, () =>
+    withProjectRepo(projectId, async (repoDir) => {
+      const sha = await commitSrc(repoDir, message);
+      if (sha) {
+        console.log(`Committed version ${sha} for project ${projectId}`);
+      }
+      return sha;
+    })
+  );
+}
+
+/**
+ * Commit any changes to src/ and return the resulting HEAD SHA
+ * Used to snapshot a project before an agent turn so the turn can be undone
+ */
+export async function snapshotProjectVersion(projectId: string, message: string): Promise<string> {
+  return withProjectLock(projectId, () =>
+    withProjectRepo(projectId, async (repoDir) => {
+      const sha = await commitSrc(repoDir, message);
+      return sha || (await git(repoDir, 'rev-parse HEAD')).trim();
+    })
+  );
+}
+
+/**
+ * List commits for a project, newest first
+ */
+export async function listProjectVersions(projectId: string, limit: number = 50): Promise<ProjectVersion[]> {
+  return withProjectLock(projectId, () =>
+    withProjectRepo(projectId, async (repoDir) => {
+      const log = await git(repoDir, `log -n ${limit} --format=%H%x1f%P%x1f%aI%x1f%s`);
+
+      return log
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => {
+          const [sha, parents, date, message] = line.split('\x1f');
+          return {
+            sha,
+            parentSha: parents.split(' ')[0] || null,
+            message,
+            createdAt: new Date(date),
+          };
+        });
+    })
+  );
+}
+
+/**
+ * Get the unified diff a commit introduced to src/
+ * Returns null if the commit doesn't exist
+ */
+export async function getVersionDiff(projectId: string, sha: string): Promise<string | null> {
+  if (!SHA_PATTERN.test(sha)) return null;
+
+  return withProjectLock(projectId, () =>
+    withProjectRepo(projectId, async (repoDir) => {
+      if (!(await commitExists(repoDir, sha))) {
+        return null;
+      }
+      return git(repoDir, `show --format= --patch ${sha} -- src`);
+    })
+  );
+}
+
+/**
+ * Restore src/ to the state of an earlier commit
+ * Records the restore as a new commit (history is never rewritten) and uploads src/
+ * Returns the new HEAD SHA, or null if the commit doesn't exist
+ */
+export async function restoreProjectVersion(projectId: string, sha: string): Promise<string | null> {
+  if (!SHA_PATTERN.test(sha)) return null;
+
+  return withProjectLock(projectId, () =>
+    withProjectRepo(projectId, async (repoDir) => {
+      if (!(await commitExists(repoDir, sha))) {
+        return null;
+      }
+
+      // Clear src/ first so files added after that commit are removed
+      await git(repoDir, 'rm -r -q --ignore-unmatch src');
+      await fs.rm(path.join(repoDir, 'src'), { recursive: true, force: true });
+      await git(repoDir, `checkout ${sha} -- src`);
+
+      const newSha = await commitSrc(repoDir, `Restore version ${sha.substring(0, 8)}\n`);
+      await uploadProjectSrc(projectId, path.join(repoDir, 'src'));
+
+      console.log(`Restored project ${projectId} to ${sha}`);
+      return newSha || (await git(repoDir, 'rev-parse HEAD')).trim();
+    })
+  );
+}
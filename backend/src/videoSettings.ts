@@ -0,0 +1,98 @@
+import { updateProject } from './projects.js';
+import type { Project, VideoSettings } from './types.js';
+
+// A project's resolution, frame rate and length. Sessions get them as the Remotion app's
+// config/video-settings.json (imported by the template's Root.tsx), and renders write the same file,
+// so the preview and rendered videos agree.
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = { width: 1920, height: 1080, fps: 30, durationInFrames: 150 };
+
+const MAX_DIMENSION = 3840;
+const MAX_FPS = 60;
+const MAX_DURATION_SECONDS = 10 * 60;
+
+// Event listeners for pushing changed settings into running sessions
+export interface VideoSettingsChange {
+  projectId: string;
+  settings: VideoSettings;
+}
+type VideoSettingsChangeListener = (event: VideoSettingsChange) => void;
+const changeListeners: VideoSettingsChangeListener[] = [];
+
+export function addVideoSettingsChangeListener(listener: VideoSettingsChangeListener): void {
+  changeListeners.push(listener);
+}
+
+function emitVideoSettingsChange(event: VideoSettingsChange): void {
+  changeListeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error in video settings change listener:', error);
+    }
+  });
+}
+
+// Thrown for settings the renderer can't produce
+export class InvalidVideoSettingsError extends Error {
+  name = 'InvalidVideoSettingsError';
+}
+
+/**
+ * Check requested video settings and keep only the known fields
+ */
+export function parseVideoSettings(input: unknown): VideoSettings {
+  const settings = input as Partial<VideoSettings> | null;
+  if (!settings || typeof settings !== 'object') {
+    throw new InvalidVideoSettingsError('videoSettings must be an object');
+  }
+
+  for (const field of ['width', 'height'] as const) {
+    const value = settings[field];
+    // H.264 needs even dimensions
+    if (!Number.isInteger(value) || value! < 16 || value! > MAX_DIMENSION || value! % 2 !== 0) {
+      throw new InvalidVideoSettingsError(`${field} must be an even number of pixels from 16 to ${MAX_DIMENSION}`);
+    }
+  }
+  if (!Number.isInteger(settings.fps) || settings.fps! < 1 || settings.fps! > MAX_FPS) {
+    throw new InvalidVideoSettingsError(`fps must be a whole number from 1 to ${MAX_FPS}`);
+  }
+  if (
+    !Number.isInteger(settings.durationInFrames) ||
+    settings.durationInFrames! < 1 ||
+    settings.durationInFrames! > MAX_DURATION_SECONDS * settings.fps!
+  ) {
+    throw new InvalidVideoSettingsError(`durationInFrames must be from 1 frame to ${MAX_DURATION_SECONDS / 60} minutes`);
+  }
+
+  return {
+    width: settings.width!,
+    height: settings.height!,
+    fps: settings.fps!,
+    durationInFrames: settings.durationInFrames!,
+  };
+}
+
+/**
+ * A project's video settings, or the template's defaults for projects that never set them
+ */
+export function getVideoSettings(project: Pick<Project, 'videoSettings'>): VideoSettings {
+  return project.videoSettings ?? DEFAULT_VIDEO_SETTINGS;
+}
+
+/**
+ * Store new video settings and push them into the project's running session
+ */
+export async function setProjectVideoSettings(projectId: string, settings: VideoSettings): Promise<void> {
+  await updateProject(projectId, { videoSettings: settings });
+  console.log(`Project ${projectId} video settings: ${describeVideoSettings(settings)}`);
+  emitVideoSettingsChange({ projectId, settings });
+}
+
+/**
+ * Short summary, e.g. "1920x1080 at 30fps, 150 frames (5.0s)"
+ */
+export function describeVideoSettings(settings: VideoSettings): string {
+  const seconds = (settings.durationInFrames / settings.fps).toFixed(1);
+  return `${settings.width}x${settings.height} at ${settings.fps}fps, ${settings.durationInFrames} frames (${seconds}s)`;
+}
@@ -0,0 +1,82 @@
+import { ttsProvider, TTS_DRIVER } from './tts.js';
+import { saveGeneratedAsset, putProjectAsset, toAssetName } from './assets.js';
+import { groupCaptions } from './captions.js';
+import type { Voiceover } from './types.js';
+
+// Voiceovers are generated with the configured TTS provider and stored as two project assets:
+//   assets/{name}.wav|.mp3   the narration
+//   assets/{name}.json       { text, voice, provider, timingSource, durationSeconds, words, captions }
+// so compositions can play the audio with staticFile() and caption it with the Captions component
+
+export const MAX_VOICEOVER_CHARS = 5000;
+
+export interface VoiceoverRequest {
+  text: string;
+  voice?: string;
+  speed?: number;
+  /** Asset name without extension; derived from the text when omitted */
+  name?: string;
+}
+
+// Thrown for scripts or parameters the provider shouldn't be asked to speak
+export class InvalidVoiceoverError extends Error {
+  name = 'InvalidVoiceoverError';
+}
+
+/**
+ * Generate a voiceover and store it with its word timings in the project's assets
+ * Running sessions pick up the files, and the agent is told how to place them
+ */
+export async function generateVoiceover(projectId: string, request: VoiceoverRequest): Promise<Voiceover> {
+  const text = request.text?.trim();
+  if (!text) {
+    throw new InvalidVoiceoverError('Voiceover text is required');
+  }
+  if (text.length > MAX_VOICEOVER_CHARS) {
+    throw new InvalidVoiceoverError(`Voiceover text must be at most ${MAX_VOICEOVER_CHARS} characters`);
+  }
+  if (request.speed !== undefined && !(request.speed >= 0.5 && request.speed <= 2)) {
+    throw new InvalidVoiceoverError('Speed must be between 0.5 and 2');
+  }
+
+  // Sanitized like an asset name, then shared by the audio and timings files
+  const firstWords = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).slice(0, 4).join('-');
+  const baseName = toAssetName(`${request.name || `voiceover-${firstWords}`}.json`).replace(/\.json$/, '');
+
+  console.log(`Generating voiceover ${baseName} for project ${projectId} with ${TTS_DRIVER} (${text.length} chars)`);
+  const speech = await ttsProvider.synthesize({ text, voice: request.voice, speed: request.speed });
+  const durationSeconds = Math.round(speech.durationSeconds * 1000) / 1000;
+  const captions = groupCaptions(speech.words);
+
+  // Timings first, so they're in place when the audio's change event reloads running sessions
+  const timingsName = `${baseName}.json`;
+  const timingsData = {
+    text,
+    voice: request.voice || null,
+    provider: TTS_DRIVER,
+    timingSource: speech.timingSource,
+    durationSeconds,
+    words: speech.words,
+    captions,
+  };
+  const timings = await putProjectAsset(projectId, timingsName, Buffer.from(JSON.stringify(timingsData, null, 2)));
+
+  const audioName = `${baseName}${speech.extension}`;
+  const audio = await saveGeneratedAsset(
+    projectId,
+    audioName,
+    speech.audio,
+    describeVoiceover(audioName, timingsName, text, durationSeconds)
+  );
+  return { audio, timings, durationSeconds, words: speech.words, captions };
+}
+
+function describeVoiceover(audioName: string, timingsName: string, text: string, durationSeconds: number): string {
+  const preview = text.length > 80 ? `${text.substring(0, 77)}...` : text;
+  return (
+    `The user generated a ${durationSeconds.toFixed(1)}s voiceover "${preview}" at public/assets/${audioName}. ` +
+    `Play it inside a <Sequence name="Voiceover" durationInFrames={...}> with <Audio src={staticFile('assets/${audioName}')} /> ` +
+    `(the name makes music duck under it). For subtitles, add <Captions src="assets/${timingsName}" /> from src/components/Captions.tsx ` +
+    `inside the same Sequence. Word timings and caption cues, in seconds from the start of the audio, are in public/assets/${timingsName}`
+  );
+}
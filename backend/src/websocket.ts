@@ -1,30 +1,104 @@
 import { WebSocketServer, WebSocket } from 'ws';
+import type { IncomingMessage } from 'http';
+import { v4 as uuidv4 } from 'uuid';
 // Use Kubernetes when running in K8s, Docker when running locally
 const useKubernetes = process.env.RUNNING_IN_KUBERNETES === 'true';
 const containerModule = useKubernetes
   ? await import('./kubernetes.js')
   : await import('./container.js');
-const { createSession, destroySession, getSession, syncSession, updateSessionAgentId } = containerModule;
-import { saveMessage, getRecentMessages } from './firestore.js';
-import { getProject, updateProject } from './projects.js';
-import type { AgentAction, ImageAttachment } from './types.js';
-import { addRenderEventListener, type RenderEvent } from './render.js';
+const { createSession, destroySession, syncSession, reloadSessionSrc, reloadSessionAssets, reloadSessionVideoSettings, updateSessionAgentId } = containerModule;
+import { saveMessage, updateMessage, getMessages } from './database.js';
+import { getProject, updateProject, getProjectRole, hasProjectRole } from './projects.js';
+import { authenticateUpgrade, type AuthUser } from './auth.js';
+import { createKeyedLock } from './lock.js';
+import {
+  commitProjectVersion,
+  snapshotProjectVersion,
+  restoreProjectVersion,
+  formatTurnCommitMessage,
+} from './versions.js';
+import type { AgentAction, ImageAttachment, ProjectAsset, ProjectRole, SoundEffect, StoredAttachment, TurnResult, VideoSettings } from './types.js';
+import { addRenderEventListener } from './render.js';
+import { createActivityNormalizer } from './agentActivity.js';
+import { validateAttachments, saveAttachments, InvalidAttachmentError } from './attachments.js';
+import { addAssetChangeListener, listProjectAssets, type AssetChange } from './assets.js';
+import { getSoundEffects } from './sfx.js';
+import { addVideoSettingsChangeListener, describeVideoSettings, getVideoSettings, type VideoSettingsChange } from './videoSettings.js';
+import {
+  PROTOCOL_VERSION,
+  ProtocolError,
+  parseClientMessage,
+  parseAgentEvent,
+  type ClientMessage,
+  type ServerMessage,
+  type SessionEvent,
+  type AgentCommand,
+  type AgentActivity,
+  type RenderEvent,
+} from './protocol.js';
 
-interface ClientConnection {
-  ws: WebSocket;
-  sessionId: string | null;
+// A prompt sent to the agent that hasn't completed yet
+interface AgentTurn {
+  prompt: string;
+  beforeSha: string | null;  // Snapshot of src/ before the turn started
+}
+
+// A session event kept for replay to clients that reconnect
+interface BufferedEvent {
+  seq: number;
+  message: SessionEvent;
+  exceptClientId?: string;  // Client the event wasn't sent to (e.g. its own prompt)
+}
+
+// A running container session, shared by every client that has its project open
+interface LiveSession {
+  id: string;
   projectId: string | null;
+  previewUrl: string;
   agentWs: WebSocket | null;
+  clients: Set<ClientConnection>;
   cleanupTimer: NodeJS.Timeout | null;
+  // Turns the agent's SDK messages into activity events
+  normalizeActivity: ReturnType<typeof createActivityNormalizer>;
   // Track current assistant response for saving
   currentAssistantResponse: string;
   currentActions: AgentAction[];
+  currentTurnResult: TurnResult | null;
+  // Turns queued or running in the agent, oldest first
+  pendingTurns: AgentTurn[];
+  // Serializes syncs, snapshots and commits so they apply in turn order
+  versionTask: Promise<void>;
+  // Notes for the agent, prepended to the next prompt
+  agentNotes: string[];
+  // Recent broadcast events for session:resume, oldest first
+  events: BufferedEvent[];
+  nextSeq: number;
+}
+
+interface ClientConnection {
+  ws: WebSocket;
+  // Stable across reconnects - a resumed connection takes over the ID it resumed
+  clientId: string;
+  protocolVersion: number | null;  // Set by the hello handshake
+  user: AuthUser;
+  role: ProjectRole | null;  // Role on projectId, sent to the frontend in session:ready
+  projectId: string | null;
+  session: LiveSession | null;
   // Keepalive tracking
   isAlive: boolean;
 }
 
 const clients = new Map<WebSocket, ClientConnection>();
+// Users resolved during the upgrade, picked up when the connection opens
+const authenticatedUsers = new WeakMap<IncomingMessage, AuthUser>();
+// Live sessions by project ID - sessions started without a project aren't shared
+const projectSessions = new Map<string, LiveSession>();
+// Serializes session starts per project so concurrent tabs join one container
+const withProjectSessionLock = createKeyedLock();
+// Resume tokens issued in session:ready, so a reconnecting client can reattach
+const resumeTokens = new Map<string, { session: LiveSession; clientId: string; userId: string }>();
 const SESSION_CLEANUP_DELAY = 30000; // 30 seconds grace period
+const MAX_BUFFERED_EVENTS = 1000;
 
 // Track clients by project for render event notifications
 function getClientsByProject(projectId: string): ClientConnection[] {
@@ -32,7 +106,25 @@ function getClientsByProject(projectId: string): ClientConnection[] {
 }
 
 export function createWebSocketServer(port: number): WebSocketServer {
-  const wss = new WebSocketServer({ port });
+  const wss = new WebSocketServer({
+    port,
+    // Authenticate the upgrade request the same way as the REST API
+    verifyClient: (info, callback) => {
+      authenticateUpgrade(info.req)
+        .then((user) => {
+          if (!user) {
+            callback(false, 401, 'Unauthorized');
+            return;
+          }
+          authenticatedUsers.set(info.req, user);
+          callback(true);
+        })
+        .catch((error) => {
+          console.error('WebSocket authentication failed:', error);
+          callback(false, 401, 'Unauthorized');
+        });
+    },
+  });
 
   console.log(`Backend WebSocket server listening on port ${port}`);
 
@@ -56,28 +148,63 @@ export function createWebSocketServer(port: number): WebSocketServer {
 
   // Subscribe to render events and forward to relevant clients
   addRenderEventListener((event: RenderEvent) => {
-    const projectId = 'projectId' in event ? event.projectId : null;
-    if (!projectId) return;
-
-    const projectClients = getClientsByProject(projectId);
+    const projectClients = getClientsByProject(event.projectId);
     projectClients.forEach(client => {
       sendToClient(client.ws, event);
     });
 
-    console.log(`[Render Event] ${event.type} for project ${projectId}, notified ${projectClients.length} clients`);
+    console.log(`[Render Event] ${event.type} for project ${event.projectId}, notified ${projectClients.length} clients`);
   });
 
-  wss.on('connection', (ws: WebSocket) => {
-    console.log('Frontend client connected');
+  // Push uploaded or deleted assets into the project's running session and tell the agent
+  addAssetChangeListener((event: AssetChange) => {
+    const session = projectSessions.get(event.projectId);
+    if (!session) return;
+
+    reloadSessionAssets(session.id)
+      .then(() => {
+        session.agentNotes.push(
+          event.agentNote ||
+          (event.change === 'uploaded'
+            ? `The user uploaded public/assets/${event.name} - use it with staticFile('assets/${event.name}')`
+            : `The user deleted public/assets/${event.name} - remove any staticFile('assets/${event.name}') references`)
+        );
+      })
+      .catch((error) => {
+        console.error(`Failed to reload assets for session ${session.id}:`, error);
+      });
+  });
+
+  // Push changed video settings into the project's running session and tell the agent
+  addVideoSettingsChangeListener((event: VideoSettingsChange) => {
+    const session = projectSessions.get(event.projectId);
+    if (!session) return;
+
+    reloadSessionVideoSettings(session.id, event.settings)
+      .then(() => {
+        session.agentNotes.push(`The user changed the video settings. ${describeVideoSettingsNote(event.settings)}`);
+      })
+      .catch((error) => {
+        console.error(`Failed to update video settings for session ${session.id}:`, error);
+      });
+  });
+
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+    const user = authenticatedUsers.get(req);
+    if (!user) {
+      ws.close(1008, 'Unauthorized');
+      return;
+    }
+    console.log(`Frontend client connected (user ${user.id})`);
 
     const client: ClientConnection = {
       ws,
-      sessionId: null,
+      clientId: uuidv4(),
+      protocolVersion: null,
+      user,
+      role: null,
       projectId: null,
-      agentWs: null,
-      cleanupTimer: null,
-      currentAssistantResponse: '',
-      currentActions: [],
+      session: null,
       isAlive: true,
     };
     clients.set(ws, client);
@@ -89,9 +216,13 @@ export function createWebSocketServer(port: number): WebSocketServer {
 
     ws.on('message', async (data: Buffer) => {
       try {
-        const message = JSON.parse(data.toString());
-        await handleMessage(client, message);
+        await handleMessage(client, parseClientMessage(data.toString()));
       } catch (error) {
+        if (error instanceof ProtocolError) {
+          console.log(`Rejected client message: ${error.message}`);
+          sendToClient(ws, { type: 'error', code: error.code, message: error.message });
+          return;
+        }
         console.error('Error handling message:', error);
         sendToClient(ws, {
           type: 'error',
@@ -103,20 +234,8 @@ export function createWebSocketServer(port: number): WebSocketServer {
     ws.on('close', async () => {
       console.log('Frontend client disconnected');
 
-      // Schedule cleanup after grace period
-      if (client.sessionId) {
-        console.log(`Scheduling session ${client.sessionId} cleanup in ${SESSION_CLEANUP_DELAY / 1000}s...`);
-        client.cleanupTimer = setTimeout(async () => {
-          console.log(`Cleaning up session ${client.sessionId} after grace period`);
-          if (client.sessionId) {
-            await destroySession(client.sessionId);
-          }
-          if (client.agentWs) {
-            client.agentWs.close();
-          }
-        }, SESSION_CLEANUP_DELAY);
-      }
-
+      // The session is cleaned up after a grace period once its last client leaves
+      leaveSession(client);
       clients.delete(ws);
     });
 
@@ -128,36 +247,70 @@ export function createWebSocketServer(port: number): WebSocketServer {
   return wss;
 }
 
-async function handleMessage(client: ClientConnection, message: any): Promise<void> {
+async function handleMessage(client: ClientConnection, message: ClientMessage): Promise<void> {
+  if (message.type === 'hello') {
+    handleHello(client, message.protocolVersion);
+    return;
+  }
+  if (client.protocolVersion === null) {
+    throw new ProtocolError('handshake_required', `Send hello before ${message.type}`);
+  }
+
   switch (message.type) {
     case 'session:start':
       await handleSessionStart(client, message.projectId);
       break;
 
+    case 'session:resume':
+      await handleSessionResume(client, message.resumeToken, message.lastSeq);
+      break;
+
     case 'message:send':
       await handleMessageSend(client, message.content, message.attachments);
       break;
 
+    case 'agent:cancel':
+      await handleAgentCancel(client);
+      break;
+
+    case 'turn:undo':
+      await handleTurnUndo(client, message.messageId);
+      break;
+
+    case 'turn:redo':
+      await handleTurnRedo(client, message.messageId);
+      break;
+
     case 'session:end':
       await handleSessionEnd(client);
       break;
+  }
+}
 
-    default:
-      console.log('Unknown message type:', message.type);
+// Protocol version handshake - clients on another version must reload to get a matching frontend
+function handleHello(client: ClientConnection, protocolVersion: number): void {
+  if (protocolVersion !== PROTOCOL_VERSION) {
+    console.log(`Client speaks protocol v${protocolVersion}, expected v${PROTOCOL_VERSION}`);
+    sendToClient(client.ws, {
+      type: 'error',
+      code: 'unsupported_protocol',
+      message: `Unsupported protocol version ${protocolVersion} (server speaks ${PROTOCOL_VERSION})`,
+    });
+    client.ws.close(1002, 'Unsupported protocol version');
+    return;
   }
+
+  client.protocolVersion = protocolVersion;
+  sendToClient(client.ws, { type: 'hello', protocolVersion: PROTOCOL_VERSION });
 }
 
 async function handleSessionStart(client: ClientConnection, projectId?: string): Promise<void> {
   console.log(`Starting session${projectId ? ` for project ${projectId}` : ''}...`);
 
-  // Destroy existing session if any
-  if (client.sessionId) {
-    await destroySession(client.sessionId);
-    if (client.agentWs) {
-      client.agentWs.close();
-      client.agentWs = null;
-    }
-  }
+  // Detach from any previous session - other clients may still be using it
+  leaveSession(client);
+  client.projectId = null;
+  client.role = null;
 
   // If projectId provided, verify it exists
   if (projectId) {
@@ -169,12 +322,117 @@ async function handleSessionStart(client: ClientConnection, projectId?: string):
       });
       return;
     }
+    const role = getProjectRole(project, client.user);
+    if (!role) {
+      sendToClient(client.ws, {
+        type: 'error',
+        message: `You do not have access to project ${projectId}`,
+      });
+      return;
+    }
     client.projectId = projectId;
+    client.role = role;
   }
 
+  // Join the project's running session, or start one
+  const session = projectId
+    ? await withProjectSessionLock(projectId, async () =>
+        projectSessions.get(projectId) || startLiveSession(projectId)
+      )
+    : await startLiveSession();
+
+  if (!joinSession(client, session)) {
+    console.log(`Client disconnected while session ${session.id} was starting`);
+    return;
+  }
+
+  const resumeToken = uuidv4();
+  resumeTokens.set(resumeToken, { session, clientId: client.clientId, userId: client.user.id });
+
+  console.log(`Sending session:ready to frontend - sessionId: ${session.id}, previewUrl: ${session.previewUrl} (${session.clients.size} clients)`);
+  sendToClient(client.ws, {
+    type: 'session:ready',
+    sessionId: session.id,
+    projectId: client.projectId,
+    role: client.role,
+    previewUrl: session.previewUrl,
+    agentBusy: session.pendingTurns.length > 0,
+    resumeToken,
+    seq: session.nextSeq - 1,  // Events after this one will be replayed on resume
+  });
+}
+
+/**
+ * Reattach a reconnecting client to its session and replay the events it missed
+ * Sends session:resume-failed if the session is gone or the events are no longer buffered;
+ * the client should then fall back to session:start
+ */
+async function handleSessionResume(client: ClientConnection, resumeToken: string, lastSeq: number): Promise<void> {
+  const resume = resumeTokens.get(resumeToken);
+  const fail = (reason: string) => {
+    console.log(`Session resume failed: ${reason}`);
+    sendToClient(client.ws, { type: 'session:resume-failed', reason });
+  };
+
+  if (!resume || resume.userId !== client.user.id) {
+    fail('Unknown resume token');
+    return;
+  }
+
+  const { session } = resume;
+  const firstBuffered = session.events[0]?.seq ?? session.nextSeq;
+  if (typeof lastSeq !== 'number' || lastSeq < firstBuffered - 1 || lastSeq >= session.nextSeq) {
+    fail('Missed events are no longer available');
+    return;
+  }
+
+  // Collaborators can lose access while disconnected
+  let role: ProjectRole | null = null;
+  if (session.projectId) {
+    const project = await getProject(session.projectId);
+    role = project ? getProjectRole(project, client.user) : null;
+    if (!role) {
+      fail(`You do not have access to project ${session.projectId}`);
+      return;
+    }
+  }
+
+  // A half-open connection from before the network blip may still be attached
+  session.clients.forEach((other) => {
+    if (other.clientId === resume.clientId) {
+      other.ws.terminate();
+    }
+  });
+
+  leaveSession(client);
+  client.clientId = resume.clientId;
+  client.projectId = session.projectId;
+  client.role = role;
+  if (!joinSession(client, session)) return;
+
+  const missed = session.events.filter((event) =>
+    event.seq > lastSeq && event.exceptClientId !== client.clientId
+  );
+  console.log(`Client resumed session ${session.id}, replaying ${missed.length} events`);
+
+  sendToClient(client.ws, {
+    type: 'session:resumed',
+    sessionId: session.id,
+    projectId: session.projectId,
+    role,
+    previewUrl: session.previewUrl,
+    agentBusy: session.pendingTurns.length > 0,
+  });
+  missed.forEach((event) => sendToClient(client.ws, { ...event.message, seq: event.seq }));
+}
+
+/**
+ * Create a container session and connect to its agent
+ * Project sessions are registered so later clients join them
+ */
+async function startLiveSession(projectId?: string): Promise<LiveSession> {
   // Create new session with project context
   const session = await createSession(projectId);
-  client.sessionId = session.id;
 
   // Wait for container/pod to be ready and get agent WebSocket URL
   let agentUrl: string;
@@ -190,179 +448,624 @@ async function handleSessionStart(client: ClientConnection, projectId?: string):
   }
   await waitForPort(agentUrl, 300000); // 5 min timeout for K8s pod startup (includes image pulls)
 
+  // Preview URL depends on environment
+  let previewUrl: string;
+  if (useKubernetes) {
+    // Use path-based URL - backend proxies /preview/{sessionId} to pod
+    previewUrl = `https://${session.shortId}.saltfish.ai/`;
+  } else {
+    // Local dev: direct access still works
+    previewUrl = `http://localhost:${session.previewPort}`;
+  }
+
+  const live: LiveSession = {
+    id: session.id,
+    projectId: projectId || null,
+    previewUrl,
+    agentWs: null,
+    clients: new Set(),
+    cleanupTimer: null,
+    normalizeActivity: createActivityNormalizer(),
+    currentAssistantResponse: '',
+    currentActions: [],
+    currentTurnResult: null,
+    pendingTurns: [],
+    versionTask: Promise.resolve(),
+    agentNotes: [],
+    events: [],
+    nextSeq: 1,
+  };
+  if (projectId) {
+    projectSessions.set(projectId, live);
+
+    // Tell the agent which uploaded assets are in public/assets/
+    try {
+      const assets = await listProjectAssets(projectId);
+      if (assets.length > 0) {
+        live.agentNotes.push(describeAssets(assets));
+      }
+    } catch (error) {
+      console.error(`Failed to list assets for project ${projectId}:`, error);
+    }
+
+    // Tell the agent the project's resolution, frame rate and length
+    try {
+      const project = await getProject(projectId);
+      if (project) {
+        live.agentNotes.push(describeVideoSettingsNote(getVideoSettings(project)));
+      }
+    } catch (error) {
+      console.error(`Failed to load video settings for project ${projectId}:`, error);
+    }
+  }
+
+  // Tell the agent about the built-in sound effects in public/sfx/
+  try {
+    live.agentNotes.push(describeSoundEffects(await getSoundEffects()));
+  } catch (error) {
+    console.error('Failed to load the sound-effects catalog:', error);
+  }
+  live.agentNotes.push(MUSIC_NOTE);
+  live.agentNotes.push(PROPS_SCHEMA_NOTE);
+
   // Connect to agent WebSocket
-  client.agentWs = new WebSocket(agentUrl);
+  const agentWs = new WebSocket(agentUrl);
+  live.agentWs = agentWs;
 
-  client.agentWs.on('open', () => {
+  agentWs.on('open', () => {
     console.log(`Connected to agent for session ${session.id}`);
     // Session continuity is now handled via AGENT_SESSION_ID env var and SDK resume
   });
 
-  client.agentWs.on('message', async (data: Buffer) => {
-    const message = JSON.parse(data.toString());
+  agentWs.on('message', async (data: Buffer) => {
+    let message;
+    try {
+      message = parseAgentEvent(data.toString());
+    } catch (error) {
+      console.error(`Ignoring malformed agent message for session ${live.id}:`, error);
+      return;
+    }
+
+    // Agent images are deployed separately from the backend, so a mismatch is possible
+    if (message.type === 'hello') {
+      if (message.protocolVersion !== PROTOCOL_VERSION) {
+        console.error(`Agent for session ${live.id} speaks protocol v${message.protocolVersion}, expected v${PROTOCOL_VERSION}`);
+      }
+      return;
+    }
 
     // Handle session ID notification from agent (for persistence)
-    if (message.type === 'session_id' && message.sessionId && client.sessionId) {
+    if (message.type === 'session_id') {
       console.log(`Agent reported session ID: ${message.sessionId}`);
-      await updateSessionAgentId(client.sessionId, message.sessionId);
+      await updateSessionAgentId(live.id, message.sessionId);
       return; // Don't forward this internal message to frontend
     }
 
-    // Track assistant response content
+    // Normalize the SDK stream, track the turn for saving and forward it to every attached frontend
     if (message.type === 'agent_message') {
-      // Accumulate text content from assistant messages
-      if (message.data?.message?.content) {
-        const content = message.data.message.content;
-        if (typeof content === 'string') {
-          client.currentAssistantResponse += content;
-        } else if (Array.isArray(content)) {
-          // Handle array of content blocks
-          for (const block of content) {
-            if (block.type === 'text') {
-              client.currentAssistantResponse += block.text;
-            }
-          }
-        }
-      }
-
-      // Track tool use / actions
-      if (message.data?.message?.tool_use) {
-        const toolUse = message.data.message.tool_use;
-        client.currentActions.push({
-          type: mapToolToActionType(toolUse.name),
-          filePath: toolUse.input?.file_path || toolUse.input?.path,
-          summary: `${toolUse.name}: ${JSON.stringify(toolUse.input).substring(0, 100)}`,
-        });
+      for (const activity of live.normalizeActivity(message.data)) {
+        recordActivity(live, activity);
+        broadcastToSession(live, { type: 'agent:activity', activity });
       }
+      return;
     }
 
-    // Forward agent messages to frontend
-    sendToClient(client.ws, {
-      type: 'agent:message',
-      data: message,
-    });
+    // The agent reports a failed turn with error instead of complete
+    if (message.type === 'error') {
+      broadcastToSession(live, { type: 'error', message: message.message });
+      failOldestTurn(live);
+      return;
+    }
 
     // When agent completes, save the assistant message and sync to storage
     if (message.type === 'complete') {
-      sendToClient(client.ws, { type: 'agent:complete' });
+      const cancelled = message.cancelled === true;
+      broadcastToSession(live, { type: 'agent:complete', cancelled });
 
-      // Save assistant response to Firestore
-      if (client.projectId && client.currentAssistantResponse) {
+      // Save assistant response to the database - a cancelled turn keeps whatever it produced
+      let assistantMessageId: string | undefined;
+      if (live.projectId && (live.currentAssistantResponse || live.currentActions.length > 0 || cancelled)) {
         try {
-          await saveMessage(client.projectId, {
+          const saved = await saveMessage(live.projectId, {
             role: 'assistant',
-            content: client.currentAssistantResponse,
-            actions: client.currentActions.length > 0 ? client.currentActions : undefined,
+            content: live.currentAssistantResponse,
+            actions: live.currentActions.length > 0 ? live.currentActions : undefined,
+            turnResult: live.currentTurnResult || undefined,
+            cancelled: cancelled || undefined,
           });
-          console.log(`Saved assistant message for project ${client.projectId}`);
+          assistantMessageId = saved.id;
+          console.log(`Saved assistant message for project ${live.projectId}`);
         } catch (error) {
           console.error('Failed to save assistant message:', error);
         }
       }
 
-      // Sync project changes to Cloud Storage (don't await - run in background)
-      if (client.sessionId) {
-        syncSession(client.sessionId).catch((err) => {
-          console.error('Background sync failed:', err);
-        });
+      // Sync project changes to storage and commit a version (don't await - run in background)
+      const turn = live.pendingTurns.shift();
+      if (turn) {
+        const commitMessage = formatTurnCommitMessage(turn.prompt, live.currentActions, { cancelled });
+        queueVersionTask(live, () =>
+          syncAndCommit(live, turn, commitMessage, assistantMessageId)
+        );
       }
 
       // Reset tracking
-      client.currentAssistantResponse = '';
-      client.currentActions = [];
+      live.currentAssistantResponse = '';
+      live.currentActions = [];
+      live.currentTurnResult = null;
     }
   });
 
-  client.agentWs.on('error', (error) => {
+  agentWs.on('error', (error) => {
     console.error('Agent WebSocket error:', error);
-    sendToClient(client.ws, {
+    broadcastToSession(live, {
       type: 'error',
       message: 'Agent connection error',
     });
   });
 
-  client.agentWs.on('close', () => {
+  agentWs.on('close', () => {
     console.log(`Agent connection closed for session ${session.id}`);
+    // destroyLiveSession detaches the agent first, so this only handles an agent that went away
+    if (live.agentWs !== agentWs) return;
+
+    // Nothing queued will complete, and new clients must not join a session without an agent
+    while (live.pendingTurns.length > 0) {
+      failOldestTurn(live);
+    }
+    broadcastToSession(live, {
+      type: 'error',
+      message: 'The agent disconnected and the session ended - reopen the project to start a new one',
+    });
+    for (const client of live.clients) {
+      sendToClient(client.ws, { type: 'session:ended' });
+      client.session = null;
+    }
+    live.clients.clear();
+
+    destroyLiveSession(live).catch((error) => {
+      console.error(`Failed to clean up session ${live.id} after its agent disconnected:`, error);
+    });
   });
 
-  // Send session ready to frontend
-  // Preview URL depends on environment
-  let previewUrl: string;
-  if (useKubernetes) {
-    // Use path-based URL - backend proxies /preview/{sessionId} to pod
-    previewUrl = `https://${session.shortId}.saltfish.ai/`;
-  } else {
-    // Local dev: direct access still works
-    previewUrl = `http://localhost:${session.previewPort}`;
+  return live;
+}
+
+/**
+ * Drop the oldest pending turn after the agent failed it
+ * Files it changed before failing are still committed, so the next turn has a snapshot to undo to
+ */
+function failOldestTurn(session: LiveSession): void {
+  const turn = session.pendingTurns.shift();
+  if (turn) {
+    const commitMessage = formatTurnCommitMessage(turn.prompt, session.currentActions, { failed: true });
+    queueVersionTask(session, () => syncAndCommit(session, turn, commitMessage));
   }
 
-  console.log(`Sending session:ready to frontend - sessionId: ${session.id}, previewUrl: ${previewUrl}`);
-  sendToClient(client.ws, {
-    type: 'session:ready',
-    sessionId: session.id,
-    projectId: client.projectId,
-    previewUrl,
+  session.currentAssistantResponse = '';
+  session.currentActions = [];
+  session.currentTurnResult = null;
+}
+
+/**
+ * Attach a client to a session, cancelling any pending cleanup
+ * Returns false if the client disconnected in the meantime
+ */
+function joinSession(client: ClientConnection, session: LiveSession): boolean {
+  if (client.ws.readyState !== WebSocket.OPEN) {
+    if (session.clients.size === 0) {
+      scheduleSessionCleanup(session);
+    }
+    return false;
+  }
+
+  if (session.cleanupTimer) {
+    clearTimeout(session.cleanupTimer);
+    session.cleanupTimer = null;
+  }
+  session.clients.add(client);
+  client.session = session;
+  return true;
+}
+
+// Detach a client from its session; the last client to leave schedules cleanup
+function leaveSession(client: ClientConnection): void {
+  const session = client.session;
+  if (!session) return;
+
+  session.clients.delete(client);
+  client.session = null;
+  if (session.clients.size === 0) {
+    scheduleSessionCleanup(session);
+  }
+}
+
+function scheduleSessionCleanup(session: LiveSession): void {
+  if (session.cleanupTimer) return;
+
+  console.log(`Scheduling session ${session.id} cleanup in ${SESSION_CLEANUP_DELAY / 1000}s...`);
+  session.cleanupTimer = setTimeout(async () => {
+    console.log(`Cleaning up session ${session.id} after grace period`);
+    await destroyLiveSession(session);
+  }, SESSION_CLEANUP_DELAY);
+}
+
+async function destroyLiveSession(session: LiveSession): Promise<void> {
+  if (session.cleanupTimer) {
+    clearTimeout(session.cleanupTimer);
+    session.cleanupTimer = null;
+  }
+  if (session.projectId && projectSessions.get(session.projectId) === session) {
+    projectSessions.delete(session.projectId);
+  }
+  resumeTokens.forEach((resume, token) => {
+    if (resume.session === session) {
+      resumeTokens.delete(token);
+    }
   });
+
+  // Detach the agent before closing it, so its close handler doesn't treat this as a disconnect
+  const agentWs = session.agentWs;
+  session.agentWs = null;
+  await destroySession(session.id);
+  agentWs?.close();
 }
 
 async function handleMessageSend(client: ClientConnection, content: string, attachments?: ImageAttachment[]): Promise<void> {
-  if (!client.agentWs || client.agentWs.readyState !== WebSocket.OPEN) {
+  const session = client.session;
+  if (!session?.agentWs || session.agentWs.readyState !== WebSocket.OPEN) {
     sendToClient(client.ws, {
       type: 'error',
       message: 'No active session or agent not connected',
     });
     return;
   }
+  if (!(await checkClientRole(client, 'editor'))) return;
+
+  try {
+    validateAttachments(attachments || []);
+  } catch (error) {
+    if (!(error instanceof InvalidAttachmentError)) throw error;
+    sendToClient(client.ws, { type: 'error', message: error.message });
+    return;
+  }
 
   console.log('Forwarding message to agent:', content.substring(0, 100), attachments ? `with ${attachments.length} attachments` : '');
 
-  // Save user message to Firestore if we have a project
-  if (client.projectId) {
+  // Save user message to the database if we have a project, with its images moved to storage
+  let storedAttachments: StoredAttachment[] | undefined;
+  if (session.projectId) {
     try {
-      await saveMessage(client.projectId, {
+      storedAttachments = attachments && await saveAttachments(session.projectId, attachments);
+      await saveMessage(session.projectId, {
         role: 'user',
         content,
-        attachments,
+        attachments: storedAttachments,
       });
-      console.log(`Saved user message for project ${client.projectId}`);
+      console.log(`Saved user message for project ${session.projectId}`);
     } catch (error) {
       console.error('Failed to save user message:', error);
     }
   }
 
+  // Show the prompt to the other clients watching this session (by reference, so the
+  // replay buffer doesn't hold image data)
+  broadcastToSession(session, {
+    type: 'message:user',
+    content,
+    attachments: storedAttachments || attachments,
+    userId: client.user.id,
+    userName: client.user.name || client.user.email,
+  }, client);
+
   // Reset assistant response tracking for new message
-  client.currentAssistantResponse = '';
-  client.currentActions = [];
+  session.currentAssistantResponse = '';
+  session.currentActions = [];
+  session.currentTurnResult = null;
+
+  // Snapshot src/ so the turn can be undone. Queued prompts start from the
+  // previous turn's result, which syncAndCommit fills in when that turn completes
+  const turn: AgentTurn = { prompt: content, beforeSha: null };
+  const isFirstTurn = session.pendingTurns.length === 0;
+  session.pendingTurns.push(turn);
+  if (isFirstTurn && session.projectId) {
+    const projectId = session.projectId;
+    await queueVersionTask(session, async () => {
+      await syncSession(session.id);
+      turn.beforeSha = await snapshotProjectVersion(projectId, 'Snapshot before agent turn\n');
+    });
+  }
 
   // Forward to agent (include attachments if present)
-  client.agentWs.send(JSON.stringify({
+  sendToAgent(session, {
     type: 'prompt',
-    content,
+    content: withAgentNotes(session, content),
     attachments,
-  }));
+  });
 }
 
-async function handleSessionEnd(client: ClientConnection): Promise<void> {
-  if (client.sessionId) {
-    await destroySession(client.sessionId);
-    client.sessionId = null;
+// Fold an activity event into the turn that's saved when the agent completes
+function recordActivity(session: LiveSession, activity: AgentActivity): void {
+  switch (activity.type) {
+    case 'assistant_text_delta':
+      session.currentAssistantResponse += (session.currentAssistantResponse ? '\n\n' : '') + activity.text;
+      break;
+
+    case 'tool_started':
+      session.currentActions.push({
+        type: mapToolToActionType(activity.tool),
+        tool: activity.tool,
+        toolUseId: activity.toolUseId,
+        filePath: activity.filePath,
+        summary: activity.summary,
+        status: 'running',
+      });
+      break;
+
+    case 'tool_finished': {
+      const action = session.currentActions.find((a) => a.toolUseId === activity.toolUseId);
+      if (action) {
+        action.status = activity.isError ? 'failed' : 'succeeded';
+        action.diffStats = activity.diffStats;
+      }
+      break;
+    }
+
+    case 'turn_result': {
+      const { type: _type, ...result } = activity;
+      session.currentTurnResult = result;
+      break;
+    }
   }
+}
 
-  if (client.agentWs) {
-    client.agentWs.close();
-    client.agentWs = null;
+function describeAssets(assets: ProjectAsset[]): string {
+  const list = assets.map((asset) => `${asset.name} (${asset.kind})`).join(', ');
+  return `The user's uploaded assets are in public/assets/ - use them with staticFile('assets/<name>'): ${list}`;
+}
+
+function describeVideoSettingsNote(settings: VideoSettings): string {
+  return `The project's video is ${describeVideoSettings(settings)}. These come from config/video-settings.json via VIDEO_SETTINGS in src/videoSettings.ts - use VIDEO_SETTINGS for the main composition and lay out scenes for this size and length instead of hard-coding them. The user changes them in the workspace header, so don't edit the JSON file`;
+}
+
+const MUSIC_NOTE =
+  'For background music, put <MusicBed src="music/<file>.mp3" /> from src/components/MusicBed.tsx at the top level of the composition - it fades in and out and ducks under audio Sequences (name them with "voice", "sfx" or "sound", or pass type="audio"). Licensed tracks with BPM, mood and duration are listed in public/music/tracks.json - when it has none that fit, use music the user uploaded (src="assets/<file>.mp3") and never invent track files';
+
+const PROPS_SCHEMA_NOTE =
+  "To let the user customize a composition's text, colors, numbers or images from a form, wrap its component with withPropsSchema() from src/propsSchema.ts (field types text, color, number, image) and give the <Composition> defaultProps for every field - see src/compositions/MyVideo.tsx. Form values reach the component as props in the preview and in renders";
+
+function describeSoundEffects(sounds: SoundEffect[]): string {
+  const intro =
+    "Sound effects are in public/sfx/ (durations, loudness and tags in public/sfx/catalog.json) - play them with <Audio src={staticFile('sfx/<category>/<name>.mp3')} />";
+  const byCategory = new Map<string, string[]>();
+  for (const sound of sounds) {
+    byCategory.set(sound.category, [...(byCategory.get(sound.category) || []), `${sound.name} (${sound.durationSeconds}s)`]);
+  }
+  const list = [...byCategory].map(([category, names]) => `${category}: ${names.join(', ')}`).join('; ');
+  return list ? `${intro}. ${list}` : intro;
+}
+
+// Prepend pending notes (e.g. about undone turns) so the agent's view of the files stays accurate
+function withAgentNotes(session: LiveSession, content: string): string {
+  if (session.agentNotes.length === 0) {
+    return content;
+  }
+  const notes = session.agentNotes.map((note) => `[Note: ${note}]`).join('\n');
+  session.agentNotes = [];
+  return `${notes}\n\n${content}`;
+}
+
+// Chain a sync/commit step after the session's earlier ones; failures are logged, not thrown
+function queueVersionTask(session: LiveSession, task: () => Promise<void>): Promise<void> {
+  session.versionTask = session.versionTask.then(task).catch((error) => {
+    console.error('Version task failed:', error);
+  });
+  return session.versionTask;
+}
+
+/**
+ * Upload the session's src/ and commit it as a new project version
+ * Links the commit and the turn's snapshot to the assistant message and notifies the clients
+ */
+async function syncAndCommit(
+  session: LiveSession,
+  turn: AgentTurn,
+  commitMessage: string,
+  assistantMessageId?: string
+): Promise<void> {
+  const projectId = session.projectId;
+  await syncSession(session.id);
+  if (!projectId) return;
+
+  const sha = await commitProjectVersion(projectId, commitMessage);
+
+  // The next queued turn starts from this turn's result
+  const nextTurn = session.pendingTurns[0];
+  if (nextTurn && !nextTurn.beforeSha) {
+    nextTurn.beforeSha = sha || turn.beforeSha;
+  }
+
+  if (!sha) return;
+
+  await updateProject(projectId, { currentCommitSha: sha });
+  if (assistantMessageId) {
+    await updateMessage(projectId, assistantMessageId, {
+      commitSha: sha,
+      beforeCommitSha: turn.beforeSha || undefined,
+    });
+  }
+
+  broadcastToSession(session, {
+    type: 'version:created',
+    sha,
+    beforeSha: turn.beforeSha,
+    messageId: assistantMessageId,
+  });
+}
+
+/**
+ * Restore a project version into the live session and report which turns are now undone
+ */
+async function restoreTurnVersion(
+  client: ClientConnection,
+  messageId: string,
+  direction: 'undo' | 'redo'
+): Promise<void> {
+  const session = client.session;
+  if (!session?.projectId) {
+    sendToClient(client.ws, { type: 'error', message: 'No active session' });
+    return;
+  }
+  if (!(await checkClientRole(client, 'editor'))) return;
+  if (session.pendingTurns.length > 0) {
+    sendToClient(client.ws, {
+      type: 'error',
+      message: `Wait for the agent to finish before ${direction === 'undo' ? 'undoing' : 'redoing'} a turn`,
+    });
+    return;
+  }
+
+  const projectId = session.projectId;
+
+  // Let any in-flight commit land first so the message has its SHAs
+  await session.versionTask;
+
+  const messages = await getMessages(projectId);
+  const index = messages.findIndex((message) => message.id === messageId);
+  const target = messages[index];
+  const sha = direction === 'undo' ? target?.beforeCommitSha : target?.commitSha;
+  if (!target || !target.commitSha || !sha) {
+    sendToClient(client.ws, { type: 'error', message: 'This turn has no changes to restore' });
+    return;
+  }
+
+  const newSha = await restoreProjectVersion(projectId, sha);
+  if (!newSha) {
+    sendToClient(client.ws, { type: 'error', message: `Version ${sha} not found` });
+    return;
+  }
+  await updateProject(projectId, { currentCommitSha: newSha });
+
+  // Push the restored files into the container - Vite's watcher hot-reloads the preview
+  await reloadSessionSrc(session.id);
+
+  // Undo also discards every later turn; redo brings back every earlier one
+  const affected = messages.filter((message, i) =>
+    message.commitSha &&
+    (direction === 'undo' ? i >= index && !message.undone : i <= index && message.undone)
+  );
+  await Promise.all(
+    affected.map((message) => updateMessage(projectId, message.id, { undone: direction === 'undo' }))
+  );
+
+  const prompt = messages.slice(0, index).reverse().find((message) => message.role === 'user')?.content || '';
+  const turnLabel = prompt.split('\n')[0].substring(0, 80);
+  session.agentNotes.push(
+    direction === 'undo'
+      ? `The user undid your changes from the turn "${turnLabel}" and any later turns. The files in src/ were restored to their earlier state - re-read files before editing them.`
+      : `The user redid your changes up to the turn "${turnLabel}". Re-read files in src/ before editing them.`
+  );
+
+  console.log(`${direction === 'undo' ? 'Undid' : 'Redid'} turn ${messageId} for project ${projectId} (now at ${newSha})`);
+  broadcastToSession(session, {
+    type: direction === 'undo' ? 'turn:undone' : 'turn:redone',
+    messageIds: affected.map((message) => message.id),
+    sha: newSha,
+  });
+}
+
+/**
+ * Stop the agent's current turn; the agent reports it as a cancelled completion
+ */
+async function handleAgentCancel(client: ClientConnection): Promise<void> {
+  const session = client.session;
+  if (!session?.agentWs || session.agentWs.readyState !== WebSocket.OPEN) {
+    sendToClient(client.ws, { type: 'error', message: 'No active session or agent not connected' });
+    return;
+  }
+  if (!(await checkClientRole(client, 'editor'))) return;
+  if (session.pendingTurns.length === 0) {
+    sendToClient(client.ws, { type: 'error', message: 'The agent is not running' });
+    return;
+  }
+
+  console.log(`Cancelling current agent turn for session ${session.id}`);
+  sendToAgent(session, { type: 'cancel' });
+}
+
+async function handleTurnUndo(client: ClientConnection, messageId: string): Promise<void> {
+  await restoreTurnVersion(client, messageId, 'undo');
+}
+
+async function handleTurnRedo(client: ClientConnection, messageId: string): Promise<void> {
+  await restoreTurnVersion(client, messageId, 'redo');
+}
+
+async function handleSessionEnd(client: ClientConnection): Promise<void> {
+  const session = client.session;
+  if (session) {
+    session.clients.delete(client);
+    client.session = null;
+
+    // Other clients still attached keep the session running
+    if (session.clients.size === 0) {
+      await destroyLiveSession(session);
+    }
   }
 
   client.projectId = null;
   sendToClient(client.ws, { type: 'session:ended' });
 }
 
-function sendToClient(ws: WebSocket, message: any): void {
+/**
+ * Re-check the client's role on its project (collaborators can be changed mid-session)
+ * Sends an error and returns false if it's below the required role
+ */
+async function checkClientRole(client: ClientConnection, required: ProjectRole): Promise<boolean> {
+  // Sessions without a project are private to the client that started them
+  if (!client.projectId) return true;
+
+  const project = await getProject(client.projectId);
+  if (project && hasProjectRole(project, client.user, required)) {
+    return true;
+  }
+
+  client.role = project ? getProjectRole(project, client.user) : null;
+  sendToClient(client.ws, {
+    type: 'error',
+    message: `This action requires the ${required} role on this project`,
+  });
+  return false;
+}
+
+function sendToClient(ws: WebSocket, message: ServerMessage): void {
   if (ws.readyState === WebSocket.OPEN) {
     ws.send(JSON.stringify(message));
   }
 }
 
+function sendToAgent(session: LiveSession, command: AgentCommand): void {
+  if (session.agentWs?.readyState === WebSocket.OPEN) {
+    session.agentWs.send(JSON.stringify(command));
+  }
+}
+
+// Send a message to every client attached to a session, optionally skipping the one it came from
+// Messages get a sequence number and are buffered so reconnecting clients can catch up
+function broadcastToSession(session: LiveSession, message: SessionEvent, except?: ClientConnection): void {
+  const seq = session.nextSeq++;
+  session.events.push({ seq, message, exceptClientId: except?.clientId });
+  if (session.events.length > MAX_BUFFERED_EVENTS) {
+    session.events.shift();
+  }
+
+  session.clients.forEach((client) => {
+    if (client !== except) {
+      sendToClient(client.ws, { ...message, seq });
+    }
+  });
+}
+
 async function waitForPort(url: string, timeout: number): Promise<void> {
   const start = Date.now();
 
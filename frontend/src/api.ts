@@ -1,6 +1,7 @@
 // API client for StoryDream backend
 
-import type { Project, ChatMessage, CreateProjectRequest, RenderJob, RenderJobRequest } from './types';
+import { getAuthHeaders } from './auth';
+import type { Project, ProjectRole, Collaborator, ChatMessage, CreateProjectRequest, RenderJob, RenderJobRequest, RenderBatch, RenderBatchRequest, ProjectAsset, SoundEffect, Voiceover, CompositionInfo } from './types';
 
 // Use relative URL - vite proxy handles /api in dev, nginx in production
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
@@ -10,6 +11,7 @@ async function fetchApi<T>(path: string, options?: RequestInit): Promise<T> {
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...(await getAuthHeaders()),
       ...options?.headers,
     },
   });
@@ -37,11 +39,50 @@ export async function createProject(request: CreateProjectRequest): Promise<Proj
   return data.project;
 }
 
-export async function getProject(projectId: string): Promise<{ project: Project; messages: ChatMessage[] }> {
+export async function duplicateProject(
+  projectId: string,
+  options?: { name?: string; includeMessages?: boolean }
+): Promise<Project> {
+  const data = await fetchApi<{ project: Project }>(`/projects/${projectId}/duplicate`, {
+    method: 'POST',
+    body: JSON.stringify(options || {}),
+  });
+  return data.project;
+}
+
+// Download a project's .tar.gz archive (fetched with auth headers, so a plain link won't do)
+export async function downloadProjectExport(projectId: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/export`, {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(error.error || `HTTP ${response.status}`);
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `storydream-${projectId}.tar.gz`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function importProject(archive: File): Promise<Project> {
+  const data = await fetchApi<{ project: Project }>('/projects/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/gzip' },
+    body: archive,
+  });
+  return data.project;
+}
+
+export async function getProject(projectId: string): Promise<{ project: Project; messages: ChatMessage[]; role: ProjectRole }> {
   return fetchApi(`/projects/${projectId}`);
 }
 
-export async function updateProject(projectId: string, updates: Partial<Pick<Project, 'name' | 'description'>>): Promise<void> {
+export async function updateProject(projectId: string, updates: Partial<Pick<Project, 'name' | 'description' | 'videoSettings'>>): Promise<void> {
   await fetchApi(`/projects/${projectId}`, {
     method: 'PATCH',
     body: JSON.stringify(updates),
@@ -54,6 +95,39 @@ export async function deleteProject(projectId: string): Promise<void> {
   });
 }
 
+// Compositions the preview discovered in Root.tsx, stored for the render picker
+export async function reportCompositions(projectId: string, compositions: CompositionInfo[]): Promise<CompositionInfo[]> {
+  const data = await fetchApi<{ compositions: CompositionInfo[] }>(`/projects/${projectId}/compositions`, {
+    method: 'PUT',
+    body: JSON.stringify({ compositions }),
+  });
+  return data.compositions;
+}
+
+// Collaborators
+
+export async function listCollaborators(projectId: string): Promise<{ ownerId: string; collaborators: Collaborator[] }> {
+  return fetchApi(`/projects/${projectId}/collaborators`);
+}
+
+export async function addCollaborator(
+  projectId: string,
+  invite: { userId?: string; email?: string; role: ProjectRole }
+): Promise<Collaborator> {
+  const data = await fetchApi<{ collaborator: Collaborator }>(`/projects/${projectId}/collaborators`, {
+    method: 'POST',
+    body: JSON.stringify(invite),
+  });
+  return data.collaborator;
+}
+
+// member is the collaborator's userId or email
+export async function removeCollaborator(projectId: string, member: string): Promise<void> {
+  await fetchApi(`/projects/${projectId}/collaborators/${encodeURIComponent(member)}`, {
+    method: 'DELETE',
+  });
+}
+
 // Messages
 
 export async function getMessages(projectId: string): Promise<ChatMessage[]> {
@@ -61,6 +135,93 @@ export async function getMessages(projectId: string): Promise<ChatMessage[]> {
   return data.messages;
 }
 
+// Chat image attachments (fetched with auth headers, so <img src> can't point at the endpoint)
+export async function fetchAttachment(projectId: string, attachmentId: string): Promise<Blob> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/attachments/${attachmentId}`, {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to load attachment (HTTP ${response.status})`);
+  }
+
+  return response.blob();
+}
+
+// Asset library
+
+export async function listAssets(projectId: string): Promise<ProjectAsset[]> {
+  const data = await fetchApi<{ assets: ProjectAsset[] }>(`/projects/${projectId}/assets`);
+  return data.assets;
+}
+
+// Sent as multipart form data, so the browser sets the Content-Type with its boundary
+export async function uploadAssets(projectId: string, files: File[]): Promise<ProjectAsset[]> {
+  const form = new FormData();
+  files.forEach((file) => form.append('files', file));
+
+  const response = await fetch(`${API_BASE}/projects/${projectId}/assets`, {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: form,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(error.error || `HTTP ${response.status}`);
+  }
+
+  const data: { assets: ProjectAsset[] } = await response.json();
+  return data.assets;
+}
+
+export async function deleteAsset(projectId: string, name: string): Promise<void> {
+  await fetchApi(`/projects/${projectId}/assets/${encodeURIComponent(name)}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function generateVoiceover(
+  projectId: string,
+  request: { text: string; voice?: string; speed?: number; name?: string }
+): Promise<Voiceover> {
+  const data = await fetchApi<{ voiceover: Voiceover }>(`/projects/${projectId}/voiceovers`, {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+  return data.voiceover;
+}
+
+// Download a caption file as subtitles (fetched with auth headers, so a plain link won't do)
+export async function downloadCaptions(projectId: string, source: string, format: 'srt' | 'vtt'): Promise<void> {
+  const params = new URLSearchParams({ source });
+  const response = await fetch(`${API_BASE}/projects/${projectId}/captions.${format}?${params}`, {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(error.error || `HTTP ${response.status}`);
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${source.replace(/\.json$/, '')}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Sound effects
+
+export async function searchSoundEffects(options?: { query?: string; category?: string }): Promise<SoundEffect[]> {
+  const params = new URLSearchParams();
+  if (options?.query) params.set('q', options.query);
+  if (options?.category) params.set('category', options.category);
+  const data = await fetchApi<{ sounds: SoundEffect[] }>(`/sfx?${params}`);
+  return data.sounds;
+}
+
 // Renders
 
 export async function createRender(projectId: string, options?: RenderJobRequest): Promise<RenderJob> {
@@ -84,3 +245,46 @@ export async function cancelRender(renderId: string): Promise<void> {
     method: 'DELETE',
   });
 }
+
+// Render batches
+
+export async function createRenderBatch(projectId: string, request: RenderBatchRequest): Promise<RenderBatch> {
+  return fetchApi(`/projects/${projectId}/render-batch`, {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+export async function getProjectRenderBatches(projectId: string): Promise<RenderBatch[]> {
+  const data = await fetchApi<{ batches: RenderBatch[] }>(`/projects/${projectId}/render-batches`);
+  return data.batches;
+}
+
+export async function getRenderBatch(batchId: string): Promise<RenderBatch> {
+  return fetchApi(`/render-batches/${batchId}`);
+}
+
+// Retries every failed row when no rows are given
+export async function retryRenderBatch(batchId: string, rows?: number[]): Promise<RenderBatch> {
+  return fetchApi(`/render-batches/${batchId}/retry`, {
+    method: 'POST',
+    body: JSON.stringify({ rows }),
+  });
+}
+
+export async function cancelRenderBatch(batchId: string): Promise<void> {
+  await fetchApi(`/render-batches/${batchId}`, {
+    method: 'DELETE',
+  });
+}
+
+// Download the batch manifest (row -> status and output URL) as JSON
+export async function downloadRenderBatchManifest(batchId: string): Promise<void> {
+  const manifest = await fetchApi<unknown>(`/render-batches/${batchId}/manifest`);
+  const url = URL.createObjectURL(new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `render-batch-${batchId.slice(0, 8)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,26 @@
+// Bearer token handling for the StoryDream backend
+
+// Where the token lives when no sign-in integration is installed.
+// With the backend's AUTH_DRIVER=dev any value works and is used as the user ID
+const TOKEN_STORAGE_KEY = 'storydream.authToken';
+
+type AuthTokenProvider = () => string | null | Promise<string | null>;
+
+let tokenProvider: AuthTokenProvider = () =>
+  localStorage.getItem(TOKEN_STORAGE_KEY) || import.meta.env.VITE_AUTH_TOKEN || null;
+
+/**
+ * Let a sign-in integration (e.g. an OIDC client) supply fresh tokens
+ */
+export function setAuthTokenProvider(provider: AuthTokenProvider): void {
+  tokenProvider = provider;
+}
+
+export async function getAuthToken(): Promise<string | null> {
+  return tokenProvider();
+}
+
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const token = await getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
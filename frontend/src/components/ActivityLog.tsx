@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { ChevronRight, Loader2, Check, X, Brain } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { AgentAction, TurnResult } from '../types';
+
+interface ActivityLogProps {
+  actions?: AgentAction[];
+  thinking?: string;
+  turnResult?: TurnResult;
+  streaming?: boolean;
+}
+
+/**
+ * Collapsible list of the tool calls an agent turn made, with the turn's cost and duration
+ */
+export function ActivityLog({ actions = [], thinking, turnResult, streaming = false }: ActivityLogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (actions.length === 0 && !thinking && !turnResult) {
+    return null;
+  }
+
+  const running = actions.find((action) => action.status === 'running');
+  const failedCount = actions.filter((action) => action.status === 'failed').length;
+
+  return (
+    <div className="mt-2 border-t border-border/60 pt-1 text-xs text-muted-foreground">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex w-full items-center gap-1 py-1 text-left hover:text-foreground"
+      >
+        <ChevronRight className={cn('w-3 h-3 shrink-0 transition-transform', isOpen && 'rotate-90')} />
+        {streaming && running ? (
+          <>
+            <Loader2 className="w-3 h-3 shrink-0 animate-spin" />
+            <span className="truncate">{running.summary}</span>
+          </>
+        ) : (
+          <span>
+            Activity · {actions.length} {actions.length === 1 ? 'step' : 'steps'}
+            {failedCount > 0 && ` · ${failedCount} failed`}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="space-y-1 pb-1 pl-4">
+          {thinking && (
+            <div className="flex gap-1.5">
+              <Brain className="w-3 h-3 mt-0.5 shrink-0" />
+              <p className="whitespace-pre-wrap italic line-clamp-4">{thinking}</p>
+            </div>
+          )}
+
+          {actions.map((action, index) => (
+            <div key={action.toolUseId || index} className="flex items-center gap-1.5">
+              <ActionStatusIcon status={action.status} />
+              <span className="flex-1 truncate font-mono" title={action.summary}>
+                {action.summary}
+              </span>
+              {action.diffStats && (
+                <span className="shrink-0 font-mono">
+                  <span className="text-green-600">+{action.diffStats.added}</span>{' '}
+                  <span className="text-red-600">-{action.diffStats.removed}</span>
+                </span>
+              )}
+            </div>
+          ))}
+
+          {turnResult && (
+            <div className={cn('pt-1', turnResult.isError && 'text-destructive')}>
+              {formatTurnResult(turnResult)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ActionStatusIcon({ status }: { status?: AgentAction['status'] }) {
+  if (status === 'running') {
+    return <Loader2 className="w-3 h-3 shrink-0 animate-spin" />;
+  }
+  if (status === 'failed') {
+    return <X className="w-3 h-3 shrink-0 text-destructive" />;
+  }
+  return <Check className="w-3 h-3 shrink-0 text-green-600" />;
+}
+
+function formatTurnResult(result: TurnResult): string {
+  const parts: string[] = [];
+  if (result.isError) {
+    parts.push('Turn failed');
+  }
+  if (result.durationMs !== undefined) {
+    parts.push(`${(result.durationMs / 1000).toFixed(1)}s`);
+  }
+  if (result.inputTokens !== undefined || result.outputTokens !== undefined) {
+    parts.push(`${formatTokens(result.inputTokens || 0)} in / ${formatTokens(result.outputTokens || 0)} out`);
+  }
+  if (result.costUsd !== undefined) {
+    parts.push(`$${result.costUsd.toFixed(4)}`);
+  }
+  return parts.join(' · ');
+}
+
+function formatTokens(count: number): string {
+  return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+}
@@ -0,0 +1,262 @@
+import { useState, useEffect, useRef } from 'react';
+import { listAssets, uploadAssets, deleteAsset, generateVoiceover, downloadCaptions } from '../api';
+import type { ProjectAsset, AssetKind } from '../types';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { Loader2, AlertCircle, Upload, Trash2, Copy, Check, Image, Film, Music, Type, FileJson, Mic, Captions } from 'lucide-react';
+
+interface AssetsDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canEdit: boolean;
+}
+
+const KIND_ICONS: Record<AssetKind, typeof Image> = {
+  image: Image,
+  video: Film,
+  audio: Music,
+  font: Type,
+  data: FileJson,
+};
+
+// Matches the file types the backend accepts (see backend/src/assets.ts)
+const ACCEPTED_FILES = '.png,.jpg,.jpeg,.gif,.webp,.mp4,.webm,.mov,.mp3,.wav,.ogg,.m4a,.aac,.ttf,.otf,.woff,.woff2,.json';
+
+/**
+ * Project asset library - uploaded media the agent can use in compositions with staticFile()
+ */
+export function AssetsDialog({ projectId, open, onOpenChange, canEdit }: AssetsDialogProps) {
+  const [assets, setAssets] = useState<ProjectAsset[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [copiedName, setCopiedName] = useState<string | null>(null);
+  const [voiceoverText, setVoiceoverText] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    async function loadAssets() {
+      try {
+        setIsLoading(true);
+        setAssets(await listAssets(projectId));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load assets');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadAssets();
+  }, [projectId, open]);
+
+  function addAssets(added: ProjectAsset[]) {
+    const addedNames = new Set(added.map((asset) => asset.name));
+    setAssets((prev) =>
+      [...prev.filter((asset) => !addedNames.has(asset.name)), ...added].sort((a, b) => a.name.localeCompare(b.name))
+    );
+  }
+
+  async function handleUpload(files: File[]) {
+    if (files.length === 0) return;
+
+    try {
+      setIsUploading(true);
+      addAssets(await uploadAssets(projectId, files));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload assets');
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  async function handleGenerateVoiceover() {
+    const text = voiceoverText.trim();
+    if (!text) return;
+
+    try {
+      setIsGenerating(true);
+      const voiceover = await generateVoiceover(projectId, { text });
+      addAssets([voiceover.audio, voiceover.timings]);
+      setVoiceoverText('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate voiceover');
+    } finally {
+      setIsGenerating(false);
+    }
+  }
+
+  async function handleDelete(asset: ProjectAsset) {
+    try {
+      await deleteAsset(projectId, asset.name);
+      setAssets((prev) => prev.filter((a) => a.name !== asset.name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete asset');
+    }
+  }
+
+  async function handleDownloadCaptions(asset: ProjectAsset, format: 'srt' | 'vtt') {
+    try {
+      await downloadCaptions(projectId, asset.name, format);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download captions');
+    }
+  }
+
+  async function handleCopyPath(asset: ProjectAsset) {
+    await navigator.clipboard.writeText(`staticFile('${asset.staticPath}')`);
+    setCopiedName(asset.name);
+    setTimeout(() => setCopiedName((name) => (name === asset.name ? null : name)), 1500);
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    if (canEdit && !isUploading) {
+      handleUpload(Array.from(e.dataTransfer.files));
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Assets</DialogTitle>
+          <DialogDescription>
+            Images, video clips, audio, fonts and generated voiceovers for your videos. Ask the agent to use them by name.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Drop zone */}
+        {canEdit && (
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            onClick={() => !isUploading && fileInputRef.current?.click()}
+            className={cn(
+              'flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 text-sm text-muted-foreground cursor-pointer transition-colors',
+              isDragging ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+            )}
+          >
+            {isUploading ? <Loader2 className="w-6 h-6 animate-spin" /> : <Upload className="w-6 h-6" />}
+            <span>{isUploading ? 'Uploading...' : 'Drop files here or click to upload'}</span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ACCEPTED_FILES}
+              className="hidden"
+              onChange={(e) => {
+                handleUpload(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+            />
+          </div>
+        )}
+
+        {/* Voiceover generation */}
+        {canEdit && (
+          <div className="space-y-2">
+            <Textarea
+              value={voiceoverText}
+              onChange={(e) => setVoiceoverText(e.target.value)}
+              placeholder="Type a script to generate a voiceover..."
+              rows={2}
+            />
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={handleGenerateVoiceover} disabled={!voiceoverText.trim() || isGenerating}>
+                {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mic className="w-4 h-4" />}
+                Generate voiceover
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Asset list */}
+        <div className="max-h-80 overflow-y-auto space-y-1">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : assets.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-2">No assets uploaded yet.</p>
+          ) : (
+            assets.map((asset) => {
+              const KindIcon = KIND_ICONS[asset.kind];
+              return (
+                <div key={asset.name} className="flex items-center gap-3 rounded-md px-1 py-1 hover:bg-muted/50">
+                  {asset.kind === 'image' ? (
+                    <img src={asset.url} alt={asset.name} className="w-10 h-10 rounded object-cover shrink-0" />
+                  ) : (
+                    <div className="flex w-10 h-10 items-center justify-center rounded bg-muted shrink-0">
+                      <KindIcon className="w-5 h-5 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-foreground truncate">{asset.name}</p>
+                    <p className="text-xs text-muted-foreground font-mono truncate">{asset.staticPath}</p>
+                  </div>
+                  {/* Voiceover timings and caption files export as subtitles */}
+                  {asset.kind === 'data' && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" title="Download subtitles">
+                          <Captions className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => handleDownloadCaptions(asset, 'srt')}>SubRip (.srt)</DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleDownloadCaptions(asset, 'vtt')}>WebVTT (.vtt)</DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                  <Button variant="ghost" size="icon" title="Copy staticFile() path" onClick={() => handleCopyPath(asset)}>
+                    {copiedName === asset.name ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                  </Button>
+                  {canEdit && (
+                    <Button variant="ghost" size="icon" title="Delete asset" onClick={() => handleDelete(asset)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
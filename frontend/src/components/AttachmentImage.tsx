@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { Loader2, ImageOff } from 'lucide-react';
+import { fetchAttachment } from '../api';
+import { cn } from '@/lib/utils';
+import type { ImageAttachment, StoredAttachment } from '../types';
+
+interface AttachmentImageProps {
+  attachment: StoredAttachment | ImageAttachment;
+  projectId?: string;
+  className?: string;
+}
+
+/**
+ * Image attached to a chat message - inline data while sending, loaded from the project once stored
+ */
+export function AttachmentImage({ attachment, projectId, className }: AttachmentImageProps) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const attachmentId = 'id' in attachment ? attachment.id : null;
+
+  useEffect(() => {
+    if (!attachmentId || !projectId) return;
+
+    let isCancelled = false;
+    let url: string | null = null;
+
+    fetchAttachment(projectId, attachmentId)
+      .then((blob) => {
+        if (isCancelled) return;
+        url = URL.createObjectURL(blob);
+        setObjectUrl(url);
+      })
+      .catch((error) => {
+        console.error('Failed to load attachment:', error);
+        if (!isCancelled) setFailed(true);
+      });
+
+    return () => {
+      isCancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [projectId, attachmentId]);
+
+  const src = 'data' in attachment ? `data:${attachment.mediaType};base64,${attachment.data}` : objectUrl;
+  const alt = attachment.name || 'Attached image';
+
+  if (!src) {
+    return (
+      <div
+        title={alt}
+        className={cn('flex h-[100px] w-[100px] items-center justify-center rounded-lg bg-background/40', className)}
+      >
+        {failed || !projectId ? (
+          <ImageOff className="w-5 h-5 opacity-60" />
+        ) : (
+          <Loader2 className="w-5 h-5 animate-spin opacity-60" />
+        )}
+      </div>
+    );
+  }
+
+  return <img src={src} alt={alt} className={cn('rounded-lg object-cover', className)} />;
+}
@@ -8,25 +8,42 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Send, Loader2, MessageSquare, Plus, ImagePlus, X } from 'lucide-react';
+import { Send, Loader2, MessageSquare, Plus, ImagePlus, X, Undo2, Redo2, Eye, Square, Music } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { ImageAttachment } from '../types';
+import type { AgentAction, ImageAttachment, StoredAttachment, TurnResult } from '../types';
+import { ActivityLog } from './ActivityLog';
+import { AttachmentImage } from './AttachmentImage';
+import { SoundEffectsDialog } from './SoundEffectsDialog';
 
 interface Message {
+  id?: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
-  attachments?: ImageAttachment[];
+  attachments?: (StoredAttachment | ImageAttachment)[];
+  actions?: AgentAction[];
+  turnResult?: TurnResult;
+  thinking?: string;
+  streaming?: boolean;
+  commitSha?: string;
+  undone?: boolean;
+  cancelled?: boolean;
 }
 
 interface ChatProps {
+  projectId?: string;  // Loads stored attachments
   messages: Message[];
   isLoading: boolean;
   onSendMessage: (content: string, attachments?: ImageAttachment[]) => void;
+  onUndoTurn?: (messageId: string) => void;
+  onRedoTurn?: (messageId: string) => void;
+  onCancel?: () => void;
+  readOnly?: boolean;  // Viewers can follow the conversation but not send messages
 }
 
-export function Chat({ messages, isLoading, onSendMessage }: ChatProps) {
+export function Chat({ projectId, messages, isLoading, onSendMessage, onUndoTurn, onRedoTurn, onCancel, readOnly = false }: ChatProps) {
   const [input, setInput] = useState('');
   const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
+  const [showSoundEffects, setShowSoundEffects] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -70,6 +87,10 @@ export function Chat({ messages, isLoading, onSendMessage }: ChatProps) {
     setAttachments((prev) => prev.filter((_, i) => i !== index));
   };
 
+  const insertRequest = (request: string) => {
+    setInput((prev) => (prev.trim() ? `${prev.trimEnd()} ${request}` : request));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (input.trim() || attachments.length > 0) {
@@ -114,20 +135,62 @@ export function Chat({ messages, isLoading, onSendMessage }: ChatProps) {
                 {message.attachments && message.attachments.length > 0 && (
                   <div className="flex flex-wrap gap-2 mb-2">
                     {message.attachments.map((att, i) => (
-                      <img
-                        key={i}
-                        src={`data:${att.mediaType};base64,${att.data}`}
-                        alt={att.name || 'Attached image'}
-                        className="max-w-[200px] max-h-[150px] rounded-lg object-cover"
+                      <AttachmentImage
+                        key={'id' in att ? att.id : i}
+                        attachment={att}
+                        projectId={projectId}
+                        className="max-w-[200px] max-h-[150px]"
                       />
                     ))}
                   </div>
                 )}
                 {message.content && (
-                  <pre className="whitespace-pre-wrap font-sans">
+                  <pre className={cn('whitespace-pre-wrap font-sans', message.undone && 'opacity-60')}>
                     {message.content}
                   </pre>
                 )}
+                {message.role === 'assistant' && (
+                  <ActivityLog
+                    actions={message.actions}
+                    thinking={message.thinking}
+                    turnResult={message.turnResult}
+                    streaming={message.streaming}
+                  />
+                )}
+                {message.cancelled && (
+                  <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+                    <Square className="w-3 h-3" />
+                    Stopped
+                  </div>
+                )}
+                {/* Undo/redo for assistant turns that changed files */}
+                {message.role === 'assistant' && message.id && message.commitSha && !readOnly && (
+                  <div className="flex justify-end mt-1 -mr-2">
+                    {message.undone ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs text-muted-foreground"
+                        disabled={!onRedoTurn || isLoading}
+                        onClick={() => onRedoTurn?.(message.id!)}
+                      >
+                        <Redo2 className="w-3 h-3 mr-1" />
+                        Redo this turn
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs text-muted-foreground"
+                        disabled={!onUndoTurn || isLoading}
+                        onClick={() => onUndoTurn?.(message.id!)}
+                      >
+                        <Undo2 className="w-3 h-3 mr-1" />
+                        Undo this turn
+                      </Button>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           ))}
@@ -148,74 +211,98 @@ export function Chat({ messages, isLoading, onSendMessage }: ChatProps) {
       </ScrollArea>
 
       {/* Input */}
-      <form onSubmit={handleSubmit} className="p-4 border-t">
-        {/* Hidden file input */}
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept="image/jpeg,image/png,image/gif,image/webp"
-          multiple
-          onChange={handleFileSelect}
-          className="hidden"
-        />
-
-        {/* Attachment previews */}
-        {attachments.length > 0 && (
-          <div className="flex flex-wrap gap-2 mb-3">
-            {attachments.map((att, index) => (
-              <div key={index} className="relative group">
-                <img
-                  src={`data:${att.mediaType};base64,${att.data}`}
-                  alt={att.name || 'Attachment'}
-                  className="w-16 h-16 rounded-lg object-cover border"
-                />
-                <button
-                  type="button"
-                  onClick={() => removeAttachment(index)}
-                  className="absolute -top-2 -right-2 w-5 h-5 bg-destructive text-destructive-foreground rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
-                >
-                  <X className="w-3 h-3" />
-                </button>
-              </div>
-            ))}
-          </div>
-        )}
-
-        <div className="flex gap-2">
-          {/* Plus button with dropdown */}
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button type="button" variant="outline" size="icon">
-                <Plus className="w-4 h-4" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="start">
-              <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
-                <ImagePlus className="w-4 h-4 mr-2" />
-                Add image
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
-
-          <Input
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            placeholder={isLoading ? "Send another message (will be queued)..." : "Describe your video changes..."}
-            className="flex-1"
+      {readOnly ? (
+        <div className="p-4 border-t flex items-center justify-center gap-2 text-sm text-muted-foreground">
+          <Eye className="w-4 h-4" />
+          View only - ask the owner for edit access to make changes
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="p-4 border-t">
+          {/* Hidden file input */}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/gif,image/webp"
+            multiple
+            onChange={handleFileSelect}
+            className="hidden"
           />
-          <Button
-            type="submit"
-            disabled={!input.trim() && attachments.length === 0}
-            size="icon"
-          >
-            {isLoading ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
-              <Send className="w-4 h-4" />
+
+          {/* Attachment previews */}
+          {attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {attachments.map((att, index) => (
+                <div key={index} className="relative group">
+                  <img
+                    src={`data:${att.mediaType};base64,${att.data}`}
+                    alt={att.name || 'Attachment'}
+                    className="w-16 h-16 rounded-lg object-cover border"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeAttachment(index)}
+                    className="absolute -top-2 -right-2 w-5 h-5 bg-destructive text-destructive-foreground rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {/* Plus button with dropdown */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button type="button" variant="outline" size="icon">
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+                  <ImagePlus className="w-4 h-4 mr-2" />
+                  Add image
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowSoundEffects(true)}>
+                  <Music className="w-4 h-4 mr-2" />
+                  Add sound effect
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={isLoading ? "Send another message (will be queued)..." : "Describe your video changes..."}
+              className="flex-1"
+            />
+            {isLoading && onCancel && (
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={onCancel}
+                title="Stop the agent"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
             )}
-          </Button>
-        </div>
-      </form>
+            <Button
+              type="submit"
+              disabled={!input.trim() && attachments.length === 0}
+              size="icon"
+            >
+              {isLoading ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4" />
+              )}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      <SoundEffectsDialog open={showSoundEffects} onOpenChange={setShowSoundEffects} onInsert={insertRequest} />
     </div>
   );
 }
@@ -1,9 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { listProjects, createProject, deleteProject } from '../api';
+import { listProjects, createProject, deleteProject, duplicateProject, downloadProjectExport, importProject } from '../api';
 import type { Project } from '../types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -14,13 +15,23 @@ import {
   DialogTitle,
   DialogFooter,
 } from '@/components/ui/dialog';
-import { Plus, Video, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Plus, Video, Trash2, Loader2, AlertCircle, MoreVertical, Copy, Download, Upload, Users } from 'lucide-react';
 
 export function Dashboard() {
   const navigate = useNavigate();
   const [projects, setProjects] = useState<Project[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreating, setIsCreating] = useState(false);
+  const [duplicatingId, setDuplicatingId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [error, setError] = useState<string | null>(null);
 
   // New project form
@@ -60,8 +71,43 @@ export function Dashboard() {
     }
   }
 
-  async function handleDeleteProject(projectId: string, e: React.MouseEvent) {
-    e.stopPropagation();
+  async function handleDuplicateProject(projectId: string, includeMessages: boolean) {
+    try {
+      setDuplicatingId(projectId);
+      const copy = await duplicateProject(projectId, { includeMessages });
+      setProjects((prev) => [copy, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to duplicate project');
+    } finally {
+      setDuplicatingId(null);
+    }
+  }
+
+  async function handleExportProject(projectId: string) {
+    try {
+      await downloadProjectExport(projectId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export project');
+    }
+  }
+
+  async function handleImportProject(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      const project = await importProject(file);
+      setProjects((prev) => [project, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import project');
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
+  async function handleDeleteProject(projectId: string) {
     if (!confirm('Are you sure you want to delete this project?')) return;
 
     try {
@@ -72,6 +118,10 @@ export function Dashboard() {
     }
   }
 
+  function canEdit(project: Project) {
+    return project.role !== 'viewer';
+  }
+
   function formatDate(dateString: string) {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -90,10 +140,27 @@ export function Dashboard() {
             <h1 className="text-3xl font-bold text-foreground">StoryDream</h1>
             <p className="text-muted-foreground mt-1">Your video projects</p>
           </div>
-          <Button onClick={() => setShowCreateModal(true)}>
-            <Plus className="w-4 h-4" />
-            New Project
-          </Button>
+          <div className="flex gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".tar.gz,.tgz,application/gzip"
+              onChange={handleImportProject}
+              className="hidden"
+            />
+            <Button
+              variant="outline"
+              onClick={() => importInputRef.current?.click()}
+              disabled={isImporting}
+            >
+              {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              Import
+            </Button>
+            <Button onClick={() => setShowCreateModal(true)}>
+              <Plus className="w-4 h-4" />
+              New Project
+            </Button>
+          </div>
         </div>
 
         {/* Error message */}
@@ -149,18 +216,62 @@ export function Dashboard() {
                       <h3 className="text-lg font-medium text-foreground group-hover:text-primary transition-colors">
                         {project.name}
                       </h3>
+                      {project.role && project.role !== 'owner' && (
+                        <Badge variant="secondary" className="text-xs font-normal mt-1">
+                          <Users className="w-3 h-3 mr-1" />
+                          Shared · {project.role === 'editor' ? 'Can edit' : 'View only'}
+                        </Badge>
+                      )}
                       <p className="text-sm text-muted-foreground mt-1">
                         Last opened {formatDate(project.lastOpenedAt)}
                       </p>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={(e) => handleDeleteProject(project.id, e)}
-                      className="text-muted-foreground hover:text-destructive hover:bg-destructive/10 opacity-0 group-hover:opacity-100 transition-opacity"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    {/* Duplicate and export need edit access, delete is owner-only */}
+                    {canEdit(project) && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => e.stopPropagation()}
+                            disabled={duplicatingId === project.id}
+                            className="text-muted-foreground opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+                          >
+                            {duplicatingId === project.id ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <MoreVertical className="w-4 h-4" />
+                            )}
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                          <DropdownMenuItem onClick={() => handleDuplicateProject(project.id, false)}>
+                            <Copy className="w-4 h-4 mr-2" />
+                            Duplicate
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleDuplicateProject(project.id, true)}>
+                            <Copy className="w-4 h-4 mr-2" />
+                            Duplicate with chat history
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleExportProject(project.id)}>
+                            <Download className="w-4 h-4 mr-2" />
+                            Export
+                          </DropdownMenuItem>
+                          {project.role === 'owner' && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                onClick={() => handleDeleteProject(project.id)}
+                                className="text-destructive focus:text-destructive"
+                              >
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
                   </div>
                 </CardContent>
               </Card>
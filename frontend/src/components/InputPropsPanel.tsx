@@ -0,0 +1,140 @@
+import { useState, useEffect } from 'react';
+import { listAssets } from '../api';
+import type { CompositionInfo, ProjectAsset, PropField } from '../types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RotateCcw, X } from 'lucide-react';
+
+interface InputPropsPanelProps {
+  projectId: string;
+  composition: CompositionInfo;
+  values: Record<string, unknown>;  // Changed props only, merged over the composition's defaultProps
+  onChange: (values: Record<string, unknown>) => void;
+  onClose: () => void;
+}
+
+const selectClassName =
+  'h-10 w-full rounded-md border border-input bg-background px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+/**
+ * Form generated from a composition's propsSchema; changes update the preview as they're typed
+ * and are used by the next render of the composition
+ */
+export function InputPropsPanel({ projectId, composition, values, onChange, onClose }: InputPropsPanelProps) {
+  const [images, setImages] = useState<ProjectAsset[]>([]);
+  const fields = Object.entries(composition.propsSchema || {});
+  const hasImageFields = fields.some(([, field]) => field.type === 'image');
+
+  // Image fields pick from the project's uploaded images
+  useEffect(() => {
+    if (!hasImageFields) return;
+    listAssets(projectId)
+      .then((assets) => setImages(assets.filter((asset) => asset.kind === 'image')))
+      .catch((error) => console.error('Failed to list assets:', error));
+  }, [projectId, hasImageFields]);
+
+  const handleFieldChange = (name: string, value: unknown) => {
+    onChange({ ...values, [name]: value });
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-2 px-4 py-3 border-b">
+        <div className="flex-1 min-w-0">
+          <h2 className="text-sm font-medium text-foreground">Props</h2>
+          <p className="text-xs text-muted-foreground truncate">{composition.id}</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => onChange({})}
+          disabled={Object.keys(values).length === 0}
+          title="Reset to defaults"
+        >
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-4">
+          {fields.map(([name, field]) => (
+            <PropInput
+              key={name}
+              id={`prop-${name}`}
+              label={field.label || name}
+              field={field}
+              value={name in values ? values[name] : composition.defaultProps[name]}
+              images={images}
+              onChange={(value) => handleFieldChange(name, value)}
+            />
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
+
+interface PropInputProps {
+  id: string;
+  label: string;
+  field: PropField;
+  value: unknown;
+  images: ProjectAsset[];
+  onChange: (value: unknown) => void;
+}
+
+function PropInput({ id, label, field, value, images, onChange }: PropInputProps) {
+  const text = typeof value === 'string' ? value : '';
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      {field.type === 'text' && field.multiline && (
+        <Textarea id={id} value={text} onChange={(e) => onChange(e.target.value)} rows={3} />
+      )}
+      {field.type === 'text' && !field.multiline && (
+        <Input id={id} value={text} onChange={(e) => onChange(e.target.value)} />
+      )}
+      {field.type === 'color' && (
+        <div className="flex gap-2">
+          <input
+            type="color"
+            value={/^#[0-9a-f]{6}$/i.test(text) ? text : '#000000'}
+            onChange={(e) => onChange(e.target.value)}
+            className="h-10 w-12 rounded-md border border-input bg-background p-1 cursor-pointer"
+          />
+          <Input id={id} value={text} onChange={(e) => onChange(e.target.value)} className="flex-1 font-mono" />
+        </div>
+      )}
+      {field.type === 'number' && (
+        <Input
+          id={id}
+          type="number"
+          value={typeof value === 'number' ? value : ''}
+          min={field.min}
+          max={field.max}
+          step={field.step ?? 'any'}
+          // Empty or partial input isn't sent, so the preview keeps the last number
+          onChange={(e) => e.target.value !== '' && Number.isFinite(e.target.valueAsNumber) && onChange(e.target.valueAsNumber)}
+        />
+      )}
+      {field.type === 'image' && (
+        <select id={id} value={text} onChange={(e) => onChange(e.target.value)} className={selectClassName}>
+          <option value="">None</option>
+          {images.map((image) => (
+            <option key={image.staticPath} value={image.staticPath}>
+              {image.name}
+            </option>
+          ))}
+          {text && !images.some((image) => image.staticPath === text) && <option value={text}>{text}</option>}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,22 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useWebSocket } from '../hooks/useWebSocket';
+import { usePreviewCompositions } from '../hooks/usePreviewCompositions';
 import { getProject } from '../api';
 import { Chat } from './Chat';
 import { VideoPreview } from './VideoPreview';
 import { RenderButton } from './RenderButton';
+import { ShareDialog } from './ShareDialog';
+import { AssetsDialog } from './AssetsDialog';
+import { InputPropsPanel } from './InputPropsPanel';
+import { RenderBatchDialog } from './RenderBatchDialog';
+import { RenderHistoryDialog } from './RenderHistoryDialog';
+import { VideoSettingsDialog, DEFAULT_VIDEO_SETTINGS, formatVideoSettings } from './VideoSettingsDialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
-import { ChevronLeft, Loader2, AlertTriangle, Wifi, WifiOff } from 'lucide-react';
-import type { Project, ChatMessage } from '../types';
+import { ChevronLeft, Loader2, AlertTriangle, Wifi, WifiOff, Eye, Share2, FolderOpen, Film, SlidersHorizontal, Layers, History } from 'lucide-react';
+import type { Project, ProjectRole, ChatMessage, VideoSettings } from '../types';
 
 export function ProjectWorkspace() {
   const { projectId } = useParams<{ projectId: string }>();
@@ -17,6 +24,15 @@ export function ProjectWorkspace() {
 
   const [project, setProject] = useState<Project | null>(null);
   const [initialMessages, setInitialMessages] = useState<ChatMessage[]>([]);
+  const [role, setRole] = useState<ProjectRole>('owner');
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showAssetsDialog, setShowAssetsDialog] = useState(false);
+  const [showVideoSettingsDialog, setShowVideoSettingsDialog] = useState(false);
+  const [showPropsPanel, setShowPropsPanel] = useState(false);
+  const [showBatchDialog, setShowBatchDialog] = useState(false);
+  const [showRenderHistory, setShowRenderHistory] = useState(false);
+  // Props form values by composition ID, used by the preview and the next render
+  const [inputProps, setInputProps] = useState<Record<string, Record<string, unknown>>>({});
   const [loadingProject, setLoadingProject] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -30,6 +46,7 @@ export function ProjectWorkspace() {
         const data = await getProject(projectId!);
         setProject(data.project);
         setInitialMessages(data.messages);
+        setRole(data.role);
         setError(null);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load project');
@@ -41,10 +58,27 @@ export function ProjectWorkspace() {
     loadProject();
   }, [projectId]);
 
-  const { isConnected, isSessionActive, isLoading, previewUrl, messages, startSession, sendMessage, subscribeToRenderEvents } = useWebSocket({
+  const canEdit = role !== 'viewer';
+  const videoSettings = project?.videoSettings ?? DEFAULT_VIDEO_SETTINGS;
+
+  // The session's preview reloads with new settings, so only the project record needs updating here
+  const handleVideoSettingsSaved = (settings: VideoSettings) => {
+    setProject((prev) => (prev ? { ...prev, videoSettings: settings } : prev));
+  };
+
+  const { isConnected, isSessionActive, isLoading, previewUrl, messages, startSession, sendMessage, undoTurn, redoTurn, cancelAgent, subscribeToRenderEvents } = useWebSocket({
     projectId,
     initialMessages,
+    canEdit,
+  });
+
+  const { compositions, previewedCompositionId } = usePreviewCompositions({
+    projectId,
+    initialCompositions: project?.compositions,
+    canEdit,
   });
+  const previewedComposition = compositions.find((c) => c.id === previewedCompositionId);
+  const canEditProps = Boolean(previewedComposition?.propsSchema && Object.keys(previewedComposition.propsSchema).length > 0);
 
   // Auto-start session when project is loaded and connected
   useEffect(() => {
@@ -111,10 +145,56 @@ export function ProjectWorkspace() {
                 Connecting...
               </Badge>
             )}
+            {!canEdit && (
+              <Badge variant="outline" className="text-xs font-normal text-muted-foreground">
+                <Eye className="w-3 h-3 mr-1" />
+                View only
+              </Badge>
+            )}
           </div>
         </div>
         {projectId && isSessionActive && (
-          <RenderButton projectId={projectId} subscribeToRenderEvents={subscribeToRenderEvents} />
+          <RenderButton
+            projectId={projectId}
+            subscribeToRenderEvents={subscribeToRenderEvents}
+            canRender={canEdit}
+            compositions={compositions}
+            previewedCompositionId={previewedCompositionId}
+            inputProps={inputProps}
+          />
+        )}
+        <Button variant="outline" onClick={() => setShowRenderHistory(true)}>
+          <History className="w-4 h-4" />
+          Renders
+        </Button>
+        <Button variant="outline" onClick={() => setShowBatchDialog(true)}>
+          <Layers className="w-4 h-4" />
+          Batch
+        </Button>
+        {canEditProps && (
+          <Button variant={showPropsPanel ? 'secondary' : 'outline'} onClick={() => setShowPropsPanel((show) => !show)}>
+            <SlidersHorizontal className="w-4 h-4" />
+            Props
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => setShowVideoSettingsDialog(true)}
+          disabled={!canEdit}
+          title="Video settings"
+        >
+          <Film className="w-4 h-4" />
+          {formatVideoSettings(videoSettings)}
+        </Button>
+        <Button variant="outline" onClick={() => setShowAssetsDialog(true)}>
+          <FolderOpen className="w-4 h-4" />
+          Assets
+        </Button>
+        {role === 'owner' && (
+          <Button variant="outline" onClick={() => setShowShareDialog(true)}>
+            <Share2 className="w-4 h-4" />
+            Share
+          </Button>
         )}
         {!isConnected && (
           <Badge variant="outline" className="text-amber-600 border-amber-200 bg-amber-50">
@@ -127,14 +207,77 @@ export function ProjectWorkspace() {
       <div className="flex-1 flex p-4 gap-4 min-h-0">
         {/* Chat Panel */}
         <Card className="w-[380px] h-full flex-shrink-0 overflow-hidden">
-          <Chat messages={messages} isLoading={isLoading} onSendMessage={sendMessage} />
+          <Chat
+            projectId={projectId}
+            messages={messages}
+            isLoading={isLoading}
+            onSendMessage={sendMessage}
+            onUndoTurn={isSessionActive ? undoTurn : undefined}
+            onRedoTurn={isSessionActive ? redoTurn : undefined}
+            onCancel={isSessionActive ? cancelAgent : undefined}
+            readOnly={!canEdit}
+          />
         </Card>
 
         {/* Video Preview */}
         <Card className="flex-1 min-w-0 overflow-hidden">
-          <VideoPreview previewUrl={previewUrl} isLoading={isLoading && !previewUrl} />
+          <VideoPreview previewUrl={previewUrl} isLoading={isLoading && !previewUrl} inputProps={inputProps} />
         </Card>
+
+        {/* Props form for the previewed composition */}
+        {projectId && showPropsPanel && canEditProps && previewedComposition && (
+          <Card className="w-[300px] h-full flex-shrink-0 overflow-hidden">
+            <InputPropsPanel
+              projectId={projectId}
+              composition={previewedComposition}
+              values={inputProps[previewedComposition.id] || {}}
+              onChange={(values) => setInputProps((prev) => ({ ...prev, [previewedComposition.id]: values }))}
+              onClose={() => setShowPropsPanel(false)}
+            />
+          </Card>
+        )}
       </div>
+
+      {projectId && (
+        <ShareDialog projectId={projectId} open={showShareDialog} onOpenChange={setShowShareDialog} />
+      )}
+      {projectId && (
+        <AssetsDialog
+          projectId={projectId}
+          open={showAssetsDialog}
+          onOpenChange={setShowAssetsDialog}
+          canEdit={canEdit}
+        />
+      )}
+      {projectId && (
+        <RenderHistoryDialog
+          projectId={projectId}
+          open={showRenderHistory}
+          onOpenChange={setShowRenderHistory}
+          subscribeToRenderEvents={subscribeToRenderEvents}
+          canRender={canEdit}
+        />
+      )}
+      {projectId && (
+        <RenderBatchDialog
+          projectId={projectId}
+          open={showBatchDialog}
+          onOpenChange={setShowBatchDialog}
+          subscribeToRenderEvents={subscribeToRenderEvents}
+          compositions={compositions}
+          previewedCompositionId={previewedCompositionId}
+          canRender={canEdit}
+        />
+      )}
+      {projectId && canEdit && (
+        <VideoSettingsDialog
+          projectId={projectId}
+          settings={videoSettings}
+          open={showVideoSettingsDialog}
+          onOpenChange={setShowVideoSettingsDialog}
+          onSaved={handleVideoSettingsSaved}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,313 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  createRenderBatch,
+  getProjectRenderBatches,
+  getRenderBatch,
+  retryRenderBatch,
+  cancelRenderBatch,
+  downloadRenderBatchManifest,
+} from '../api';
+import type { CompositionInfo, RenderBatch, RenderBatchRow, RenderBatchRequest } from '../types';
+import type { RenderEvent } from '../protocol';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Loader2, AlertCircle, Upload, Download, RotateCcw, X, FileJson } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface RenderBatchDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subscribeToRenderEvents: (listener: (event: RenderEvent) => void) => () => void;
+  compositions: CompositionInfo[];
+  previewedCompositionId?: string | null;
+  canRender?: boolean;  // Viewers follow batches but can't start or retry them
+}
+
+const ROW_STATUS_STYLES: Record<RenderBatchRow['status'], string> = {
+  queued: 'text-muted-foreground',
+  pending: 'text-muted-foreground',
+  running: 'text-primary',
+  completed: 'text-green-600',
+  failed: 'text-destructive',
+};
+
+const selectClassName =
+  'h-10 rounded-md border border-input bg-background px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+/**
+ * Read a dataset file: CSV is sent as text, JSON as an array of rows (or { rows: [...] })
+ */
+async function readDataset(file: File): Promise<Pick<RenderBatchRequest, 'rows' | 'csv'>> {
+  const text = await file.text();
+  if (!file.name.toLowerCase().endsWith('.json')) {
+    return { csv: text };
+  }
+
+  const data = JSON.parse(text);
+  const rows = Array.isArray(data) ? data : data?.rows;
+  if (!Array.isArray(rows)) {
+    throw new Error('The JSON file must hold an array of rows');
+  }
+  return { rows };
+}
+
+// Short label for a row, from its first prop value
+function describeRow(row: RenderBatchRow): string {
+  const first = Object.values(row.inputProps).find((value) => typeof value === 'string' || typeof value === 'number');
+  return first !== undefined ? String(first) : 'Defaults';
+}
+
+export function RenderBatchDialog({
+  projectId,
+  open,
+  onOpenChange,
+  subscribeToRenderEvents,
+  compositions,
+  previewedCompositionId,
+  canRender = true,
+}: RenderBatchDialogProps) {
+  const [batches, setBatches] = useState<RenderBatch[]>([]);
+  const [compositionId, setCompositionId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedCompositionId = [compositionId, previewedCompositionId, compositions[0]?.id].find(
+    (id) => id && compositions.some((c) => c.id === id)
+  ) ?? undefined;
+
+  useEffect(() => {
+    if (!open) return;
+
+    async function loadBatches() {
+      try {
+        setIsLoading(true);
+        setBatches(await getProjectRenderBatches(projectId));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load render batches');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadBatches();
+  }, [projectId, open]);
+
+  // Refresh a batch when one of its renders changes
+  useEffect(() => {
+    if (!open) return;
+
+    return subscribeToRenderEvents((event) => {
+      if (!event.batchId) return;
+      getRenderBatch(event.batchId)
+        .then(updateBatch)
+        .catch((err) => console.error('Failed to refresh render batch:', err));
+    });
+  }, [open, subscribeToRenderEvents]);
+
+  function updateBatch(batch: RenderBatch) {
+    setBatches((prev) => [batch, ...prev.filter((b) => b.batchId !== batch.batchId)].sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    ));
+  }
+
+  async function handleStart(file: File) {
+    try {
+      setIsStarting(true);
+      const dataset = await readDataset(file);
+      updateBatch(await createRenderBatch(projectId, { compositionId: selectedCompositionId, format: 'mp4', ...dataset }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start render batch');
+    } finally {
+      setIsStarting(false);
+    }
+  }
+
+  async function handleRetry(batch: RenderBatch, rows?: number[]) {
+    try {
+      updateBatch(await retryRenderBatch(batch.batchId, rows));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry rows');
+    }
+  }
+
+  async function handleCancel(batch: RenderBatch) {
+    try {
+      await cancelRenderBatch(batch.batchId);
+      updateBatch(await getRenderBatch(batch.batchId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel render batch');
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Batch render</DialogTitle>
+          <DialogDescription>
+            Render a composition once per row of a CSV or JSON file. Each column or key is a prop, like in the Props form.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* New batch */}
+        {canRender && (
+          <div>
+            <Label htmlFor="batchComposition">Composition</Label>
+            <div className="flex gap-2 mt-2">
+              <select
+                id="batchComposition"
+                value={selectedCompositionId ?? ''}
+                onChange={(e) => setCompositionId(e.target.value)}
+                className={cn(selectClassName, 'flex-1')}
+                disabled={compositions.length === 0}
+              >
+                {compositions.length === 0 && <option value="">Default composition</option>}
+                {compositions.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.id}
+                  </option>
+                ))}
+              </select>
+              <Button onClick={() => fileInputRef.current?.click()} disabled={isStarting}>
+                {isStarting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Choose dataset
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleStart(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Batches */}
+        <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : batches.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-2">No batch renders yet.</p>
+          ) : (
+            batches.map((batch) => (
+              <BatchCard
+                key={batch.batchId}
+                batch={batch}
+                canRender={canRender}
+                onRetry={(rows) => handleRetry(batch, rows)}
+                onCancel={() => handleCancel(batch)}
+                onDownloadManifest={() =>
+                  downloadRenderBatchManifest(batch.batchId).catch((err) =>
+                    setError(err instanceof Error ? err.message : 'Failed to download manifest')
+                  )
+                }
+              />
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface BatchCardProps {
+  batch: RenderBatch;
+  canRender: boolean;
+  onRetry: (rows?: number[]) => void;
+  onCancel: () => void;
+  onDownloadManifest: () => void;
+}
+
+function BatchCard({ batch, canRender, onRetry, onCancel, onDownloadManifest }: BatchCardProps) {
+  const completed = batch.rows.filter((row) => row.status === 'completed').length;
+  const failed = batch.rows.filter((row) => row.status === 'failed').length;
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-foreground truncate">{batch.compositionId}</p>
+          <p className="text-xs text-muted-foreground">
+            {completed}/{batch.rows.length} rendered{failed > 0 && `, ${failed} failed`} ·{' '}
+            {new Date(batch.createdAt).toLocaleString()}
+          </p>
+        </div>
+        <Badge variant={batch.status === 'failed' ? 'destructive' : 'secondary'} className="text-xs font-normal">
+          {batch.status}
+        </Badge>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onDownloadManifest} title="Download manifest">
+          <FileJson className="w-4 h-4" />
+        </Button>
+        {canRender && failed > 0 && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onRetry()} title="Retry failed rows">
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+        )}
+        {canRender && batch.status === 'running' && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onCancel} title="Cancel batch">
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {batch.status === 'running' && <Progress value={batch.progress} className="h-1.5" />}
+
+      <div className="space-y-1">
+        {batch.rows.map((row) => (
+          <div key={row.index} className="flex items-center gap-2 text-sm">
+            <span className="w-8 text-xs text-muted-foreground">#{row.index + 1}</span>
+            <span className="flex-1 truncate text-foreground" title={row.error || JSON.stringify(row.inputProps)}>
+              {describeRow(row)}
+            </span>
+            <span className={cn('text-xs', ROW_STATUS_STYLES[row.status])}>
+              {row.status === 'running' && <Loader2 className="inline w-3 h-3 mr-1 animate-spin" />}
+              {row.status}
+            </span>
+            {row.outputUrl && (
+              <a href={row.outputUrl} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground">
+                <Download className="w-4 h-4" />
+              </a>
+            )}
+            {canRender && row.status === 'failed' && (
+              <button
+                onClick={() => onRetry([row.index])}
+                className="text-muted-foreground hover:text-foreground"
+                title="Retry row"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
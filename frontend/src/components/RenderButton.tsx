@@ -2,21 +2,25 @@ import { useState, useEffect, useCallback } from 'react';
 import { createRender } from '../api';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Play, Loader2, Download, X, AlertCircle } from 'lucide-react';
-
-interface RenderEvent {
-  type: 'render:started' | 'render:progress' | 'render:complete' | 'render:failed';
-  renderId?: string;
-  projectId?: string;
-  progress?: number;
-  outputUrl?: string;
-  error?: string;
-}
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Play, Loader2, Download, X, AlertCircle, ChevronDown, Check } from 'lucide-react';
+import type { RenderEvent, RenderStage } from '../protocol';
+import type { CompositionInfo } from '../types';
+import { cn } from '@/lib/utils';
 
 interface RenderButtonProps {
   projectId: string;
   subscribeToRenderEvents: (listener: (event: RenderEvent) => void) => () => void;
   onRenderEvent?: (event: RenderEvent) => void;
+  canRender?: boolean;  // Viewers see render progress but can't start renders
+  compositions?: CompositionInfo[];  // Offered in a picker when there's more than one
+  previewedCompositionId?: string | null;  // Picked until the user chooses another
+  inputProps?: Record<string, Record<string, unknown>>;  // Props form values, by composition ID
 }
 
 interface RenderState {
@@ -24,11 +28,49 @@ interface RenderState {
   renderId?: string;
   progress: number;
   status: 'idle' | 'pending' | 'running' | 'completed' | 'failed';
+  stage?: RenderStage;
+  renderedFrames?: number;
+  totalFrames?: number;
+  etaSeconds?: number;
   outputUrl?: string;
   error?: string;
 }
 
-export function RenderButton({ projectId, subscribeToRenderEvents, onRenderEvent }: RenderButtonProps) {
+const STAGE_LABELS: Record<RenderStage, string> = {
+  bundling: 'Bundling',
+  rendering: 'Rendering',
+  encoding: 'Encoding',
+  uploading: 'Uploading',
+};
+
+// What the render is doing, e.g. "Rendering 120/300 frames · ~45s left"
+function describeProgress(state: RenderState): string {
+  if (!state.stage) {
+    return state.status === 'pending' ? 'Starting...' : 'Preparing...';
+  }
+
+  let description = STAGE_LABELS[state.stage];
+  if (state.stage === 'rendering' && state.renderedFrames !== undefined && state.totalFrames) {
+    description += ` ${state.renderedFrames}/${state.totalFrames} frames`;
+  }
+  if (state.etaSeconds !== undefined && state.stage !== 'uploading') {
+    description += state.etaSeconds < 60
+      ? ` · ~${state.etaSeconds}s left`
+      : ` · ~${Math.ceil(state.etaSeconds / 60)}m left`;
+  }
+  return description;
+}
+
+export function RenderButton({
+  projectId,
+  subscribeToRenderEvents,
+  onRenderEvent,
+  canRender = true,
+  compositions = [],
+  previewedCompositionId,
+  inputProps,
+}: RenderButtonProps) {
+  const [pickedCompositionId, setPickedCompositionId] = useState<string | null>(null);
   const [renderState, setRenderState] = useState<RenderState>({
     isRendering: false,
     progress: 0,
@@ -36,17 +78,25 @@ export function RenderButton({ projectId, subscribeToRenderEvents, onRenderEvent
   });
 
   const handleRenderEvent = useCallback((event: RenderEvent) => {
-    if (event.type === 'render:started') {
+    if (event.batchId) {
+      // Batch renders are followed in the render batch dialog
+    } else if (event.type === 'render:started') {
+      // Renders can also be started by other collaborators on the project
       setRenderState(prev => ({
         ...prev,
+        isRendering: true,
         renderId: event.renderId,
         status: 'pending',
       }));
     } else if (event.type === 'render:progress') {
       setRenderState(prev => ({
         ...prev,
-        progress: event.progress || 0,
+        progress: event.progress,
         status: 'running',
+        stage: event.stage,
+        renderedFrames: event.renderedFrames,
+        totalFrames: event.totalFrames,
+        etaSeconds: event.etaSeconds,
       }));
     } else if (event.type === 'render:complete') {
       setRenderState({
@@ -73,6 +123,11 @@ export function RenderButton({ projectId, subscribeToRenderEvents, onRenderEvent
     return unsubscribe;
   }, [subscribeToRenderEvents, handleRenderEvent]);
 
+  // Render the picked composition if it still exists, else the one in the preview
+  const compositionId = [pickedCompositionId, previewedCompositionId, compositions[0]?.id].find(
+    (id) => id && compositions.some((c) => c.id === id)
+  ) ?? undefined;
+
   const handleRender = async () => {
     setRenderState({
       isRendering: true,
@@ -81,7 +136,11 @@ export function RenderButton({ projectId, subscribeToRenderEvents, onRenderEvent
     });
 
     try {
-      const job = await createRender(projectId, { format: 'mp4' });
+      const job = await createRender(projectId, {
+        compositionId,
+        format: 'mp4',
+        inputProps: compositionId ? inputProps?.[compositionId] : undefined,
+      });
       setRenderState(prev => ({
         ...prev,
         renderId: job.renderId,
@@ -106,29 +165,56 @@ export function RenderButton({ projectId, subscribeToRenderEvents, onRenderEvent
 
   return (
     <div className="flex items-center gap-3">
+      {/* Composition Picker */}
+      {canRender && compositions.length > 1 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" disabled={renderState.isRendering} title="Composition to render">
+              <span className="max-w-40 truncate">{compositionId}</span>
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {compositions.map((composition) => (
+              <DropdownMenuItem key={composition.id} onClick={() => setPickedCompositionId(composition.id)}>
+                <Check className={cn('w-4 h-4 mr-2', composition.id !== compositionId && 'invisible')} />
+                <span className="flex-1">{composition.id}</span>
+                <span className="ml-4 text-xs text-muted-foreground">
+                  {composition.width}x{composition.height} · {composition.fps}fps · {(composition.durationInFrames / composition.fps).toFixed(1)}s
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
       {/* Render Button */}
-      <Button
-        onClick={handleRender}
-        disabled={renderState.isRendering}
-      >
-        {renderState.isRendering ? (
-          <>
-            <Loader2 className="w-4 h-4 animate-spin" />
-            <span>Rendering...</span>
-          </>
-        ) : (
-          <>
-            <Play className="w-4 h-4" />
-            <span>Render Video</span>
-          </>
-        )}
-      </Button>
+      {canRender && (
+        <Button
+          onClick={handleRender}
+          disabled={renderState.isRendering}
+        >
+          {renderState.isRendering ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span>Rendering...</span>
+            </>
+          ) : (
+            <>
+              <Play className="w-4 h-4" />
+              <span>Render Video</span>
+            </>
+          )}
+        </Button>
+      )}
 
       {/* Progress Indicator */}
       {renderState.isRendering && (
         <div className="flex items-center gap-2">
           <Progress value={renderState.progress} className="w-32 h-2" />
-          <span className="text-xs text-muted-foreground">{renderState.progress}%</span>
+          <span className="text-xs text-muted-foreground tabular-nums">
+            {renderState.progress}% · {describeProgress(renderState)}
+          </span>
         </div>
       )}
 
@@ -182,6 +268,3 @@ export function RenderButton({ projectId, subscribeToRenderEvents, onRenderEvent
     </div>
   );
 }
-
-// Export the event handler type for use in parent components
-export type { RenderEvent };
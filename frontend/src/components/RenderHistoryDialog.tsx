@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getProjectRenders, cancelRender } from '../api';
+import type { RenderJob } from '../types';
+import type { RenderEvent } from '../protocol';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Loader2, AlertCircle, Download, X, Subtitles } from 'lucide-react';
+
+interface RenderHistoryDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subscribeToRenderEvents: (listener: (event: RenderEvent) => void) => () => void;
+  canRender?: boolean;  // Viewers see the history but can't cancel renders
+}
+
+// How long the render took, e.g. "1m 05s"
+function formatRenderDuration(render: RenderJob): string | null {
+  const ms = render.renderDurationMs ??
+    (render.completedAt ? new Date(render.completedAt).getTime() - new Date(render.createdAt).getTime() : null);
+  if (ms === null || ms < 0) return null;
+
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * The project's renders, newest first, with their outputs and errors
+ */
+export function RenderHistoryDialog({
+  projectId,
+  open,
+  onOpenChange,
+  subscribeToRenderEvents,
+  canRender = true,
+}: RenderHistoryDialogProps) {
+  const [renders, setRenders] = useState<RenderJob[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRenders = useCallback(async () => {
+    try {
+      setRenders(await getProjectRenders(projectId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load renders');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setIsLoading(true);
+    loadRenders().finally(() => setIsLoading(false));
+  }, [open, loadRenders]);
+
+  // Reload when a render starts or finishes, and follow progress in place
+  useEffect(() => {
+    if (!open) return;
+
+    return subscribeToRenderEvents((event) => {
+      if (event.type === 'render:progress') {
+        setRenders((prev) => prev.map((render) =>
+          render.renderId === event.renderId
+            ? { ...render, status: 'running', progress: event.progress, stage: event.stage }
+            : render
+        ));
+      } else {
+        loadRenders();
+      }
+    });
+  }, [open, subscribeToRenderEvents, loadRenders]);
+
+  async function handleCancel(render: RenderJob) {
+    try {
+      await cancelRender(render.renderId);
+      await loadRenders();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel render');
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Renders</DialogTitle>
+          <DialogDescription>Every render of this project, including batch rows.</DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : renders.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-2">No renders yet.</p>
+          ) : (
+            renders.map((render) => (
+              <RenderRow
+                key={render.renderId}
+                render={render}
+                onCancel={canRender ? () => handleCancel(render) : undefined}
+              />
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RenderRowProps {
+  render: RenderJob;
+  onCancel?: () => void;
+}
+
+function RenderRow({ render, onCancel }: RenderRowProps) {
+  const isActive = render.status === 'pending' || render.status === 'running';
+  const duration = formatRenderDuration(render);
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-foreground truncate">
+            {render.compositionId || 'Render'}
+            {render.format && <span className="text-muted-foreground font-normal"> · {render.format}</span>}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {new Date(render.createdAt).toLocaleString()}
+            {duration && ` · took ${duration}`}
+            {render.batchId && ' · batch'}
+          </p>
+        </div>
+        <Badge variant={render.status === 'failed' ? 'destructive' : 'secondary'} className="text-xs font-normal">
+          {render.status === 'running' && render.stage ? render.stage : render.status}
+        </Badge>
+        {render.captionsUrls && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" asChild title="Download subtitles (.srt)">
+            <a href={render.captionsUrls.srt} target="_blank" rel="noopener noreferrer">
+              <Subtitles className="w-4 h-4" />
+            </a>
+          </Button>
+        )}
+        {render.outputUrl && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" asChild title="Download video">
+            <a href={render.outputUrl} target="_blank" rel="noopener noreferrer">
+              <Download className="w-4 h-4" />
+            </a>
+          </Button>
+        )}
+        {onCancel && isActive && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onCancel} title="Cancel render">
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {isActive && <Progress value={render.progress ?? 0} className="h-1.5" />}
+      {render.error && <p className="text-xs text-destructive break-words">{render.error}</p>}
+    </div>
+  );
+}
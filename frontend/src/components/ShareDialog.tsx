@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react';
+import { listCollaborators, addCollaborator, removeCollaborator } from '../api';
+import type { Collaborator, ProjectRole } from '../types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Loader2, AlertCircle, X, UserPlus } from 'lucide-react';
+
+interface ShareDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ROLE_OPTIONS: { value: ProjectRole; label: string }[] = [
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'owner', label: 'Owner' },
+];
+
+export function ShareDialog({ projectId, open, onOpenChange }: ShareDialogProps) {
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Invite form
+  const [member, setMember] = useState('');
+  const [role, setRole] = useState<ProjectRole>('editor');
+
+  useEffect(() => {
+    if (!open) return;
+
+    async function loadCollaborators() {
+      try {
+        setIsLoading(true);
+        const data = await listCollaborators(projectId);
+        setCollaborators(data.collaborators);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load collaborators');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadCollaborators();
+  }, [projectId, open]);
+
+  async function handleInvite() {
+    const value = member.trim();
+    if (!value) return;
+
+    try {
+      setIsInviting(true);
+      // Anything that looks like an email is invited by email, otherwise by user ID
+      const invite = value.includes('@') ? { email: value, role } : { userId: value, role };
+      const collaborator = await addCollaborator(projectId, invite);
+      setCollaborators((prev) => [
+        ...prev.filter((c) => getMemberId(c) !== getMemberId(collaborator)),
+        collaborator,
+      ]);
+      setMember('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to invite collaborator');
+    } finally {
+      setIsInviting(false);
+    }
+  }
+
+  async function handleChangeRole(collaborator: Collaborator, newRole: ProjectRole) {
+    try {
+      const invite = collaborator.userId
+        ? { userId: collaborator.userId, role: newRole }
+        : { email: collaborator.email, role: newRole };
+      const updated = await addCollaborator(projectId, invite);
+      setCollaborators((prev) => prev.map((c) => (getMemberId(c) === getMemberId(updated) ? updated : c)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change role');
+    }
+  }
+
+  async function handleRemove(collaborator: Collaborator) {
+    try {
+      await removeCollaborator(projectId, getMemberId(collaborator));
+      setCollaborators((prev) => prev.filter((c) => getMemberId(c) !== getMemberId(collaborator)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove collaborator');
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share project</DialogTitle>
+          <DialogDescription>
+            Viewers can watch the session, editors can chat with the agent and render, owners can manage sharing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Invite form */}
+        <div>
+          <Label htmlFor="shareMember">Invite by email or user ID</Label>
+          <div className="flex gap-2 mt-2">
+            <Input
+              id="shareMember"
+              value={member}
+              onChange={(e) => setMember(e.target.value)}
+              placeholder="name@example.com"
+              className="flex-1"
+              onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+            />
+            <RoleSelect value={role} onChange={setRole} />
+            <Button onClick={handleInvite} disabled={!member.trim() || isInviting}>
+              {isInviting ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+              Invite
+            </Button>
+          </div>
+        </div>
+
+        {/* Collaborator list */}
+        <div className="space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : collaborators.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-2">Only you have access to this project.</p>
+          ) : (
+            collaborators.map((collaborator) => (
+              <div key={getMemberId(collaborator)} className="flex items-center gap-2">
+                <span className="flex-1 text-sm text-foreground truncate">{getMemberId(collaborator)}</span>
+                {!collaborator.userId && (
+                  <Badge variant="outline" className="text-xs font-normal text-muted-foreground">
+                    Pending
+                  </Badge>
+                )}
+                <RoleSelect value={collaborator.role} onChange={(newRole) => handleChangeRole(collaborator, newRole)} />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(collaborator)}
+                  className="h-8 w-8 text-muted-foreground"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function getMemberId(collaborator: Collaborator): string {
+  return collaborator.userId || collaborator.email!;
+}
+
+function RoleSelect({ value, onChange }: { value: ProjectRole; onChange: (role: ProjectRole) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as ProjectRole)}
+      className="h-10 rounded-md border border-input bg-background px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+    >
+      {ROLE_OPTIONS.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState, useEffect, useRef } from 'react';
+import { searchSoundEffects } from '../api';
+import type { SoundEffect } from '../types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Loader2, AlertCircle, Search, Play, Pause, Plus } from 'lucide-react';
+
+interface SoundEffectsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onInsert: (request: string) => void;  // Adds a request for the agent to the chat input
+}
+
+/**
+ * Browse the built-in sound effects, preview them and ask the agent to add one at a given time
+ */
+export function SoundEffectsDialog({ open, onOpenChange, onInsert }: SoundEffectsDialogProps) {
+  const [sounds, setSounds] = useState<SoundEffect[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+  const [startSeconds, setStartSeconds] = useState('0');
+  const [playingName, setPlayingName] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  // Search as the user types, after a short pause
+  useEffect(() => {
+    if (!open) return;
+
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setIsLoading(true);
+        const results = await searchSoundEffects({ query: query.trim(), category: category || undefined });
+        if (isCancelled) return;
+        setSounds(results);
+        if (!query.trim() && !category) {
+          setCategories([...new Set(results.map((sound) => sound.category))]);
+        }
+        setError(null);
+      } catch (err) {
+        if (!isCancelled) setError(err instanceof Error ? err.message : 'Failed to load sound effects');
+      } finally {
+        if (!isCancelled) setIsLoading(false);
+      }
+    }, 200);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, query, category]);
+
+  // Stop the preview when the dialog closes
+  useEffect(() => {
+    if (!open) {
+      audioRef.current?.pause();
+      setPlayingName(null);
+    }
+  }, [open]);
+
+  function handlePreview(sound: SoundEffect) {
+    audioRef.current?.pause();
+    if (playingName === sound.name) {
+      setPlayingName(null);
+      return;
+    }
+
+    const audio = new Audio(sound.url);
+    audio.onended = () => setPlayingName((name) => (name === sound.name ? null : name));
+    audio.play().catch((err) => {
+      console.error('Failed to play sound effect:', err);
+      setPlayingName(null);
+    });
+    audioRef.current = audio;
+    setPlayingName(sound.name);
+  }
+
+  function handleInsert(sound: SoundEffect) {
+    const seconds = Math.max(0, Number(startSeconds) || 0);
+    onInsert(`Add the \`${sound.name}\` sound effect at ${seconds.toFixed(1)}s`);
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Sound effects</DialogTitle>
+          <DialogDescription>Preview a sound, then add it to your request for the agent.</DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search, e.g. whoosh or soft click"
+              className="pl-8"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="sfxStart" className="text-muted-foreground whitespace-nowrap">At</Label>
+            <Input
+              id="sfxStart"
+              type="number"
+              min={0}
+              step={0.1}
+              value={startSeconds}
+              onChange={(e) => setStartSeconds(e.target.value)}
+              className="w-20"
+            />
+            <span className="text-sm text-muted-foreground">s</span>
+          </div>
+        </div>
+
+        {categories.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            <Button variant={category === null ? 'secondary' : 'ghost'} size="sm" onClick={() => setCategory(null)}>
+              All
+            </Button>
+            {categories.map((name) => (
+              <Button
+                key={name}
+                variant={category === name ? 'secondary' : 'ghost'}
+                size="sm"
+                className="capitalize"
+                onClick={() => setCategory(name)}
+              >
+                {name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="h-80 overflow-y-auto space-y-1">
+          {isLoading && sounds.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : sounds.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-2">No sound effects found.</p>
+          ) : (
+            sounds.map((sound) => (
+              <div key={sound.file} className="flex items-center gap-2 rounded-md px-1 py-1 hover:bg-muted/50">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title={playingName === sound.name ? 'Stop' : 'Preview'}
+                  onClick={() => handlePreview(sound)}
+                >
+                  {playingName === sound.name ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                </Button>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-foreground font-mono truncate">{sound.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {sound.category} · {sound.durationSeconds.toFixed(1)}s
+                    {sound.loudnessLufs !== null && ` · ${sound.loudnessLufs} LUFS`}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleInsert(sound)}>
+                  <Plus className="w-4 h-4" />
+                  Add
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
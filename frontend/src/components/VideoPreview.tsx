@@ -1,11 +1,35 @@
+import { useRef, useEffect } from 'react';
 import { Loader2, VideoOff } from 'lucide-react';
 
 interface VideoPreviewProps {
   previewUrl: string | null;
   isLoading: boolean;
+  inputProps?: Record<string, Record<string, unknown>>;  // Props form values, by composition ID
 }
 
-export function VideoPreview({ previewUrl, isLoading }: VideoPreviewProps) {
+export function VideoPreview({ previewUrl, isLoading, inputProps }: VideoPreviewProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  // Send the props form values to the preview's Player (storydream:inputProps messages), and again
+  // whenever the preview reports its compositions, since it loses them when it reloads
+  useEffect(() => {
+    const sendInputProps = () => {
+      Object.entries(inputProps || {}).forEach(([compositionId, props]) => {
+        iframeRef.current?.contentWindow?.postMessage({ type: 'storydream:inputProps', compositionId, props }, '*');
+      });
+    };
+    sendInputProps();
+
+    const handlePreviewMessage = (event: MessageEvent) => {
+      if (event.source === iframeRef.current?.contentWindow && event.data?.type === 'remotion:compositions') {
+        sendInputProps();
+      }
+    };
+
+    window.addEventListener('message', handlePreviewMessage);
+    return () => window.removeEventListener('message', handlePreviewMessage);
+  }, [inputProps]);
+
   if (!previewUrl) {
     return (
       <div className="w-full h-full flex items-center justify-center bg-muted/50">
@@ -29,6 +53,7 @@ export function VideoPreview({ previewUrl, isLoading }: VideoPreviewProps) {
   return (
     <div className="w-full h-full bg-muted/50">
       <iframe
+        ref={iframeRef}
         key={previewUrl}
         src={previewUrl}
         className="w-full h-full border-0"
@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react';
+import { updateProject } from '../api';
+import type { VideoSettings } from '../types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Loader2, AlertCircle } from 'lucide-react';
+
+interface VideoSettingsDialogProps {
+  projectId: string;
+  settings: VideoSettings;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (settings: VideoSettings) => void;
+}
+
+// What the template uses for projects that never changed their settings
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = { width: 1920, height: 1080, fps: 30, durationInFrames: 150 };
+
+// Width and height relative to the short side
+const ASPECT_RATIOS = [
+  { value: '16:9', label: '16:9 Landscape', width: 16 / 9, height: 1 },
+  { value: '9:16', label: '9:16 Vertical', width: 1, height: 16 / 9 },
+  { value: '1:1', label: '1:1 Square', width: 1, height: 1 },
+  { value: '4:5', label: '4:5 Portrait', width: 1, height: 5 / 4 },
+];
+
+// Length of the short side
+const RESOLUTIONS = [
+  { value: 720, label: '720p' },
+  { value: 1080, label: '1080p' },
+  { value: 2160, label: '4K' },
+];
+
+const FRAME_RATES = [24, 25, 30, 60];
+
+const MAX_DURATION_SECONDS = 10 * 60;
+
+const selectClassName =
+  'h-10 w-full rounded-md border border-input bg-background px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+/**
+ * Aspect ratio of the settings' size, or 'custom' for sizes set some other way
+ */
+function getAspectRatio(settings: VideoSettings): string {
+  const shortSide = Math.min(settings.width, settings.height);
+  const match = ASPECT_RATIOS.find(
+    (ratio) => toEven(shortSide * ratio.width) === settings.width && toEven(shortSide * ratio.height) === settings.height
+  );
+  return match?.value ?? 'custom';
+}
+
+function toEven(pixels: number): number {
+  return Math.round(pixels / 2) * 2;
+}
+
+/**
+ * Short label for the header, e.g. "16:9 · 1080p · 30fps · 5s"
+ */
+export function formatVideoSettings(settings: VideoSettings): string {
+  const aspectRatio = getAspectRatio(settings);
+  const size = aspectRatio === 'custom'
+    ? `${settings.width}x${settings.height}`
+    : `${aspectRatio} · ${Math.min(settings.width, settings.height)}p`;
+  const seconds = Math.round((settings.durationInFrames / settings.fps) * 10) / 10;
+  return `${size} · ${settings.fps}fps · ${seconds}s`;
+}
+
+export function VideoSettingsDialog({ projectId, settings, open, onOpenChange, onSaved }: VideoSettingsDialogProps) {
+  const [aspectRatio, setAspectRatio] = useState('16:9');
+  const [resolution, setResolution] = useState(1080);
+  const [fps, setFps] = useState(30);
+  const [durationSeconds, setDurationSeconds] = useState('5');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the project's settings each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setAspectRatio(getAspectRatio(settings));
+    setResolution(Math.min(settings.width, settings.height));
+    setFps(settings.fps);
+    setDurationSeconds(String(Math.round((settings.durationInFrames / settings.fps) * 100) / 100));
+    setError(null);
+  }, [open, settings]);
+
+  const seconds = Number(durationSeconds);
+  const isDurationValid = Number.isFinite(seconds) && seconds > 0 && seconds <= MAX_DURATION_SECONDS;
+
+  function getSize(): { width: number; height: number } {
+    const ratio = ASPECT_RATIOS.find((r) => r.value === aspectRatio);
+    if (!ratio) {
+      // Custom sizes keep their shape at the chosen resolution
+      const scale = resolution / Math.min(settings.width, settings.height);
+      return { width: toEven(settings.width * scale), height: toEven(settings.height * scale) };
+    }
+    return { width: toEven(resolution * ratio.width), height: toEven(resolution * ratio.height) };
+  }
+
+  async function handleSave() {
+    if (!isDurationValid) return;
+
+    const updated: VideoSettings = {
+      ...getSize(),
+      fps,
+      durationInFrames: Math.max(1, Math.round(seconds * fps)),
+    };
+
+    try {
+      setIsSaving(true);
+      await updateProject(projectId, { videoSettings: updated });
+      onSaved(updated);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save video settings');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const size = getSize();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Video settings</DialogTitle>
+          <DialogDescription>
+            Size, frame rate and length of the main composition, used by the preview and by renders.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="videoAspectRatio">Aspect ratio</Label>
+            <select
+              id="videoAspectRatio"
+              value={aspectRatio}
+              onChange={(e) => setAspectRatio(e.target.value)}
+              className={selectClassName}
+            >
+              {ASPECT_RATIOS.map((ratio) => (
+                <option key={ratio.value} value={ratio.value}>
+                  {ratio.label}
+                </option>
+              ))}
+              {getAspectRatio(settings) === 'custom' && (
+                <option value="custom">Custom ({settings.width}x{settings.height})</option>
+              )}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="videoResolution">Resolution</Label>
+            <select
+              id="videoResolution"
+              value={resolution}
+              onChange={(e) => setResolution(Number(e.target.value))}
+              className={selectClassName}
+            >
+              {RESOLUTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+              {!RESOLUTIONS.some((option) => option.value === resolution) && (
+                <option value={resolution}>{resolution}p</option>
+              )}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="videoFps">Frame rate</Label>
+            <select
+              id="videoFps"
+              value={fps}
+              onChange={(e) => setFps(Number(e.target.value))}
+              className={selectClassName}
+            >
+              {[...new Set([...FRAME_RATES, settings.fps])].sort((a, b) => a - b).map((rate) => (
+                <option key={rate} value={rate}>
+                  {rate} fps
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="videoDuration">Duration (seconds)</Label>
+            <Input
+              id="videoDuration"
+              type="number"
+              min={0.1}
+              max={MAX_DURATION_SECONDS}
+              step={0.1}
+              value={durationSeconds}
+              onChange={(e) => setDurationSeconds(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          {size.width}x{size.height}
+          {isDurationValid && `, ${Math.max(1, Math.round(seconds * fps))} frames`}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!isDurationValid || isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState, useEffect, useRef } from 'react';
+import { reportCompositions } from '../api';
+import type { CompositionInfo } from '../types';
+
+interface UsePreviewCompositionsOptions {
+  projectId?: string;
+  initialCompositions?: CompositionInfo[];  // Last list stored with the project
+  canEdit?: boolean;  // Viewers follow the preview but don't store what it found
+}
+
+interface UsePreviewCompositionsReturn {
+  compositions: CompositionInfo[];
+  previewedCompositionId: string | null;
+}
+
+/**
+ * Follow the compositions the preview iframe discovers in Root.tsx (remotion:compositions messages)
+ * and store changes with the project, so renders can offer them
+ */
+export function usePreviewCompositions({
+  projectId,
+  initialCompositions,
+  canEdit = false,
+}: UsePreviewCompositionsOptions): UsePreviewCompositionsReturn {
+  const [compositions, setCompositions] = useState<CompositionInfo[]>(initialCompositions || []);
+  const [previewedCompositionId, setPreviewedCompositionId] = useState<string | null>(null);
+  const reportedRef = useRef(JSON.stringify(initialCompositions || []));
+
+  useEffect(() => {
+    setCompositions(initialCompositions || []);
+    reportedRef.current = JSON.stringify(initialCompositions || []);
+  }, [initialCompositions]);
+
+  useEffect(() => {
+    const handlePreviewCompositions = (event: MessageEvent) => {
+      if (event.data?.type !== 'remotion:compositions' || !Array.isArray(event.data.compositions)) return;
+
+      const discovered: CompositionInfo[] = event.data.compositions;
+      setCompositions(discovered);
+      setPreviewedCompositionId(event.data.selectedId ?? null);
+
+      // Root.tsx registers compositions one at a time, so only report lists that changed
+      const serialized = JSON.stringify(discovered);
+      if (!projectId || !canEdit || discovered.length === 0 || serialized === reportedRef.current) return;
+      reportedRef.current = serialized;
+      reportCompositions(projectId, discovered).catch((error) => {
+        console.error('Failed to report compositions:', error);
+      });
+    };
+
+    window.addEventListener('message', handlePreviewCompositions);
+    return () => window.removeEventListener('message', handlePreviewCompositions);
+  }, [projectId, canEdit]);
+
+  return { compositions, previewedCompositionId };
+}
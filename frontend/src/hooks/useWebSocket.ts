@@ -1,18 +1,12 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { getAuthToken } from '../auth';
 import type { ChatMessage, ImageAttachment } from '../types';
+import { PROTOCOL_VERSION, type AgentActivity, type ClientMessage, type RenderEvent, type ServerMessage } from '../protocol';
 
 interface UseWebSocketOptions {
   projectId?: string;
   initialMessages?: ChatMessage[];
-}
-
-interface RenderEvent {
-  type: 'render:started' | 'render:progress' | 'render:complete' | 'render:failed';
-  renderId?: string;
-  projectId?: string;
-  progress?: number;
-  outputUrl?: string;
-  error?: string;
+  canEdit?: boolean;  // Viewers don't report preview errors to the agent
 }
 
 type RenderEventListener = (event: RenderEvent) => void;
@@ -25,6 +19,9 @@ interface UseWebSocketReturn {
   messages: ChatMessage[];
   startSession: () => void;
   sendMessage: (content: string, attachments?: ImageAttachment[]) => void;
+  undoTurn: (messageId: string) => void;
+  redoTurn: (messageId: string) => void;
+  cancelAgent: () => void;
   endSession: () => void;
   subscribeToRenderEvents: (listener: RenderEventListener) => () => void;
 }
@@ -37,6 +34,18 @@ const getWebSocketUrl = () => {
 
 const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || getWebSocketUrl();
 
+// Reconnect backoff: 1s, 2s, 4s... capped at 30s
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+function send(ws: WebSocket | null, message: ClientMessage): boolean {
+  if (ws?.readyState !== WebSocket.OPEN) {
+    return false;
+  }
+  ws.send(JSON.stringify(message));
+  return true;
+}
+
 // Format error into a clear prompt for the agent
 function formatErrorReport(error: { message: string; stack?: string; componentStack?: string }): string {
   let report = `RUNTIME ERROR in the video preview - please fix this automatically:
@@ -66,8 +75,68 @@ Please read the MyVideo.tsx file, identify the bug causing this error, and fix i
   return report;
 }
 
+// Fold an agent activity event into the running turn's assistant message, starting one if needed
+function applyActivity(messages: ChatMessage[], activity: AgentActivity): ChatMessage[] {
+  const index = messages.findIndex((m) => m.streaming);
+  const current: ChatMessage = index === -1 ? { role: 'assistant', content: '', streaming: true } : messages[index];
+  let updated: ChatMessage;
+
+  switch (activity.type) {
+    case 'assistant_text_delta':
+      updated = { ...current, content: current.content ? `${current.content}\n\n${activity.text}` : activity.text };
+      break;
+
+    case 'thinking':
+      updated = { ...current, thinking: current.thinking ? `${current.thinking}\n\n${activity.text}` : activity.text };
+      break;
+
+    case 'tool_started':
+      updated = {
+        ...current,
+        actions: [
+          ...(current.actions || []),
+          {
+            tool: activity.tool,
+            toolUseId: activity.toolUseId,
+            filePath: activity.filePath,
+            summary: activity.summary,
+            status: 'running',
+          },
+        ],
+      };
+      break;
+
+    case 'tool_finished':
+      updated = {
+        ...current,
+        actions: current.actions?.map((action) =>
+          action.toolUseId === activity.toolUseId
+            ? { ...action, status: activity.isError ? 'failed' : 'succeeded', diffStats: activity.diffStats }
+            : action
+        ),
+      };
+      break;
+
+    case 'turn_result': {
+      const { type: _type, ...turnResult } = activity;
+      updated = { ...current, turnResult };
+      break;
+    }
+  }
+
+  if (index === -1) {
+    return [...messages, updated];
+  }
+  return [...messages.slice(0, index), updated, ...messages.slice(index + 1)];
+}
+
+// A new session won't finish turns left streaming by the old one
+function endStreamingTurns(messages: ChatMessage[]): ChatMessage[] {
+  return messages.some((m) => m.streaming) ? messages.map((m) => (m.streaming ? { ...m, streaming: false } : m)) : messages;
+}
+
 export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketReturn {
-  const { projectId, initialMessages = [] } = options;
+  const { projectId, initialMessages = [], canEdit = true } = options;
 
   const [isConnected, setIsConnected] = useState(false);
   const [isSessionActive, setIsSessionActive] = useState(false);
@@ -76,11 +145,15 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
   const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
 
   const wsRef = useRef<WebSocket | null>(null);
-  const currentAssistantMessage = useRef<string>('');
   const lastErrorRef = useRef<string>('');
   const errorTimeoutRef = useRef<number | null>(null);
   const projectIdRef = useRef<string | undefined>(projectId);
   const renderEventListenersRef = useRef<Set<RenderEventListener>>(new Set());
+  // Resume state from session:ready - lets a reconnect replay the events it missed
+  const resumeTokenRef = useRef<string | null>(null);
+  const lastSeqRef = useRef(0);
+  // Set when the backend rejects our protocol version - reconnecting won't help until a reload
+  const protocolMismatchRef = useRef(false);
 
   // Update projectId ref when it changes
   useEffect(() => {
@@ -95,32 +168,77 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
   }, [initialMessages]);
 
   useEffect(() => {
-    const ws = new WebSocket(BACKEND_URL);
+    let ws: WebSocket | null = null;
+    let isCancelled = false;
+    let reconnectAttempts = 0;
+    let reconnectTimer: number | null = null;
+
+    async function connect() {
+      // Browsers can't set headers on WebSocket connections, so the token goes in the query string
+      const token = await getAuthToken();
+      if (isCancelled) return;
+
+      const url = new URL(BACKEND_URL, window.location.href);
+      if (token) {
+        url.searchParams.set('token', token);
+      }
+      ws = new WebSocket(url);
+
+      ws.onopen = () => {
+        console.log('Connected to backend');
+        reconnectAttempts = 0;
+        send(ws, { type: 'hello', protocolVersion: PROTOCOL_VERSION });
+
+        // Reattach to the session we were in, otherwise the caller starts a new one
+        if (resumeTokenRef.current) {
+          setIsLoading(true);
+          send(ws, {
+            type: 'session:resume',
+            resumeToken: resumeTokenRef.current,
+            lastSeq: lastSeqRef.current,
+          });
+        }
+        setIsConnected(true);
+      };
 
-    ws.onopen = () => {
-      console.log('Connected to backend');
-      setIsConnected(true);
-    };
+      ws.onclose = () => {
+        console.log('Disconnected from backend');
+        setIsConnected(false);
+        setIsSessionActive(false);
+        if (isCancelled || protocolMismatchRef.current) return;
 
-    ws.onclose = () => {
-      console.log('Disconnected from backend');
-      setIsConnected(false);
-      setIsSessionActive(false);
-    };
+        const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY);
+        reconnectAttempts++;
+        console.log(`Reconnecting in ${delay / 1000}s...`);
+        reconnectTimer = window.setTimeout(connect, delay);
+      };
 
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-    };
+      ws.onerror = (error) => {
+        console.error('WebSocket error:', error);
+      };
 
-    ws.onmessage = (event) => {
-      const message = JSON.parse(event.data);
-      handleMessage(message);
-    };
+      ws.onmessage = (event) => {
+        const message: ServerMessage = JSON.parse(event.data);
 
-    wsRef.current = ws;
+        // Skip events already seen before a resume replayed them
+        if ('seq' in message && message.type !== 'session:ready') {
+          if (message.seq <= lastSeqRef.current) return;
+          lastSeqRef.current = message.seq;
+        }
+        handleMessage(message);
+      };
+
+      wsRef.current = ws;
+    }
+
+    connect();
 
     return () => {
-      ws.close();
+      isCancelled = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      ws?.close();
     };
   }, []);
 
@@ -148,6 +266,11 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
         return;
       }
 
+      if (!canEdit) {
+        console.log('Preview error received but user has view-only access:', error.message);
+        return;
+      }
+
       // With streaming input mode, we can send messages even while agent is busy
       // The agent server will queue them automatically
       console.log('Preview error received, sending to agent:', error.message);
@@ -156,15 +279,8 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
 
       setMessages((prev) => [...prev, { role: 'system', content: `Runtime error detected:\n${error.message}` }]);
 
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
+      if (send(wsRef.current, { type: 'message:send', content: errorReport })) {
         setIsLoading(true);
-        currentAssistantMessage.current = '';
-        wsRef.current.send(
-          JSON.stringify({
-            type: 'message:send',
-            content: errorReport,
-          })
-        );
       }
     };
 
@@ -176,27 +292,95 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
         clearTimeout(errorTimeoutRef.current);
       }
     };
-  }, [isSessionActive]);
+  }, [isSessionActive, canEdit]);
 
-  const handleMessage = useCallback((message: any) => {
+  const handleMessage = useCallback((message: ServerMessage) => {
     switch (message.type) {
+      case 'hello':
+        console.log(`Backend speaks protocol v${message.protocolVersion}`);
+        break;
+
       case 'session:ready':
         console.log('Session ready:', message);
+        resumeTokenRef.current = message.resumeToken;
+        lastSeqRef.current = message.seq;
+        setMessages(endStreamingTurns);
         setIsSessionActive(true);
-        setIsLoading(false);
+        // Joining a shared session while another client's prompt is still running
+        setIsLoading(message.agentBusy);
+        setPreviewUrl(message.previewUrl);
+        break;
+
+      case 'session:resumed':
+        console.log('Session resumed:', message);
+        setIsSessionActive(true);
+        setIsLoading(message.agentBusy);
         setPreviewUrl(message.previewUrl);
         break;
 
-      case 'agent:message':
-        handleAgentMessage(message.data);
+      case 'session:resume-failed':
+        // The session was cleaned up - clearing isLoading lets the caller start a new one
+        console.log('Session resume failed:', message.reason);
+        resumeTokenRef.current = null;
+        setMessages(endStreamingTurns);
+        setIsLoading(false);
+        break;
+
+      case 'message:user':
+        // Prompt sent by another tab or collaborator attached to the same session
+        setMessages((prev) => [...prev, { role: 'user', content: message.content, attachments: message.attachments }]);
+        setIsLoading(true);
+        break;
+
+      case 'agent:activity':
+        setMessages((prev) => applyActivity(prev, message.activity));
         break;
 
       case 'agent:complete':
-        currentAssistantMessage.current = '';
         setIsLoading(false);
+        // Close the turn's message - a cancelled turn is flagged, or noted if the agent stopped before replying
+        setMessages((prev) => {
+          const index = prev.findIndex((m) => m.streaming);
+          if (index === -1) {
+            return message.cancelled ? [...prev, { role: 'assistant', content: '', cancelled: true }] : prev;
+          }
+          const updated = [...prev];
+          updated[index] = { ...updated[index], streaming: false, cancelled: message.cancelled || undefined };
+          return updated;
+        });
         break;
 
+      case 'version:created':
+        // Attach the turn's version to the latest assistant message so it can be undone
+        if (message.messageId) {
+          setMessages((prev) => {
+            const index = prev.map((m) => m.role).lastIndexOf('assistant');
+            if (index === -1) return prev;
+            const updated = [...prev];
+            updated[index] = {
+              ...updated[index],
+              id: message.messageId,
+              commitSha: message.sha,
+              beforeCommitSha: message.beforeSha || undefined,
+            };
+            return updated;
+          });
+        }
+        break;
+
+      case 'turn:undone':
+      case 'turn:redone': {
+        const undone = message.type === 'turn:undone';
+        const affected = new Set(message.messageIds);
+        setMessages((prev) => [
+          ...prev.map((m) => (m.id && affected.has(m.id) ? { ...m, undone } : m)),
+          { role: 'system', content: undone ? 'Changes from this turn were undone' : 'Changes from this turn were restored' },
+        ]);
+        break;
+      }
+
       case 'session:ended':
+        resumeTokenRef.current = null;
         setIsSessionActive(false);
         setPreviewUrl(null);
         break;
@@ -204,6 +388,13 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
       case 'error':
         console.error('Server error:', message.message);
         setIsLoading(false);
+        if (message.code === 'unsupported_protocol') {
+          protocolMismatchRef.current = true;
+          setMessages((prev) => [...prev, { role: 'system', content: 'StoryDream has been updated - reload the page to continue' }]);
+        } else {
+          // e.g. a rejected attachment - otherwise the prompt would silently go nowhere
+          setMessages((prev) => [...prev, { role: 'system', content: message.message }]);
+        }
         break;
 
       // Handle render events
@@ -214,7 +405,7 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
         console.log('Render event:', message);
         renderEventListenersRef.current.forEach(listener => {
           try {
-            listener(message as RenderEvent);
+            listener(message);
           } catch (error) {
             console.error('Error in render event listener:', error);
           }
@@ -223,26 +414,6 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
     }
   }, []);
 
-  const handleAgentMessage = useCallback((agentMessage: any) => {
-    const sdkMessage = agentMessage.type === 'agent_message' ? agentMessage.data : agentMessage;
-
-    console.log('Agent message received:', sdkMessage.type, sdkMessage);
-
-    if (sdkMessage.type === 'assistant' && sdkMessage.message?.content) {
-      currentAssistantMessage.current = '';
-
-      for (const block of sdkMessage.message.content) {
-        if (block.type === 'text') {
-          currentAssistantMessage.current += block.text;
-        }
-      }
-
-      if (currentAssistantMessage.current) {
-        setMessages((prev) => [...prev, { role: 'assistant', content: currentAssistantMessage.current }]);
-      }
-    }
-  }, []);
-
   const startSession = useCallback(() => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       setIsLoading(true);
@@ -250,15 +421,9 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
       if (initialMessages.length === 0) {
         setMessages([]);
       }
-      currentAssistantMessage.current = '';
 
       // Include projectId if available
-      const payload: any = { type: 'session:start' };
-      if (projectIdRef.current) {
-        payload.projectId = projectIdRef.current;
-      }
-
-      wsRef.current.send(JSON.stringify(payload));
+      send(wsRef.current, { type: 'session:start', projectId: projectIdRef.current });
     }
   }, [initialMessages.length]);
 
@@ -267,24 +432,31 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
       if (wsRef.current?.readyState === WebSocket.OPEN && isSessionActive) {
         setMessages((prev) => [...prev, { role: 'user', content, attachments }]);
         setIsLoading(true);
-        currentAssistantMessage.current = '';
-
-        wsRef.current.send(
-          JSON.stringify({
-            type: 'message:send',
-            content,
-            attachments,
-          })
-        );
+
+        send(wsRef.current, {
+          type: 'message:send',
+          content,
+          attachments,
+        });
       }
     },
     [isSessionActive]
   );
 
+  const undoTurn = useCallback((messageId: string) => {
+    send(wsRef.current, { type: 'turn:undo', messageId });
+  }, []);
+
+  const redoTurn = useCallback((messageId: string) => {
+    send(wsRef.current, { type: 'turn:redo', messageId });
+  }, []);
+
+  const cancelAgent = useCallback(() => {
+    send(wsRef.current, { type: 'agent:cancel' });
+  }, []);
+
   const endSession = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type: 'session:end' }));
-    }
+    send(wsRef.current, { type: 'session:end' });
   }, []);
 
   const subscribeToRenderEvents = useCallback((listener: RenderEventListener) => {
@@ -302,6 +474,9 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
     messages,
     startSession,
     sendMessage,
+    undoTurn,
+    redoTurn,
+    cancelAgent,
     endSession,
     subscribeToRenderEvents,
   };
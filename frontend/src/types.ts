@@ -1,10 +1,15 @@
 // Shared types for StoryDream frontend
 
-export interface ImageAttachment {
-  type: 'image';
-  data: string;      // base64 encoded (without data URI prefix)
-  mediaType: string; // 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp'
-  name?: string;     // original filename for display
+import type { DiffStats, ImageAttachment, ProjectRole, RenderStage, StoredAttachment, TurnResult } from './protocol';
+
+export type { DiffStats, ImageAttachment, ProjectRole, RenderStage, StoredAttachment, TurnResult };
+
+export interface Collaborator {
+  userId?: string;
+  email?: string;
+  role: ProjectRole;
+  addedBy: string;
+  addedAt: string;
 }
 
 export interface Project {
@@ -15,38 +20,174 @@ export interface Project {
   gitRepoPath: string;
   currentCommitSha: string;
   thumbnailUrl?: string;
+  forkedFrom?: string;
+  collaborators?: Collaborator[];
+  role?: ProjectRole;  // Current user's role, included in API responses
+  videoSettings?: VideoSettings;  // Unset until changed: the template's 1920x1080, 30fps, 150 frames
+  compositions?: CompositionInfo[];  // Compositions in Root.tsx, as last reported by the preview
   createdAt: string;
   updatedAt: string;
   lastOpenedAt: string;
 }
 
+// Project-level resolution, frame rate and length, used by the main composition in preview and renders
+export interface VideoSettings {
+  width: number;
+  height: number;
+  fps: number;
+  durationInFrames: number;
+}
+
+// A prop a composition can be customized with (declared with withPropsSchema() in the template)
+export type PropFieldType = 'text' | 'color' | 'number' | 'image';
+
+export interface PropField {
+  type: PropFieldType;
+  label?: string;
+  multiline?: boolean;  // text
+  min?: number;  // number
+  max?: number;
+  step?: number;
+}
+
+export type PropsSchema = Record<string, PropField>;
+
+// A <Composition> the preview found in the project's Root.tsx
+export interface CompositionInfo extends VideoSettings {
+  id: string;
+  defaultProps: Record<string, unknown>;
+  propsSchema?: PropsSchema;
+}
+
 export interface ChatMessage {
   id?: string;
   projectId?: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
-  attachments?: ImageAttachment[];
+  attachments?: (StoredAttachment | ImageAttachment)[];  // Stored once saved, inline while sending
+  actions?: AgentAction[];  // Tool calls the agent made during this turn
+  turnResult?: TurnResult;
+  thinking?: string;  // Agent's reasoning, only kept while the page is open
+  streaming?: boolean;  // Turn is still running
+  commitSha?: string;
+  beforeCommitSha?: string;
+  undone?: boolean;
+  cancelled?: boolean;  // Turn was stopped by the user
   createdAt?: string;
 }
 
+export interface AgentAction {
+  tool?: string;
+  toolUseId?: string;
+  filePath?: string;
+  summary: string;
+  status?: 'running' | 'succeeded' | 'failed';
+  diffStats?: DiffStats;
+}
+
 export interface CreateProjectRequest {
   name: string;
   description?: string;
 }
 
+// Asset library
+export type AssetKind = 'image' | 'video' | 'audio' | 'font' | 'data';
+
+export interface ProjectAsset {
+  name: string;
+  kind: AssetKind;
+  contentType: string;
+  staticPath: string;  // Path to pass to staticFile() in compositions
+  url: string;         // Short-lived URL for previews
+}
+
+// Voiceovers
+export interface WordTiming {
+  word: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+// One subtitle line, in seconds from the start of the captioned audio
+export interface CaptionCue {
+  text: string;
+  startSeconds: number;
+  endSeconds: number;
+  words?: WordTiming[];
+}
+
+export interface Voiceover {
+  audio: ProjectAsset;
+  timings: ProjectAsset;  // JSON with the word timings and caption cues
+  durationSeconds: number;
+  words: WordTiming[];
+  captions: CaptionCue[];
+}
+
+// Sound-effects catalog
+export interface SoundEffect {
+  name: string;
+  category: string;
+  file: string;  // Path to pass to staticFile(), e.g. 'sfx/transitions/whoosh-fast.mp3'
+  durationSeconds: number;
+  loudnessLufs: number | null;
+  tags: string[];
+  url: string;   // Short-lived URL for previews
+}
+
 // Render types
 export interface RenderJob {
   renderId: string;
   projectId: string;
+  compositionId?: string;  // Missing for renders from before render history was kept
+  format?: 'mp4' | 'webm';
   status: 'pending' | 'running' | 'completed' | 'failed';
   createdAt: string;
   completedAt?: string;
   outputUrl?: string;
   error?: string;
   progress?: number;
+  stage?: RenderStage;  // While running
+  renderDurationMs?: number;  // Time spent in the render container
+  captionsUrls?: { srt: string; vtt: string };  // Sidecar subtitles, for 'sidecar' and 'both' renders
+  batchId?: string;
+}
+
+// One render per row of a dataset, with the row as inputProps
+export interface RenderBatchRow {
+  index: number;  // Position in the dataset, from 0
+  inputProps: Record<string, unknown>;
+  status: 'queued' | 'pending' | 'running' | 'completed' | 'failed';
+  renderId?: string;
+  outputUrl?: string;
+  error?: string;
+  attempts: number;
+}
+
+export interface RenderBatch {
+  batchId: string;
+  projectId: string;
+  compositionId: string;
+  status: 'running' | 'completed' | 'failed';  // 'failed' once finished with any failed rows
+  progress: number;
+  createdAt: string;
+  completedAt?: string;
+  rows: RenderBatchRow[];
+}
+
+// The dataset is sent as parsed JSON rows or as CSV text
+export interface RenderBatchRequest {
+  compositionId?: string;
+  format?: 'mp4' | 'webm';
+  rows?: Record<string, unknown>[];
+  csv?: string;
 }
 
 export interface RenderJobRequest {
   compositionId?: string;
   format?: 'mp4' | 'webm';
+  captions?: 'burn' | 'sidecar' | 'both';
+  captionsSource?: string;  // Caption file asset, default captions.json
+  captionsOffsetSeconds?: number;
+  inputProps?: Record<string, unknown>;  // Merged over the composition's defaultProps
 }
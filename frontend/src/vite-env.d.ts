@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_BACKEND_URL?: string;
+  readonly VITE_AUTH_TOKEN?: string;
+}
@@ -0,0 +1,379 @@
+// Generated from protocol/protocol.ts by scripts/sync-protocol.sh - do not edit
+
+// StoryDream WebSocket protocol
+//
+// Message types shared by the frontend, the backend and the agent server, plus
+// runtime validation for messages each process receives. This file is the source
+// of truth - scripts/sync-protocol.sh copies it into each package.
+//
+//   frontend  <->  backend    ClientMessage / ServerMessage
+//   backend   <->  agent      AgentCommand / AgentEvent
+//
+// Bump PROTOCOL_VERSION for changes an older peer can't understand.
+
+export const PROTOCOL_VERSION = 3;
+
+// ============ Shared shapes ============
+
+export type ProjectRole = 'viewer' | 'editor' | 'owner';
+
+export interface ImageAttachment {
+  type: 'image';
+  data: string;      // base64 encoded (without data URI prefix)
+  mediaType: string; // 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp'
+  name?: string;     // original filename for display
+}
+
+// Image saved to the project's storage, served by GET /api/projects/:projectId/attachments/:id
+export interface StoredAttachment {
+  type: 'image';
+  id: string;
+  mediaType: string;
+  name?: string;
+  size: number;  // Bytes
+}
+
+// Claude Agent SDK message, passed through as-is so this module doesn't depend on the SDK
+export interface AgentSdkMessage {
+  type: string;
+  [key: string]: any;
+}
+
+// The content blocks of SDK assistant and user messages that the backend reads
+export type AgentContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; thinking: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; is_error: boolean };
+
+// Lines changed by a file edit
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Summary of a finished agent turn, from the SDK's result message
+export interface TurnResult {
+  isError: boolean;
+  durationMs?: number;
+  numTurns?: number;
+  costUsd?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+// The agent's SDK stream, normalized by the backend into what the chat shows
+export type AgentActivity =
+  | { type: 'assistant_text_delta'; text: string }
+  | { type: 'thinking'; text: string }
+  | { type: 'tool_started'; toolUseId: string; tool: string; summary: string; filePath?: string }
+  | { type: 'tool_finished'; toolUseId: string; tool: string; filePath?: string; isError: boolean; diffStats?: DiffStats }
+  | ({ type: 'turn_result' } & TurnResult);
+
+export type ProtocolErrorCode =
+  | 'invalid_message'       // Not JSON, unknown type or missing/invalid fields
+  | 'unsupported_protocol'  // Peer speaks a different PROTOCOL_VERSION
+  | 'handshake_required';   // Message sent before hello
+
+// ============ Frontend -> backend ============
+
+export interface HelloMessage {
+  type: 'hello';
+  protocolVersion: number;
+}
+
+export type ClientMessage =
+  | HelloMessage
+  | { type: 'session:start'; projectId?: string }
+  | { type: 'session:resume'; resumeToken: string; lastSeq: number }
+  | { type: 'session:end' }
+  | { type: 'message:send'; content: string; attachments?: ImageAttachment[] }
+  | { type: 'agent:cancel' }
+  | { type: 'turn:undo'; messageId: string }
+  | { type: 'turn:redo'; messageId: string };
+
+// ============ Backend -> frontend ============
+
+export interface ErrorMessage {
+  type: 'error';
+  message: string;
+  code?: ProtocolErrorCode;
+}
+
+export interface SessionReadyMessage {
+  type: 'session:ready';
+  sessionId: string;
+  projectId: string | null;
+  role: ProjectRole | null;
+  previewUrl: string;
+  agentBusy: boolean;
+  resumeToken: string;
+  seq: number;  // Last event sequence number before this client joined
+}
+
+export interface SessionResumedMessage {
+  type: 'session:resumed';
+  sessionId: string;
+  projectId: string | null;
+  role: ProjectRole | null;
+  previewUrl: string;
+  agentBusy: boolean;
+}
+
+// Renders started by a render batch carry its ID, so clients can follow the batch instead
+export interface RenderStartEvent {
+  type: 'render:started';
+  renderId: string;
+  projectId: string;
+  batchId?: string;
+}
+
+// Steps of a render, reported by the render container
+export type RenderStage = 'bundling' | 'rendering' | 'encoding' | 'uploading';
+
+export interface RenderProgressEvent {
+  type: 'render:progress';
+  renderId: string;
+  projectId: string;
+  batchId?: string;
+  progress: number;  // 0-100 across all stages
+  stage?: RenderStage;  // Unset until the render container first reports
+  renderedFrames?: number;
+  encodedFrames?: number;
+  totalFrames?: number;
+  etaSeconds?: number;  // Estimated time left, once frames are rendering
+}
+
+export interface RenderCompleteEvent {
+  type: 'render:complete';
+  renderId: string;
+  projectId: string;
+  batchId?: string;
+  outputUrl: string;
+}
+
+export interface RenderFailedEvent {
+  type: 'render:failed';
+  renderId: string;
+  projectId: string;
+  batchId?: string;
+  error: string;
+}
+
+export type RenderEvent = RenderStartEvent | RenderProgressEvent | RenderCompleteEvent | RenderFailedEvent;
+
+// Events broadcast to every client attached to a session, buffered for session:resume
+export type SessionEvent =
+  | { type: 'agent:activity'; activity: AgentActivity }
+  | { type: 'agent:complete'; cancelled: boolean }
+  | { type: 'message:user'; content: string; attachments?: (StoredAttachment | ImageAttachment)[]; userId: string; userName?: string }
+  | { type: 'version:created'; sha: string; beforeSha: string | null; messageId?: string }
+  | { type: 'turn:undone' | 'turn:redone'; messageIds: string[]; sha: string }
+  | ErrorMessage;
+
+export type SequencedSessionEvent = SessionEvent & { seq: number };
+
+export type ServerMessage =
+  | HelloMessage
+  | SessionReadyMessage
+  | SessionResumedMessage
+  | { type: 'session:resume-failed'; reason: string }
+  | { type: 'session:ended' }
+  | SequencedSessionEvent
+  | RenderEvent
+  | ErrorMessage;
+
+// ============ Backend -> agent ============
+
+export type AgentCommand =
+  | { type: 'prompt'; content: string; attachments?: ImageAttachment[] }
+  | { type: 'cancel' };
+
+// ============ Agent -> backend ============
+
+export type AgentEvent =
+  | HelloMessage
+  | { type: 'agent_message'; data: AgentSdkMessage }
+  | { type: 'session_id'; sessionId: string }
+  | { type: 'complete'; cancelled?: boolean }
+  | { type: 'error'; message: string };
+
+// ============ Validation ============
+
+// Thrown for inbound messages that don't match the protocol
+export class ProtocolError extends Error {
+  name = 'ProtocolError';
+  code: ProtocolErrorCode;
+
+  constructor(code: ProtocolErrorCode, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+/**
+ * Parse and validate a message from the frontend
+ * Throws ProtocolError for malformed messages
+ */
+export function parseClientMessage(raw: string): ClientMessage {
+  const message = parseObject(raw);
+
+  switch (message.type) {
+    case 'hello':
+      return { type: 'hello', protocolVersion: readNumber(message, 'protocolVersion') };
+
+    case 'session:start':
+      return { type: 'session:start', projectId: readOptionalString(message, 'projectId') };
+
+    case 'session:resume':
+      return {
+        type: 'session:resume',
+        resumeToken: readString(message, 'resumeToken'),
+        lastSeq: readNumber(message, 'lastSeq'),
+      };
+
+    case 'session:end':
+    case 'agent:cancel':
+      return { type: message.type };
+
+    case 'message:send':
+      return {
+        type: 'message:send',
+        content: readString(message, 'content'),
+        attachments: readAttachments(message),
+      };
+
+    case 'turn:undo':
+    case 'turn:redo':
+      return { type: message.type, messageId: readString(message, 'messageId') };
+
+    default:
+      throw unknownType(message);
+  }
+}
+
+/**
+ * Parse and validate a message from the backend, as received by the agent
+ * Throws ProtocolError for malformed messages
+ */
+export function parseAgentCommand(raw: string): AgentCommand {
+  const message = parseObject(raw);
+
+  switch (message.type) {
+    case 'prompt':
+      return {
+        type: 'prompt',
+        content: readString(message, 'content'),
+        attachments: readAttachments(message),
+      };
+
+    case 'cancel':
+      return { type: 'cancel' };
+
+    default:
+      throw unknownType(message);
+  }
+}
+
+/**
+ * Parse and validate a message from the agent, as received by the backend
+ * Throws ProtocolError for malformed messages
+ */
+export function parseAgentEvent(raw: string): AgentEvent {
+  const message = parseObject(raw);
+
+  switch (message.type) {
+    case 'hello':
+      return { type: 'hello', protocolVersion: readNumber(message, 'protocolVersion') };
+
+    case 'agent_message': {
+      const data = message.data;
+      if (!isObject(data) || typeof data.type !== 'string') {
+        throw new ProtocolError('invalid_message', 'agent_message.data must be an SDK message');
+      }
+      return { type: 'agent_message', data: data as AgentSdkMessage };
+    }
+
+    case 'session_id':
+      return { type: 'session_id', sessionId: readString(message, 'sessionId') };
+
+    case 'complete':
+      return { type: 'complete', cancelled: message.cancelled === true };
+
+    case 'error':
+      return { type: 'error', message: readString(message, 'message') };
+
+    default:
+      throw unknownType(message);
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseObject(raw: string): JsonObject {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('invalid_message', 'Message is not valid JSON');
+  }
+
+  if (!isObject(value) || typeof value.type !== 'string') {
+    throw new ProtocolError('invalid_message', 'Message must be an object with a string type');
+  }
+  return value;
+}
+
+function unknownType(message: JsonObject): ProtocolError {
+  return new ProtocolError('invalid_message', `Unknown message type: ${String(message.type)}`);
+}
+
+function readString(message: JsonObject, field: string): string {
+  const value = message[field];
+  if (typeof value !== 'string') {
+    throw new ProtocolError('invalid_message', `${message.type}.${field} must be a string`);
+  }
+  return value;
+}
+
+function readOptionalString(message: JsonObject, field: string): string | undefined {
+  return message[field] === undefined || message[field] === null ? undefined : readString(message, field);
+}
+
+function readNumber(message: JsonObject, field: string): number {
+  const value = message[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ProtocolError('invalid_message', `${message.type}.${field} must be a number`);
+  }
+  return value;
+}
+
+function readAttachments(message: JsonObject): ImageAttachment[] | undefined {
+  const value = message.attachments;
+  if (value === undefined || value === null) return undefined;
+
+  if (!Array.isArray(value)) {
+    throw new ProtocolError('invalid_message', `${message.type}.attachments must be an array`);
+  }
+  return value.map((attachment, index) => {
+    if (
+      !isObject(attachment) ||
+      attachment.type !== 'image' ||
+      typeof attachment.data !== 'string' ||
+      typeof attachment.mediaType !== 'string' ||
+      (attachment.name !== undefined && typeof attachment.name !== 'string')
+    ) {
+      throw new ProtocolError('invalid_message', `${message.type}.attachments[${index}] is not a valid image attachment`);
+    }
+    return {
+      type: 'image',
+      data: attachment.data,
+      mediaType: attachment.mediaType,
+      name: attachment.name as string | undefined,
+    };
+  });
+}
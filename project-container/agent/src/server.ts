@@ -1,8 +1,10 @@
-import { query } from '@anthropic-ai/claude-agent-sdk';
+import { query, type Query } from '@anthropic-ai/claude-agent-sdk';
 import { WebSocketServer, WebSocket } from 'ws';
 import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { exec } from 'child_process';
+import { writeFile } from 'fs/promises';
 import { promisify } from 'util';
+import { PROTOCOL_VERSION, parseAgentCommand, type AgentEvent } from './protocol.js';
 
 const execAsync = promisify(exec);
 
@@ -73,15 +75,27 @@ if (INITIAL_SESSION_ID) {
   console.log(`Will resume agent session: ${INITIAL_SESSION_ID}`);
 }
 
+// Send an event to the backend if the connection is still open
+function sendEvent(ws: WebSocket, event: AgentEvent): boolean {
+  if (ws.readyState !== WebSocket.OPEN) {
+    return false;
+  }
+  ws.send(JSON.stringify(event));
+  return true;
+}
+
 wss.on('connection', (ws: WebSocket) => {
   console.log('Client connected');
+  sendEvent(ws, { type: 'hello', protocolVersion: PROTOCOL_VERSION });
 
   let messageQueue: MessageQueue | null = null;
-  let currentQuery: AsyncGenerator | null = null;
+  let currentQuery: Query | null = null;
   let abortController: AbortController | null = null;
   // Initialize with session ID from environment if available (for persistence)
   let sessionId: string | null = INITIAL_SESSION_ID;
   let queryRunning = false;
+  // Set by a cancel request, reported with the interrupted turn's completion
+  let turnCancelled = false;
 
   // Start the streaming query session
   const startStreamingQuery = async () => {
@@ -137,46 +151,37 @@ wss.on('connection', (ws: WebSocket) => {
             sessionId = newSessionId;
             console.log(`Captured new session ID: ${sessionId}`);
             // Notify backend of the new session ID for persistence
-            if (ws.readyState === WebSocket.OPEN) {
-              ws.send(JSON.stringify({
-                type: 'session_id',
-                sessionId: sessionId,
-              }));
-            }
+            sendEvent(ws, {
+              type: 'session_id',
+              sessionId: sessionId,
+            });
           } else {
             console.log(`Resumed existing session: ${sessionId}`);
           }
         }
 
         // Forward SDK message to frontend
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({
-            type: 'agent_message',
-            data: sdkMessage,
-          }));
-        } else {
+        if (!sendEvent(ws, { type: 'agent_message', data: sdkMessage })) {
           console.log('WebSocket not open, state:', ws.readyState);
         }
 
         // When we get a result message, signal completion to frontend
         // but keep the streaming session alive for more messages
         if (sdkMessage.type === 'result') {
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: 'complete' }));
+          if (sendEvent(ws, { type: 'complete', cancelled: turnCancelled })) {
             console.log('Sent complete signal (query continues in streaming mode)');
           }
+          turnCancelled = false;
         }
       }
 
       console.log(`Stream ended with ${messageCount} total messages`);
     } catch (error) {
       console.error('Streaming query error:', error);
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({
-          type: 'error',
-          message: error instanceof Error ? error.message : 'Unknown error',
-        }));
-      }
+      sendEvent(ws, {
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
     } finally {
       queryRunning = false;
       currentQuery = null;
@@ -186,7 +191,7 @@ wss.on('connection', (ws: WebSocket) => {
 
   ws.on('message', async (data: Buffer) => {
     try {
-      const message = JSON.parse(data.toString());
+      const message = parseAgentCommand(data.toString());
 
       if (message.type === 'prompt') {
         console.log('Received prompt:', message.content?.substring(0, 100) || '(no text)', message.attachments ? `with ${message.attachments.length} attachments` : '');
@@ -196,7 +201,7 @@ wss.on('connection', (ws: WebSocket) => {
         if (message.attachments && message.attachments.length > 0) {
           // Multimodal: images first, then text (Claude best practice)
           content = [
-            ...message.attachments.map((att: any) => ({
+            ...message.attachments.map((att) => ({
               type: 'image',
               source: {
                 type: 'base64',
@@ -244,22 +249,20 @@ wss.on('connection', (ws: WebSocket) => {
         }
 
       } else if (message.type === 'cancel') {
-        if (abortController) {
-          abortController.abort();
-          console.log('Query cancelled');
-        }
-        if (messageQueue) {
-          messageQueue.close();
+        // Interrupt only stops the current turn - the streaming session stays
+        // alive for the next prompt, unlike aborting the whole query
+        if (currentQuery && queryRunning) {
+          turnCancelled = true;
+          await currentQuery.interrupt();
+          console.log('Current turn interrupted');
         }
       }
     } catch (error) {
       console.error('Error processing message:', error);
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({
-          type: 'error',
-          message: error instanceof Error ? error.message : 'Unknown error',
-        }));
-      }
+      sendEvent(ws, {
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
   });
 
@@ -278,7 +281,7 @@ wss.on('connection', (ws: WebSocket) => {
   });
 });
 
-// HTTP server for sync endpoint
+// HTTP server for sync and restore endpoints
 const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse) => {
   // CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
@@ -291,7 +294,7 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
     return;
   }
 
-  if (req.method === 'POST' && req.url === '/sync') {
+  if (req.method === 'POST' && ['/sync', '/restore', '/assets', '/video-settings'].includes(req.url || '')) {
     let body = '';
     req.on('data', (chunk) => {
       body += chunk.toString();
@@ -299,7 +302,7 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
 
     req.on('end', async () => {
       try {
-        const { projectId } = JSON.parse(body);
+        const { projectId, settings } = JSON.parse(body);
 
         if (!projectId) {
           res.writeHead(400, { 'Content-Type': 'application/json' });
@@ -307,44 +310,20 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
           return;
         }
 
-        console.log(`Syncing project ${projectId} to GCS...`);
-
-        // Upload src/ directory to GCS
-        const srcPath = `gs://${STORAGE_BUCKET}/repos/${projectId}/src`;
-        console.log(`Uploading src/ to ${srcPath}...`);
-
-        try {
-          const { stdout, stderr } = await execAsync(
-            `gsutil -m cp -r ${REMOTION_APP_PATH}/src/* ${srcPath}/`,
-            { timeout: 60000 }
-          );
-          if (stdout) console.log('gsutil stdout:', stdout);
-          if (stderr) console.log('gsutil stderr:', stderr);
-          console.log(`Successfully uploaded src/ for project ${projectId}`);
-        } catch (uploadError: any) {
-          console.error('Failed to upload src/:', uploadError.message);
-          throw uploadError;
-        }
-
-        // Upload session data (.claude/) if it exists
-        const claudeSessionPath = '/home/node/.claude';
-        try {
-          const sessionGcsPath = `gs://${STORAGE_BUCKET}/repos/${projectId}/.claude`;
-          const { stdout, stderr } = await execAsync(
-            `gsutil -m cp -r ${claudeSessionPath}/* ${sessionGcsPath}/ 2>/dev/null || true`,
-            { timeout: 60000 }
-          );
-          if (stdout) console.log('Session upload stdout:', stdout);
-          console.log(`Session data uploaded for project ${projectId}`);
-        } catch (sessionError) {
-          // Session data upload is optional, don't fail if it doesn't exist
-          console.log('No session data to upload (or upload failed)');
+        if (req.url === '/sync') {
+          await syncToStorage(projectId);
+        } else if (req.url === '/assets') {
+          await refreshAssets(projectId);
+        } else if (req.url === '/video-settings') {
+          await writeVideoSettings(settings);
+        } else {
+          await restoreFromStorage(projectId);
         }
 
         res.writeHead(200, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ success: true, projectId }));
       } catch (error: any) {
-        console.error('Sync failed:', error);
+        console.error(`${req.url} failed:`, error);
         res.writeHead(500, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: error.message }));
       }
@@ -355,6 +334,89 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
   }
 });
 
+// Upload src/ and session data (.claude/) to GCS
+async function syncToStorage(projectId: string): Promise<void> {
+  console.log(`Syncing project ${projectId} to GCS...`);
+
+  // Mirror src/ to GCS (-d removes files the agent deleted)
+  const srcPath = `gs://${STORAGE_BUCKET}/repos/${projectId}/src`;
+  console.log(`Uploading src/ to ${srcPath}...`);
+
+  try {
+    const { stdout, stderr } = await execAsync(
+      `gsutil -m rsync -r -d ${REMOTION_APP_PATH}/src ${srcPath}`,
+      { timeout: 60000 }
+    );
+    if (stdout) console.log('gsutil stdout:', stdout);
+    if (stderr) console.log('gsutil stderr:', stderr);
+    console.log(`Successfully uploaded src/ for project ${projectId}`);
+  } catch (uploadError: any) {
+    console.error('Failed to upload src/:', uploadError.message);
+    throw uploadError;
+  }
+
+  // Upload session data (.claude/) if it exists
+  const claudeSessionPath = '/home/node/.claude';
+  try {
+    const sessionGcsPath = `gs://${STORAGE_BUCKET}/repos/${projectId}/.claude`;
+    const { stdout } = await execAsync(
+      `gsutil -m cp -r ${claudeSessionPath}/* ${sessionGcsPath}/ 2>/dev/null || true`,
+      { timeout: 60000 }
+    );
+    if (stdout) console.log('Session upload stdout:', stdout);
+    console.log(`Session data uploaded for project ${projectId}`);
+  } catch (sessionError) {
+    // Session data upload is optional, don't fail if it doesn't exist
+    console.log('No session data to upload (or upload failed)');
+  }
+}
+
+// Replace src/ with the project's src/ from GCS (after a version restore)
+// Vite's file watcher picks up the changes and hot-reloads the preview
+async function restoreFromStorage(projectId: string): Promise<void> {
+  const srcPath = `gs://${STORAGE_BUCKET}/repos/${projectId}/src`;
+  console.log(`Restoring src/ from ${srcPath}...`);
+
+  const { stdout, stderr } = await execAsync(
+    `gsutil -m rsync -r -d ${srcPath} ${REMOTION_APP_PATH}/src`,
+    { timeout: 60000 }
+  );
+  if (stdout) console.log('gsutil stdout:', stdout);
+  if (stderr) console.log('gsutil stderr:', stderr);
+  console.log(`Restored src/ for project ${projectId}`);
+}
+
+// Mirror the project's uploaded assets into public/assets/ (after an upload or delete)
+async function refreshAssets(projectId: string): Promise<void> {
+  const assetsPath = `gs://${STORAGE_BUCKET}/repos/${projectId}/assets`;
+  console.log(`Refreshing assets from ${assetsPath}...`);
+
+  // rsync fails when the project has no assets left, so clear the folder in that case
+  const { stdout: listing } = await execAsync(`gsutil ls ${assetsPath}/ 2>/dev/null || true`, { timeout: 60000 });
+  if (!listing.trim()) {
+    await execAsync(`find ${REMOTION_APP_PATH}/public/assets -mindepth 1 -delete`, { timeout: 60000 });
+    console.log(`No assets for project ${projectId}, cleared public/assets/`);
+    return;
+  }
+
+  const { stdout, stderr } = await execAsync(
+    `gsutil -m rsync -r -d ${assetsPath} ${REMOTION_APP_PATH}/public/assets`,
+    { timeout: 120000 }
+  );
+  if (stdout) console.log('gsutil stdout:', stdout);
+  if (stderr) console.log('gsutil stderr:', stderr);
+  console.log(`Refreshed assets for project ${projectId}`);
+}
+
+// Replace config/video-settings.json, which src/videoSettings.ts imports (after the user changes them)
+async function writeVideoSettings(settings: unknown): Promise<void> {
+  if (!settings || typeof settings !== 'object') {
+    throw new Error('settings are required');
+  }
+  await writeFile(`${REMOTION_APP_PATH}/config/video-settings.json`, JSON.stringify(settings, null, 2));
+  console.log('Updated video settings:', settings);
+}
+
 httpServer.listen(HTTP_PORT, () => {
   console.log(`HTTP sync server listening on port ${HTTP_PORT}`);
 });
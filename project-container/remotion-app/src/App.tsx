@@ -1,10 +1,16 @@
-import { useRef, useState, useEffect, useCallback, Component, ReactNode } from 'react';
+import { useRef, useState, useEffect, useCallback, useMemo, memo, Component, ReactNode } from 'react';
 import { Player, PlayerRef } from '@remotion/player';
-import { MyVideo } from './compositions/MyVideo';
+import { RemotionRoot } from './Root';
 import { Timeline } from './components/Timeline';
+import {
+  CompositionDiscovery,
+  getCompositions,
+  subscribeToCompositions,
+  type DiscoveredComposition,
+} from './remotion-wrapper';
 
-const DURATION_IN_FRAMES = 150;
-const FPS = 30;
+// Remembers the previewed composition across the reloads that follow the agent's edits
+const SELECTED_COMPOSITION_KEY = 'storydream:composition';
 
 // Post error to parent window (frontend) for auto-fixing
 function postErrorToParent(error: { message: string; stack?: string; componentStack?: string }) {
@@ -20,6 +26,41 @@ function postErrorToParent(error: { message: string; stack?: string; componentSt
   }
 }
 
+// Tell the parent window (frontend) which compositions exist, for the render picker
+function postCompositionsToParent(compositions: DiscoveredComposition[], selectedId: string | undefined) {
+  if (window.parent !== window) {
+    window.parent.postMessage({
+      type: 'remotion:compositions',
+      compositions: compositions.map(({ id, width, height, fps, durationInFrames, defaultProps, propsSchema }) => ({
+        id,
+        width,
+        height,
+        fps,
+        durationInFrames,
+        defaultProps: toSerializableProps(defaultProps),
+        propsSchema,
+      })),
+      selectedId,
+    }, '*');
+  }
+}
+
+// Default props can hold values postMessage can't clone (functions, elements), so keep their JSON form
+function toSerializableProps(props: Record<string, unknown>): Record<string, unknown> {
+  try {
+    return JSON.parse(JSON.stringify(props));
+  } catch {
+    return {};
+  }
+}
+
+// Mounts Root.tsx so its Compositions register; memoized so frame updates don't re-run it
+const DiscoverCompositions = memo(() => (
+  <CompositionDiscovery>
+    <RemotionRoot />
+  </CompositionDiscovery>
+));
+
 // Error Boundary to catch React component errors
 interface ErrorBoundaryState {
   hasError: boolean;
@@ -69,6 +110,45 @@ class ErrorBoundary extends Component<{ children: ReactNode }, ErrorBoundaryStat
 export const App = () => {
   const playerRef = useRef<PlayerRef>(null);
   const [currentFrame, setCurrentFrame] = useState(0);
+  const [compositions, setCompositions] = useState<DiscoveredComposition[]>(getCompositions);
+  const [selectedId, setSelectedId] = useState(() => sessionStorage.getItem(SELECTED_COMPOSITION_KEY));
+  // Values from the frontend's props form, by composition ID
+  const [propOverrides, setPropOverrides] = useState<Record<string, Record<string, unknown>>>({});
+
+  const composition = compositions.find((c) => c.id === selectedId) ?? compositions[0];
+
+  // Compositions register after Root.tsx mounts, so follow the registry
+  useEffect(() => {
+    setCompositions(getCompositions());
+    return subscribeToCompositions(() => setCompositions(getCompositions()));
+  }, []);
+
+  useEffect(() => {
+    postCompositionsToParent(compositions, composition?.id);
+  }, [compositions, composition?.id]);
+
+  // The frontend sends storydream:inputProps whenever the props form changes
+  useEffect(() => {
+    const handleInputProps = (event: MessageEvent) => {
+      if (event.source !== window.parent || event.data?.type !== 'storydream:inputProps') return;
+      const { compositionId, props } = event.data;
+      if (typeof compositionId !== 'string' || !props || typeof props !== 'object') return;
+      setPropOverrides((prev) => ({ ...prev, [compositionId]: props }));
+    };
+
+    window.addEventListener('message', handleInputProps);
+    return () => window.removeEventListener('message', handleInputProps);
+  }, []);
+
+  const inputProps = useMemo(
+    () => (composition ? { ...composition.defaultProps, ...propOverrides[composition.id] } : {}),
+    [composition, propOverrides]
+  );
+
+  const handleSelectComposition = useCallback((id: string) => {
+    sessionStorage.setItem(SELECTED_COMPOSITION_KEY, id);
+    setSelectedId(id);
+  }, []);
 
   // Global error handlers for unhandled errors
   useEffect(() => {
@@ -97,7 +177,7 @@ export const App = () => {
     };
   }, []);
 
-  // Sync current frame from player
+  // Sync current frame from player (it remounts when the composition changes)
   useEffect(() => {
     const player = playerRef.current;
     if (!player) return;
@@ -110,7 +190,7 @@ export const App = () => {
     sync();
 
     return () => cancelAnimationFrame(animationId);
-  }, []);
+  }, [composition?.id]);
 
   const handleSeek = useCallback((frame: number) => {
     playerRef.current?.seekTo(frame);
@@ -129,36 +209,76 @@ export const App = () => {
         gap: '12px',
       }}
     >
+      <ErrorBoundary>
+        <DiscoverCompositions />
+      </ErrorBoundary>
+
+      {/* Composition picker */}
+      {compositions.length > 1 && composition && (
+        <select
+          value={composition.id}
+          onChange={(e) => handleSelectComposition(e.target.value)}
+          style={{
+            alignSelf: 'flex-start',
+            background: '#1a1a1a',
+            color: '#e5e5e5',
+            border: '1px solid #333',
+            borderRadius: '6px',
+            padding: '4px 8px',
+            fontSize: '12px',
+            fontFamily: 'system-ui, sans-serif',
+          }}
+        >
+          {compositions.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.id} ({c.width}x{c.height}, {c.fps}fps, {(c.durationInFrames / c.fps).toFixed(1)}s)
+            </option>
+          ))}
+        </select>
+      )}
+
       {/* Video Player */}
       <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', minHeight: 0 }}>
-        <ErrorBoundary>
-          <Player
-            ref={playerRef}
-            component={MyVideo}
-            compositionWidth={1920}
-            compositionHeight={1080}
-            durationInFrames={DURATION_IN_FRAMES}
-            fps={FPS}
-            style={{
-              width: '100%',
-              maxWidth: '100%',
-              maxHeight: '100%',
-              aspectRatio: '16/9',
-            }}
-            controls
-            autoPlay
-            loop
-          />
-        </ErrorBoundary>
+        {composition ? (
+          <ErrorBoundary>
+            <Player
+              key={composition.id}
+              ref={playerRef}
+              {...(composition.lazyComponent
+                ? { lazyComponent: composition.lazyComponent }
+                : { component: composition.component! })}
+              inputProps={inputProps}
+              compositionWidth={composition.width}
+              compositionHeight={composition.height}
+              durationInFrames={composition.durationInFrames}
+              fps={composition.fps}
+              style={{
+                width: '100%',
+                maxWidth: '100%',
+                maxHeight: '100%',
+                aspectRatio: `${composition.width}/${composition.height}`,
+              }}
+              controls
+              autoPlay
+              loop
+            />
+          </ErrorBoundary>
+        ) : (
+          <p style={{ color: '#888', fontFamily: 'system-ui, sans-serif', fontSize: 14 }}>
+            No compositions found in src/Root.tsx
+          </p>
+        )}
       </div>
 
       {/* Timeline */}
-      <Timeline
-        durationInFrames={DURATION_IN_FRAMES}
-        fps={FPS}
-        currentFrame={currentFrame}
-        onSeek={handleSeek}
-      />
+      {composition && (
+        <Timeline
+          durationInFrames={composition.durationInFrames}
+          fps={composition.fps}
+          currentFrame={currentFrame}
+          onSeek={handleSeek}
+        />
+      )}
     </div>
   );
 };
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Composition } from 'remotion';
-import { MyVideo } from './compositions/MyVideo';
+import { MyVideo, myVideoDefaultProps } from './compositions/MyVideo';
+import { VIDEO_SETTINGS } from './videoSettings';
 
 // Root component required for Remotion CLI rendering
 // This registers all compositions that can be rendered
@@ -9,34 +10,37 @@ import { MyVideo } from './compositions/MyVideo';
 export const RemotionRoot: React.FC = () => {
   return (
     <>
-      {/* Main video composition - 5 seconds at 30fps */}
+      {/* Main video composition, with the project's video settings */}
       <Composition
         id="MyVideo"
         component={MyVideo}
-        durationInFrames={150}
-        fps={30}
-        width={1920}
-        height={1080}
+        durationInFrames={VIDEO_SETTINGS.durationInFrames}
+        fps={VIDEO_SETTINGS.fps}
+        width={VIDEO_SETTINGS.width}
+        height={VIDEO_SETTINGS.height}
+        defaultProps={myVideoDefaultProps}
       />
 
       {/* 720p version */}
       <Composition
         id="MyVideo720p"
         component={MyVideo}
-        durationInFrames={150}
-        fps={30}
+        durationInFrames={VIDEO_SETTINGS.durationInFrames}
+        fps={VIDEO_SETTINGS.fps}
         width={1280}
         height={720}
+        defaultProps={myVideoDefaultProps}
       />
 
       {/* Square format for social media */}
       <Composition
         id="MyVideoSquare"
         component={MyVideo}
-        durationInFrames={150}
-        fps={30}
+        durationInFrames={VIDEO_SETTINGS.durationInFrames}
+        fps={VIDEO_SETTINGS.fps}
         width={1080}
         height={1080}
+        defaultProps={myVideoDefaultProps}
       />
     </>
   );
@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import {
+  AbsoluteFill,
+  cancelRender,
+  continueRender,
+  delayRender,
+  getInputProps,
+  getRemotionEnvironment,
+  staticFile,
+  useCurrentFrame,
+  useVideoConfig,
+} from 'remotion';
+import { Sequence } from '../remotion-wrapper';
+
+export interface CaptionWord {
+  word: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface CaptionCue {
+  text: string;
+  startSeconds: number;
+  endSeconds: number;
+  words?: CaptionWord[];  // Needed by the karaoke preset to highlight the spoken word
+}
+
+export type CaptionPreset = 'classic' | 'bold' | 'karaoke' | 'minimal';
+
+interface CaptionsProps {
+  src?: string;               // Caption JSON in public/, e.g. 'assets/voiceover-welcome.json'
+  captions?: CaptionCue[];    // Or the cues themselves, instead of src
+  preset?: CaptionPreset;
+  style?: React.CSSProperties;  // Overrides for the caption text
+}
+
+interface PresetStyle {
+  container: React.CSSProperties;
+  text: React.CSSProperties;
+  highlight?: React.CSSProperties;  // Spoken word, for cues with word timings
+}
+
+const PRESETS: Record<CaptionPreset, PresetStyle> = {
+  classic: {
+    container: { justifyContent: 'flex-end', alignItems: 'center', paddingBottom: '8%' },
+    text: {
+      fontFamily: 'system-ui, sans-serif',
+      fontSize: 44,
+      color: 'white',
+      background: 'rgba(0, 0, 0, 0.7)',
+      padding: '8px 20px',
+      borderRadius: 8,
+    },
+  },
+  bold: {
+    container: { justifyContent: 'flex-end', alignItems: 'center', paddingBottom: '15%' },
+    text: {
+      fontFamily: 'system-ui, sans-serif',
+      fontSize: 72,
+      fontWeight: 900,
+      textTransform: 'uppercase',
+      color: 'white',
+      WebkitTextStroke: '3px black',
+      paintOrder: 'stroke fill',
+      textShadow: '0 6px 16px rgba(0, 0, 0, 0.5)',
+    },
+  },
+  karaoke: {
+    container: { justifyContent: 'flex-end', alignItems: 'center', paddingBottom: '10%' },
+    text: {
+      fontFamily: 'system-ui, sans-serif',
+      fontSize: 56,
+      fontWeight: 800,
+      color: 'rgba(255, 255, 255, 0.85)',
+      textShadow: '0 4px 12px rgba(0, 0, 0, 0.6)',
+    },
+    highlight: { color: '#facc15' },
+  },
+  minimal: {
+    container: { justifyContent: 'flex-end', alignItems: 'center', paddingBottom: '5%' },
+    text: {
+      fontFamily: 'system-ui, sans-serif',
+      fontSize: 34,
+      color: 'white',
+      textShadow: '0 2px 6px rgba(0, 0, 0, 0.8)',
+    },
+  },
+};
+
+// Renders started with sidecar captions pass { storydreamCaptions: 'sidecar' } (see render-container/render.mjs)
+function isHiddenInRender(): boolean {
+  if (!getRemotionEnvironment().isRendering) {
+    return false;
+  }
+  return (getInputProps() as { storydreamCaptions?: string }).storydreamCaptions === 'sidecar';
+}
+
+/**
+ * Subtitles from a caption file - a voiceover's timings JSON or an edited { captions: [...] } file
+ * Each cue is a "text" Sequence, so it shows on the timeline. Cue times are in seconds from the start
+ * of the captioned audio: put Captions inside the same Sequence as the voiceover's <Audio>.
+ */
+export const Captions: React.FC<CaptionsProps> = ({ src, captions, preset = 'classic', style }) => {
+  const { fps } = useVideoConfig();
+  const [loaded, setLoaded] = useState<CaptionCue[] | null>(null);
+  const [handle] = useState(() => (src && !captions ? delayRender(`Loading captions from ${src}`) : null));
+
+  useEffect(() => {
+    if (!src || captions) return;
+
+    fetch(staticFile(src))
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load captions from ${src} (HTTP ${response.status})`);
+        }
+        return response.json();
+      })
+      .then((data: { captions?: CaptionCue[] }) => {
+        if (!Array.isArray(data.captions)) {
+          throw new Error(`${src} has no captions array`);
+        }
+        setLoaded(data.captions);
+        if (handle !== null) continueRender(handle);
+      })
+      .catch((error) => cancelRender(error));
+  }, [src, captions, handle]);
+
+  const cues = captions || loaded || [];
+  if (isHiddenInRender()) {
+    return null;
+  }
+
+  return (
+    <>
+      {cues.map((cue, index) => {
+        const from = Math.round(cue.startSeconds * fps);
+        return (
+          <Sequence
+            key={index}
+            name={`Caption: ${cue.text}`}
+            type="text"
+            from={from}
+            durationInFrames={Math.max(1, Math.round(cue.endSeconds * fps) - from)}
+          >
+            <CaptionLine cue={cue} preset={PRESETS[preset]} style={style} />
+          </Sequence>
+        );
+      })}
+    </>
+  );
+};
+
+const CaptionLine: React.FC<{ cue: CaptionCue; preset: PresetStyle; style?: React.CSSProperties }> = ({
+  cue,
+  preset,
+  style,
+}) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const seconds = cue.startSeconds + frame / fps;
+  // The last word that has started stays highlighted through the pause after it
+  const activeWord = cue.words ? cue.words.filter((word) => word.startSeconds <= seconds).length - 1 : -1;
+
+  return (
+    <AbsoluteFill style={preset.container}>
+      <div style={{ maxWidth: '80%', textAlign: 'center', lineHeight: 1.25, whiteSpace: 'pre-line', ...preset.text, ...style }}>
+        {preset.highlight && cue.words
+          ? cue.words.map((word, index) => (
+              <span key={index} style={index === activeWord ? preset.highlight : undefined}>
+                {index > 0 ? ' ' : ''}
+                {word.word}
+              </span>
+            ))
+          : cue.text}
+      </div>
+    </AbsoluteFill>
+  );
+};
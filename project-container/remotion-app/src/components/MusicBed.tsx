@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { Audio, interpolate, staticFile, useVideoConfig } from 'remotion';
+import { getSequences, subscribeToSequences, type SequenceInfo } from '../remotion-wrapper';
+
+interface MusicBedProps {
+  src: string;                // Path in public/, e.g. 'music/upbeat-corporate.mp3' or 'assets/song.mp3'
+  volume?: number;            // Full volume, 0-1
+  fadeInSeconds?: number;
+  fadeOutSeconds?: number;    // Fades out at the end of the composition
+  duckTo?: number;            // Fraction of the volume kept while voice or sound effects play
+  duckFadeSeconds?: number;   // How long the volume takes to dip and recover
+  trimBeforeSeconds?: number; // Skip the start of the track
+  loop?: boolean;
+}
+
+const clamp = { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' } as const;
+
+/**
+ * Background music for a whole composition
+ * Fades in and out, and ducks under every audio Sequence (voice, SFX) registered on the timeline.
+ * Place it at the top level of the composition - Sequence frames are compared with the composition's
+ * frames, and audio Sequences with "music" in their name don't trigger ducking.
+ */
+export const MusicBed: React.FC<MusicBedProps> = ({
+  src,
+  volume = 0.6,
+  fadeInSeconds = 1,
+  fadeOutSeconds = 2,
+  duckTo = 0.25,
+  duckFadeSeconds = 0.3,
+  trimBeforeSeconds = 0,
+  loop = true,
+}) => {
+  const { fps, durationInFrames } = useVideoConfig();
+  const [sequences, setSequences] = useState<SequenceInfo[]>(getSequences);
+
+  // Sequences register after they mount, so follow the registry
+  useEffect(() => {
+    setSequences(getSequences());
+    return subscribeToSequences(() => setSequences(getSequences()));
+  }, []);
+
+  const duckTriggers = sequences.filter((seq) => seq.type === 'audio' && !seq.name.toLowerCase().includes('music'));
+  const fadeInFrames = Math.max(1, fadeInSeconds * fps);
+  const fadeOutFrames = Math.max(1, fadeOutSeconds * fps);
+  const duckFadeFrames = Math.max(1, duckFadeSeconds * fps);
+
+  const getVolume = (frame: number) => {
+    const fade =
+      interpolate(frame, [0, fadeInFrames], [0, 1], clamp) *
+      interpolate(frame, [durationInFrames - fadeOutFrames, durationInFrames], [1, 0], clamp);
+    const duck = Math.max(
+      0,
+      ...duckTriggers.map((seq) => {
+        const end = seq.from + seq.durationInFrames;
+        return interpolate(frame, [seq.from - duckFadeFrames, seq.from, end, end + duckFadeFrames], [0, 1, 1, 0], clamp);
+      })
+    );
+    return volume * fade * (1 - (1 - duckTo) * duck);
+  };
+
+  return (
+    <Audio
+      src={staticFile(src)}
+      volume={getVolume}
+      // Keep counting frames across loops so the fades and ducking follow the composition
+      loopVolumeCurveBehavior="extend"
+      loop={loop}
+      trimBefore={Math.round(trimBeforeSeconds * fps)}
+      name="Music"
+    />
+  );
+};
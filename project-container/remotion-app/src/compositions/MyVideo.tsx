@@ -1,7 +1,26 @@
-import { AbsoluteFill, useCurrentFrame, useVideoConfig, interpolate, spring, Sequence } from 'remotion';
+import { AbsoluteFill, Img, staticFile, useCurrentFrame, useVideoConfig, interpolate, spring, Sequence } from 'remotion';
+import { withPropsSchema } from '../propsSchema';
+
+// Props the user can change from the form next to the preview (see propsSchema.ts)
+// A type rather than an interface, since Remotion needs props assignable to Record<string, unknown>
+export type MyVideoProps = {
+  title: string;
+  tagline: string;
+  callToAction: string;
+  textColor: string;
+  logo: string;  // Optional image in public/, e.g. 'assets/logo.png'
+};
+
+export const myVideoDefaultProps: MyVideoProps = {
+  title: 'Welcome to StoryDream',
+  tagline: 'Create stunning videos with the power of AI',
+  callToAction: 'Get Started Today',
+  textColor: '#ffffff',
+  logo: '',
+};
 
 // Intro Scene Component
-const IntroScene = () => {
+const IntroScene = ({ title, textColor, logo }: Pick<MyVideoProps, 'title' | 'textColor' | 'logo'>) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
 
@@ -25,25 +44,28 @@ const IntroScene = () => {
         fontFamily: 'system-ui, sans-serif',
       }}
     >
+      {logo && (
+        <Img src={staticFile(logo)} style={{ height: 160, marginBottom: 40, opacity: titleOpacity }} />
+      )}
       <h1
         style={{
           fontSize: 80,
           fontWeight: 700,
-          color: 'white',
+          color: textColor,
           textShadow: '0 4px 20px rgba(0,0,0,0.3)',
           transform: `translateY(${titleY}px)`,
           opacity: titleOpacity,
           margin: 0,
         }}
       >
-        Welcome to StoryDream
+        {title}
       </h1>
     </AbsoluteFill>
   );
 };
 
 // Main Content Scene
-const MainScene = () => {
+const MainScene = ({ tagline, textColor }: Pick<MyVideoProps, 'tagline' | 'textColor'>) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
 
@@ -65,20 +87,20 @@ const MainScene = () => {
       <p
         style={{
           fontSize: 48,
-          color: 'white',
+          color: textColor,
           opacity,
           textAlign: 'center',
           maxWidth: '80%',
         }}
       >
-        Create stunning videos with the power of AI
+        {tagline}
       </p>
     </AbsoluteFill>
   );
 };
 
 // Outro Scene
-const OutroScene = () => {
+const OutroScene = ({ callToAction, textColor }: Pick<MyVideoProps, 'callToAction' | 'textColor'>) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
 
@@ -103,32 +125,34 @@ const OutroScene = () => {
         style={{
           fontSize: 64,
           fontWeight: 700,
-          color: 'white',
+          color: textColor,
           transform: `scale(${scale})`,
         }}
       >
-        Get Started Today
+        {callToAction}
       </h2>
     </AbsoluteFill>
   );
 };
 
-export const MyVideo = () => {
+const MyVideoScenes: React.FC<Partial<MyVideoProps>> = (props) => {
+  const { title, tagline, callToAction, textColor, logo } = { ...myVideoDefaultProps, ...props };
+
   return (
     <AbsoluteFill>
       {/* Scene 1: Intro - 0 to 50 frames */}
       <Sequence name="Intro" from={0} durationInFrames={50}>
-        <IntroScene />
+        <IntroScene title={title} textColor={textColor} logo={logo} />
       </Sequence>
 
       {/* Scene 2: Main Content - 50 to 100 frames */}
       <Sequence name="Main Content" from={50} durationInFrames={50}>
-        <MainScene />
+        <MainScene tagline={tagline} textColor={textColor} />
       </Sequence>
 
       {/* Scene 3: Outro - 100 to 150 frames */}
       <Sequence name="Outro" from={100} durationInFrames={50}>
-        <OutroScene />
+        <OutroScene callToAction={callToAction} textColor={textColor} />
       </Sequence>
 
       {/* Text overlay that spans multiple scenes */}
@@ -142,3 +166,11 @@ export const MyVideo = () => {
     </AbsoluteFill>
   );
 };
+
+export const MyVideo = withPropsSchema(MyVideoScenes, {
+  title: { type: 'text', label: 'Title' },
+  tagline: { type: 'text', label: 'Tagline', multiline: true },
+  callToAction: { type: 'text', label: 'Call to action' },
+  textColor: { type: 'color', label: 'Text color' },
+  logo: { type: 'image', label: 'Logo' },
+});
@@ -0,0 +1,28 @@
+// Props a composition can be customized with. StoryDream shows a form for them next to the preview,
+// and renders pass the values in as inputProps, so one composition can make many videos.
+
+export type PropField =
+  | { type: 'text'; label?: string; multiline?: boolean }
+  | { type: 'color'; label?: string }
+  | { type: 'number'; label?: string; min?: number; max?: number; step?: number }
+  | { type: 'image'; label?: string };  // Path for staticFile(), e.g. 'assets/logo.png'
+
+export type PropsSchema = Record<string, PropField>;
+
+const schemas = new WeakMap<object, PropsSchema>();
+
+/**
+ * Attach a props schema to a composition's component:
+ *
+ *   export const MyVideo = withPropsSchema(MyVideoScene, { title: { type: 'text' } });
+ *
+ * Give the Composition defaultProps for every field, so the form starts from them
+ */
+export function withPropsSchema<T extends object>(component: T, schema: PropsSchema): T {
+  schemas.set(component, schema);
+  return component;
+}
+
+export function getPropsSchema(component: object | undefined): PropsSchema | undefined {
+  return component ? schemas.get(component) : undefined;
+}
@@ -1,13 +1,15 @@
 // This file wraps Remotion's exports and intercepts Sequence
-// to automatically register with our timeline system
+// to automatically register with our timeline system,
+// and Composition so the preview can discover the compositions in Root.tsx
 
 // Re-export everything from real-remotion (alias to actual remotion package)
 export * from 'real-remotion';
 
-// Override Sequence with our tracked version
-import { Sequence as OriginalSequence } from 'real-remotion';
-import { useEffect, useId } from 'react';
+// Override Sequence and Composition with our tracked versions
+import { Sequence as OriginalSequence, Composition as OriginalComposition } from 'real-remotion';
+import { useContext, useEffect, useId } from 'react';
 import React from 'react';
+import { getPropsSchema, type PropsSchema } from './propsSchema';
 
 // Timeline registration interface
 export interface SequenceInfo {
@@ -53,6 +55,7 @@ interface TrackedSequenceProps {
   from?: number;
   durationInFrames?: number;
   name?: string;
+  type?: SequenceInfo['type'];  // Timeline track, inferred from the name when omitted
   layout?: 'absolute-fill' | 'none';
   showInTimeline?: boolean;
   premountFor?: number;
@@ -64,6 +67,7 @@ interface TrackedSequenceProps {
 export const Sequence: React.FC<TrackedSequenceProps> = ({
   children,
   name,
+  type: explicitType,
   from = 0,
   durationInFrames,
   ...rest
@@ -72,12 +76,14 @@ export const Sequence: React.FC<TrackedSequenceProps> = ({
 
   useEffect(() => {
     if (durationInFrames !== undefined) {
-      // Infer type from name if possible
+      // Use the explicit type, or infer it from the name
       let type: SequenceInfo['type'] = 'scene';
       const lowerName = (name || '').toLowerCase();
-      if (lowerName.includes('audio') || lowerName.includes('music') || lowerName.includes('sound')) {
+      if (explicitType) {
+        type = explicitType;
+      } else if (['audio', 'music', 'sound', 'sfx', 'voice', 'narration'].some((word) => lowerName.includes(word))) {
         type = 'audio';
-      } else if (lowerName.includes('text') || lowerName.includes('title') || lowerName.includes('subtitle')) {
+      } else if (['text', 'title', 'caption'].some((word) => lowerName.includes(word))) {
         type = 'text';
       } else if (lowerName.includes('effect') || lowerName.includes('transition')) {
         type = 'effect';
@@ -95,7 +101,7 @@ export const Sequence: React.FC<TrackedSequenceProps> = ({
         unregisterSequence(id);
       };
     }
-  }, [id, name, from, durationInFrames]);
+  }, [id, name, explicitType, from, durationInFrames]);
 
   return React.createElement(
     OriginalSequence,
@@ -103,3 +109,73 @@ export const Sequence: React.FC<TrackedSequenceProps> = ({
     children
   );
 };
+
+// ============ Composition discovery ============
+// The preview renders Root.tsx inside <CompositionDiscovery>, where Compositions register here
+// instead of mounting, so it can list them and play the selected one in a <Player>
+
+export interface DiscoveredComposition {
+  id: string;
+  width: number;
+  height: number;
+  fps: number;
+  durationInFrames: number;
+  defaultProps: Record<string, unknown>;
+  propsSchema?: PropsSchema;  // See withPropsSchema()
+  component?: React.ComponentType<any>;
+  lazyComponent?: () => Promise<{ default: React.ComponentType<any> }>;
+}
+
+const compositionRegistry = new Map<string, DiscoveredComposition>();
+let compositionListeners: Array<() => void> = [];
+
+export function getCompositions(): DiscoveredComposition[] {
+  return Array.from(compositionRegistry.values());
+}
+
+export function subscribeToCompositions(callback: () => void): () => void {
+  compositionListeners.push(callback);
+  return () => {
+    compositionListeners = compositionListeners.filter(l => l !== callback);
+  };
+}
+
+function notifyCompositionListeners() {
+  compositionListeners.forEach(l => l());
+}
+
+const CompositionDiscoveryContext = React.createContext(false);
+
+export const CompositionDiscovery: React.FC<{ children: React.ReactNode }> = ({ children }) =>
+  React.createElement(CompositionDiscoveryContext.Provider, { value: true }, children);
+
+// Wrapped Composition that registers for the preview, and mounts normally everywhere else (renders)
+export const Composition = ((props: any) => {
+  const discovering = useContext(CompositionDiscoveryContext);
+  const { id, width, height, fps, durationInFrames, defaultProps, component, lazyComponent } = props;
+
+  useEffect(() => {
+    if (!discovering) return;
+
+    // Compositions sized by calculateMetadata fall back to 1080p, 30fps and 5 seconds
+    compositionRegistry.set(id, {
+      id,
+      width: width ?? 1920,
+      height: height ?? 1080,
+      fps: fps ?? 30,
+      durationInFrames: durationInFrames ?? 150,
+      defaultProps: defaultProps ?? {},
+      propsSchema: getPropsSchema(component),
+      component,
+      lazyComponent,
+    });
+    notifyCompositionListeners();
+
+    return () => {
+      compositionRegistry.delete(id);
+      notifyCompositionListeners();
+    };
+  }, [discovering, id, width, height, fps, durationInFrames, defaultProps, component, lazyComponent]);
+
+  return discovering ? null : React.createElement(OriginalComposition, props);
+}) as typeof OriginalComposition;
@@ -0,0 +1,13 @@
+import settings from '../config/video-settings.json';
+
+// The project's resolution, frame rate and length, set in the StoryDream workspace header.
+// config/video-settings.json is written by StoryDream (for the preview and for renders),
+// so change the settings there rather than editing the file.
+export interface VideoSettings {
+  width: number;
+  height: number;
+  fps: number;
+  durationInFrames: number;
+}
+
+export const VIDEO_SETTINGS: VideoSettings = settings;
@@ -3,6 +3,11 @@ set -e
 
 echo "Starting StoryDream project container..."
 
+# Project's video settings (resolution, fps, duration), read by src/videoSettings.ts
+if [ -n "$VIDEO_SETTINGS" ]; then
+  echo "$VIDEO_SETTINGS" > /app/remotion-app/config/video-settings.json
+fi
+
 # Start the Remotion app dev server in background
 echo "Starting Vite dev server on port 3000..."
 cd /app/remotion-app
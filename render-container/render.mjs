@@ -10,6 +10,9 @@ import { Storage } from '@google-cloud/storage';
 import path from 'path';
 import fs from 'fs';
 import os from 'os';
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
 
 // Environment variables
 const PROJECT_ID = process.env.PROJECT_ID;
@@ -17,6 +20,14 @@ const RENDER_ID = process.env.RENDER_ID;
 const GCS_BUCKET = process.env.GCS_BUCKET || 'storydream-data';
 const COMPOSITION_ID = process.env.COMPOSITION_ID || 'MyVideo';
 const OUTPUT_FORMAT = process.env.OUTPUT_FORMAT || 'mp4';
+// 'burn' keeps the composition's Captions, 'sidecar' hides them and uploads .srt/.vtt files, 'both' does both
+const CAPTIONS_MODE = process.env.CAPTIONS_MODE || 'burn';
+const CAPTIONS_SOURCE = process.env.CAPTIONS_SOURCE || 'captions.json';
+const CAPTIONS_OFFSET = Number(process.env.CAPTIONS_OFFSET) || 0;
+// Props from the frontend's form, merged over the composition's defaultProps
+const INPUT_PROPS = JSON.parse(process.env.INPUT_PROPS || '{}');
+// The project's resolution, fps and duration, read by the template's src/videoSettings.ts
+const VIDEO_SETTINGS = process.env.VIDEO_SETTINGS || '{"width":1920,"height":1080,"fps":30,"durationInFrames":150}';
 
 // Validate required environment variables
 if (!PROJECT_ID || !RENDER_ID) {
@@ -30,6 +41,9 @@ console.log(`RENDER_ID: ${RENDER_ID}`);
 console.log(`GCS_BUCKET: ${GCS_BUCKET}`);
 console.log(`COMPOSITION_ID: ${COMPOSITION_ID}`);
 console.log(`OUTPUT_FORMAT: ${OUTPUT_FORMAT}`);
+console.log(`CAPTIONS_MODE: ${CAPTIONS_MODE}`);
+console.log(`VIDEO_SETTINGS: ${VIDEO_SETTINGS}`);
+console.log(`INPUT_PROPS: ${JSON.stringify(INPUT_PROPS)}`);
 
 // Initialize GCS client
 const storage = new Storage();
@@ -80,6 +94,59 @@ async function downloadSource(destDir) {
   console.log('Source download complete');
 }
 
+// Download the project's uploaded assets, served to the bundle as public/assets/
+async function downloadAssets(destDir) {
+  const prefix = `repos/${PROJECT_ID}/assets/`;
+  const [files] = await bucket.getFiles({ prefix });
+  fs.mkdirSync(destDir, { recursive: true });
+
+  for (const file of files) {
+    const name = file.name.replace(prefix, '');
+    if (!name || name.includes('/')) continue;
+
+    await file.download({ destination: path.join(destDir, name) });
+    console.log(`  Downloaded asset: ${name}`);
+  }
+}
+
+// Download a shared library from the template (sfx/, music/), served to the bundle from public/
+// (uploaded alongside the template by the backend's update-template script)
+async function downloadTemplateLibrary(name, destDir) {
+  const prefix = `templates/default/${name}/`;
+  const [files] = await bucket.getFiles({ prefix });
+
+  for (const file of files) {
+    const relativePath = file.name.replace(prefix, '');
+    if (!relativePath || relativePath.endsWith('/')) continue;
+
+    const destPath = path.join(destDir, relativePath);
+    fs.mkdirSync(path.dirname(destPath), { recursive: true });
+    await file.download({ destination: destPath });
+  }
+  console.log(`Downloaded ${files.length} files from the ${name} library`);
+}
+
+// Resolve 'remotion' to the project's src/remotion-wrapper.ts like the preview's Vite config does,
+// so Sequences register on the timeline (MusicBed ducks under audio Sequences) in renders too
+function withRemotionWrapper(config, srcDir) {
+  const wrapperPath = path.join(srcDir, 'remotion-wrapper.ts');
+  if (!fs.existsSync(wrapperPath)) {
+    return config;
+  }
+
+  return {
+    ...config,
+    resolve: {
+      ...config.resolve,
+      alias: {
+        ...config.resolve?.alias,
+        'real-remotion': path.dirname(require.resolve('remotion/package.json')),
+        remotion$: wrapperPath,
+      },
+    },
+  };
+}
+
 // Upload rendered video to GCS
 async function uploadOutput(localPath, format) {
   console.log('\n=== Step 4: Uploading to GCS ===');
@@ -97,8 +164,56 @@ async function uploadOutput(localPath, format) {
   return `https://storage.googleapis.com/${GCS_BUCKET}/${destPath}`;
 }
 
+// Subtitle files from a caption asset ({ captions: [{ text, startSeconds, endSeconds }] }),
+// formatted like the backend's captions.ts exports
+function formatTimestamp(seconds, separator) {
+  const totalMs = Math.round(seconds * 1000);
+  const pad = (value, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+function readCaptionCues(captionsPath) {
+  const data = JSON.parse(fs.readFileSync(captionsPath, 'utf-8'));
+  if (!Array.isArray(data.captions)) {
+    throw new Error(`${CAPTIONS_SOURCE} has no captions array`);
+  }
+
+  return data.captions
+    .map((cue) => ({
+      text: String(cue.text).replace(/\n\s*\n/g, '\n').trim(),
+      startSeconds: Math.max(0, cue.startSeconds + CAPTIONS_OFFSET),
+      endSeconds: cue.endSeconds + CAPTIONS_OFFSET,
+    }))
+    .filter((cue) => cue.text && cue.endSeconds > 0);
+}
+
+// Upload .srt and .vtt subtitles next to the rendered video
+async function uploadCaptionSidecars(captionsPath) {
+  console.log('\n=== Uploading caption sidecar files ===');
+
+  const cues = readCaptionCues(captionsPath);
+  const srt = cues
+    .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.startSeconds, ',')} --> ${formatTimestamp(cue.endSeconds, ',')}\n${cue.text}\n`)
+    .join('\n');
+  const vtt = `WEBVTT\n\n${cues
+    .map((cue) => `${formatTimestamp(cue.startSeconds, '.')} --> ${formatTimestamp(cue.endSeconds, '.')}\n${cue.text}\n`)
+    .join('\n')}`;
+
+  const urls = {};
+  for (const [extension, content, contentType] of [['srt', srt, 'application/x-subrip'], ['vtt', vtt, 'text/vtt']]) {
+    const destPath = `repos/${PROJECT_ID}/renders/${RENDER_ID}.${extension}`;
+    await bucket.file(destPath).save(content, { contentType: `${contentType}; charset=utf-8` });
+    console.log(`Uploaded ${cues.length} cues to: gs://${GCS_BUCKET}/${destPath}`);
+    urls[extension] = `https://storage.googleapis.com/${GCS_BUCKET}/${destPath}`;
+  }
+  return urls;
+}
+
 // Write completion metadata
-async function writeMetadata(outputUrl, duration) {
+async function writeMetadata(outputUrl, duration, captionsUrls) {
   console.log('\n=== Step 5: Writing completion metadata ===');
 
   const metadata = {
@@ -106,6 +221,7 @@ async function writeMetadata(outputUrl, duration) {
     timestamp: new Date().toISOString(),
     format: OUTPUT_FORMAT,
     outputUrl,
+    captionsUrls,
     renderDurationMs: duration,
   };
 
@@ -119,11 +235,53 @@ async function writeMetadata(outputUrl, duration) {
   console.log(`Metadata written to: gs://${GCS_BUCKET}/${destPath}`);
 }
 
+// Progress is written to renders/{renderId}.progress.json, which the backend polls while the Job runs.
+// Cloud Storage allows about one write per second to an object, so writes are throttled (stage
+// changes go out right away) and only the latest progress is written
+const PROGRESS_INTERVAL_MS = 2000;
+let latestProgress = null;
+let lastProgressWriteAt = 0;
+let progressWrite = null;
+let progressChanged = false;
+
+function reportProgress(progress) {
+  const stageChanged = progress.stage !== latestProgress?.stage;
+  latestProgress = { ...progress, timestamp: new Date().toISOString() };
+  if (stageChanged || Date.now() - lastProgressWriteAt >= PROGRESS_INTERVAL_MS) {
+    writeProgress();
+  }
+}
+
+function writeProgress() {
+  if (progressWrite) {
+    progressChanged = true;
+    return;
+  }
+
+  lastProgressWriteAt = Date.now();
+  const destPath = `repos/${PROJECT_ID}/renders/${RENDER_ID}.progress.json`;
+  progressWrite = bucket.file(destPath)
+    .save(JSON.stringify(latestProgress), { contentType: 'application/json', resumable: false })
+    .catch((error) => console.error('Failed to write progress:', error.message))
+    .finally(() => {
+      progressWrite = null;
+      if (progressChanged) {
+        progressChanged = false;
+        writeProgress();
+      }
+    });
+}
+
+// Overall progress: bundling is the first 10%, rendering and encoding the next 80%, uploading the rest
+const BUNDLE_SHARE = 10;
+const RENDER_SHARE = 80;
+
 // Main render function
 async function main() {
   const startTime = Date.now();
   const workDir = path.join(os.tmpdir(), `render-${RENDER_ID}`);
   const srcDir = path.join(workDir, 'src');
+  const publicDir = path.join(workDir, 'public');
   const outputPath = path.join(workDir, `output.${OUTPUT_FORMAT}`);
 
   try {
@@ -143,8 +301,15 @@ async function main() {
     // Create work directory
     fs.mkdirSync(srcDir, { recursive: true });
 
-    // Step 1: Download source
+    // Step 1: Download source, assets, sound effects and music
     await downloadSource(srcDir);
+    await downloadAssets(path.join(publicDir, 'assets'));
+    await downloadTemplateLibrary('sfx', path.join(publicDir, 'sfx'));
+    await downloadTemplateLibrary('music', path.join(publicDir, 'music'));
+
+    // Same config/video-settings.json the session container's preview uses
+    fs.mkdirSync(path.join(workDir, 'config'), { recursive: true });
+    fs.writeFileSync(path.join(workDir, 'config', 'video-settings.json'), VIDEO_SETTINGS);
 
     // Create Remotion entry point that calls registerRoot
     const rootPath = path.join(srcDir, 'Root.tsx');
@@ -193,11 +358,14 @@ registerRoot(RemotionRoot);
     console.log('\n=== Step 2: Bundling project ===');
     const bundleLocation = await bundle({
       entryPoint,
+      publicDir,
+      webpackOverride: (config) => withRemotionWrapper(config, srcDir),
       // Enable multi-process on Linux for better performance
       onProgress: (progress) => {
         if (progress % 10 === 0) {
           console.log(`  Bundling: ${progress}%`);
         }
+        reportProgress({ stage: 'bundling', progress: Math.round((progress / 100) * BUNDLE_SHARE) });
       },
     });
     console.log('Bundle complete');
@@ -207,10 +375,14 @@ registerRoot(RemotionRoot);
     console.log(`Composition: ${COMPOSITION_ID}`);
     console.log(`Codec: ${getCodec(OUTPUT_FORMAT)}`);
 
+    // The template's Captions component reads the mode with getInputProps(), and hides itself for 'sidecar'
+    const inputProps = { ...INPUT_PROPS, storydreamCaptions: CAPTIONS_MODE };
+
     // Select the composition
     const composition = await selectComposition({
       serveUrl: bundleLocation,
       id: COMPOSITION_ID,
+      inputProps,
     });
 
     console.log(`Video dimensions: ${composition.width}x${composition.height}`);
@@ -218,9 +390,13 @@ registerRoot(RemotionRoot);
 
     // Render with progress tracking
     let lastProgress = 0;
+    const renderStartTime = Date.now();
+    const totalFrames = composition.durationInFrames;
+    reportProgress({ stage: 'rendering', progress: BUNDLE_SHARE, renderedFrames: 0, encodedFrames: 0, totalFrames });
     await renderMedia({
       composition,
       serveUrl: bundleLocation,
+      inputProps,
       codec: getCodec(OUTPUT_FORMAT),
       outputLocation: outputPath,
       // Enable multi-process on Linux for better performance
@@ -228,12 +404,23 @@ registerRoot(RemotionRoot);
         enableMultiProcessOnLinux: true,
       },
       // Progress callback
-      onProgress: ({ progress }) => {
+      onProgress: ({ progress, renderedFrames, encodedFrames }) => {
         const percent = Math.round(progress * 100);
         if (percent >= lastProgress + 5) {
           console.log(`  Rendering: ${percent}%`);
           lastProgress = percent;
         }
+
+        // Frames are encoded as they're rendered, so encoding is what's left once all are rendered
+        const elapsedMs = Date.now() - renderStartTime;
+        reportProgress({
+          stage: renderedFrames < totalFrames ? 'rendering' : 'encoding',
+          progress: BUNDLE_SHARE + Math.round(progress * RENDER_SHARE),
+          renderedFrames,
+          encodedFrames,
+          totalFrames,
+          etaSeconds: progress > 0 ? Math.round((elapsedMs / progress - elapsedMs) / 1000) : undefined,
+        });
       },
       // Use optimal concurrency (let Remotion decide, or set based on CPU)
       concurrency: Math.max(1, Math.floor(os.cpus().length * 0.75)),
@@ -250,11 +437,16 @@ registerRoot(RemotionRoot);
     console.log(`Output file size: ${(stats.size / 1024 / 1024).toFixed(2)} MB`);
 
     // Step 4: Upload to GCS
+    reportProgress({ stage: 'uploading', progress: BUNDLE_SHARE + RENDER_SHARE, totalFrames });
     const outputUrl = await uploadOutput(outputPath, OUTPUT_FORMAT);
 
+    const captionsUrls = CAPTIONS_MODE === 'sidecar' || CAPTIONS_MODE === 'both'
+      ? await uploadCaptionSidecars(path.join(publicDir, 'assets', CAPTIONS_SOURCE))
+      : undefined;
+
     // Step 5: Write metadata
     const duration = Date.now() - startTime;
-    await writeMetadata(outputUrl, duration);
+    await writeMetadata(outputUrl, duration, captionsUrls);
 
     console.log('\n=== Render Complete! ===');
     console.log(`Total time: ${(duration / 1000).toFixed(1)}s`);
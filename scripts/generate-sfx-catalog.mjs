@@ -0,0 +1,191 @@
+#!/usr/bin/env node
+// Generate the sound-effects catalog (project-container/remotion-app/public/sfx/catalog.json)
+// from the mp3s in public/sfx/{category}/. Re-run after adding, removing or replacing sounds.
+//
+// Durations are read from the MP3 frame headers. Loudness (integrated LUFS) needs ffmpeg on
+// the PATH; without it, loudnessLufs is left null. Silent files (the remaining placeholders)
+// have no loudness to measure and get null too.
+//
+// Usage:
+//   node scripts/generate-sfx-catalog.mjs           write the catalog
+//   node scripts/generate-sfx-catalog.mjs --check   fail if the catalog is out of date
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const execFileAsync = promisify(execFile);
+
+const REPO_ROOT = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+const SFX_DIR = path.join(REPO_ROOT, 'project-container/remotion-app/public/sfx');
+const CATALOG_PATH = path.join(SFX_DIR, 'catalog.json');
+const CATALOG_VERSION = 1;
+
+// Search terms for each category, on top of the words in each sound's name
+const CATEGORY_TAGS = {
+  ambient: ['ambient', 'background', 'atmosphere', 'loop'],
+  impacts: ['impact', 'hit', 'emphasis', 'accent'],
+  musical: ['musical', 'music', 'sting', 'accent'],
+  transitions: ['transition', 'movement', 'motion'],
+  ui: ['ui', 'interface', 'app', 'button'],
+};
+
+// MPEG audio header tables, indexed by [version][layer]
+const BITRATES_KBPS = {
+  1: {
+    1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  },
+  2: {
+    1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  },
+};
+const SAMPLE_RATES = { 1: [44100, 48000, 32000], 2: [22050, 24000, 16000], 2.5: [11025, 12000, 8000] };
+
+const isCheck = process.argv.includes('--check');
+
+const sounds = [];
+const categories = (await fs.readdir(SFX_DIR, { withFileTypes: true }))
+  .filter((entry) => entry.isDirectory())
+  .map((entry) => entry.name)
+  .sort();
+
+const hasFfmpeg = await execFileAsync('ffmpeg', ['-version']).then(() => true, () => false);
+if (!hasFfmpeg) {
+  console.warn('ffmpeg not found - loudness will be left out of the catalog');
+}
+
+for (const category of categories) {
+  const files = (await fs.readdir(path.join(SFX_DIR, category))).filter((name) => name.endsWith('.mp3')).sort();
+  for (const fileName of files) {
+    const filePath = path.join(SFX_DIR, category, fileName);
+    const name = path.basename(fileName, '.mp3');
+    sounds.push({
+      name,
+      category,
+      file: `sfx/${category}/${fileName}`,
+      durationSeconds: round(getMp3Duration(await fs.readFile(filePath)), 2),
+      loudnessLufs: hasFfmpeg ? await measureLoudness(filePath) : null,
+      tags: [...new Set([...name.split('-'), ...(CATEGORY_TAGS[category] || [category])])],
+    });
+  }
+}
+
+const catalog = JSON.stringify({ version: CATALOG_VERSION, sounds }, null, 2) + '\n';
+
+if (isCheck) {
+  const current = await fs.readFile(CATALOG_PATH, 'utf-8').catch(() => '');
+  // Loudness can't be checked without ffmpeg, so compare everything else
+  const withoutLoudness = (json) => json.replace(/"loudnessLufs": [^,\n]+/g, '"loudnessLufs": null');
+  const upToDate = hasFfmpeg ? current === catalog : withoutLoudness(current) === withoutLoudness(catalog);
+  if (!upToDate) {
+    console.error('✗ public/sfx/catalog.json is out of date - run scripts/generate-sfx-catalog.mjs');
+    process.exit(1);
+  }
+  console.log(`✓ public/sfx/catalog.json is up to date (${sounds.length} sounds)`);
+} else {
+  await fs.writeFile(CATALOG_PATH, catalog);
+  console.log(`✓ Wrote ${sounds.length} sounds to ${path.relative(REPO_ROOT, CATALOG_PATH)}`);
+}
+
+/**
+ * Duration of an MP3 in seconds: from the Xing/Info or VBRI frame count when the encoder wrote
+ * one, otherwise by walking every frame
+ */
+function getMp3Duration(data) {
+  let offset = 0;
+  // Skip the ID3v2 tag (its size is a 28-bit synchsafe integer)
+  if (data.subarray(0, 3).toString('latin1') === 'ID3') {
+    const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+    offset = 10 + size + (data[5] & 0x10 ? 10 : 0);
+  }
+
+  let frames = 0;
+  let duration = 0;
+  let first = true;
+  while (offset + 4 <= data.length) {
+    const header = parseFrameHeader(data, offset);
+    if (!header) {
+      // Resync only before the first frame (padding after the ID3 tag); stop at trailing tags
+      if (frames > 0) break;
+      offset++;
+      continue;
+    }
+
+    if (first) {
+      first = false;
+      const frameCount = readVbrFrameCount(data, offset, header);
+      if (frameCount !== null) {
+        return (frameCount * header.samplesPerFrame) / header.sampleRate;
+      }
+    }
+
+    frames++;
+    duration += header.samplesPerFrame / header.sampleRate;
+    offset += header.frameLength;
+  }
+  return duration;
+}
+
+function parseFrameHeader(data, offset) {
+  if (data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (data[offset + 1] >> 3) & 0x03;
+  const layerBits = (data[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = data[offset + 2] >> 4;
+  const sampleRateIndex = (data[offset + 2] >> 2) & 0x03;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const layer = 4 - layerBits;
+  const bitrate = BITRATES_KBPS[version === 1 ? 1 : 2][layer][bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+  const padding = (data[offset + 2] >> 1) & 0x01;
+  const isMono = data[offset + 3] >> 6 === 3;
+
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== 1 ? 576 : 1152;
+  const frameLength =
+    layer === 1
+      ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+      : Math.floor(((samplesPerFrame / 8) * bitrate) / sampleRate) + padding;
+
+  return { version, layer, sampleRate, samplesPerFrame, frameLength, isMono };
+}
+
+// Frame count from the first frame's Xing/Info (LAME) or VBRI (Fraunhofer) header, if present
+function readVbrFrameCount(data, offset, header) {
+  if (header.layer === 3) {
+    const sideInfoSize = header.version === 1 ? (header.isMono ? 17 : 32) : header.isMono ? 9 : 17;
+    const xingOffset = offset + 4 + sideInfoSize;
+    const tag = data.subarray(xingOffset, xingOffset + 4).toString('latin1');
+    if ((tag === 'Xing' || tag === 'Info') && data.readUInt32BE(xingOffset + 4) & 0x01) {
+      return data.readUInt32BE(xingOffset + 8);
+    }
+  }
+
+  const vbriOffset = offset + 4 + 32;
+  if (data.subarray(vbriOffset, vbriOffset + 4).toString('latin1') === 'VBRI') {
+    return data.readUInt32BE(vbriOffset + 14);
+  }
+  return null;
+}
+
+// Integrated loudness from ffmpeg's EBU R128 filter; null for silent files
+async function measureLoudness(filePath) {
+  const { stderr } = await execFileAsync('ffmpeg', ['-nostats', '-i', filePath, '-af', 'ebur128', '-f', 'null', '-']);
+  const matches = [...stderr.matchAll(/I:\s+(-?[\d.]+|-inf) LUFS/g)];
+  const value = Number(matches.at(-1)?.[1]);
+  return Number.isFinite(value) && value > -70 ? round(value, 1) : null;
+}
+
+function round(value, digits) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,40 @@
+#!/bin/bash
+set -e
+
+# Copy the shared WebSocket protocol (protocol/protocol.ts) into each package.
+# Each service is built from its own Docker context, so it needs its own copy.
+#
+# Usage:
+#   scripts/sync-protocol.sh           update the copies
+#   scripts/sync-protocol.sh --check   fail if any copy is out of date
+
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+REPO_ROOT="$(dirname "$SCRIPT_DIR")"
+SOURCE="${REPO_ROOT}/protocol/protocol.ts"
+
+TARGETS=(
+  "backend/src/protocol.ts"
+  "frontend/src/protocol.ts"
+  "project-container/agent/src/protocol.ts"
+)
+
+HEADER="// Generated from protocol/protocol.ts by scripts/sync-protocol.sh - do not edit"
+
+outdated=0
+for target in "${TARGETS[@]}"; do
+  expected="$( { echo "$HEADER"; echo; cat "$SOURCE"; } )"
+  if [ "$1" == "--check" ]; then
+    if [ "$expected" != "$(cat "${REPO_ROOT}/${target}" 2>/dev/null)" ]; then
+      echo "✗ ${target} is out of date"
+      outdated=1
+    fi
+  else
+    echo "$expected" > "${REPO_ROOT}/${target}"
+    echo "✓ ${target}"
+  fi
+done
+
+if [ "$outdated" == "1" ]; then
+  echo "Run scripts/sync-protocol.sh to update the copies"
+  exit 1
+fi